@@ -1,9 +1,10 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { Walkthrough } from "@/components/walkthrough.tsx";
 import NotFound from "@/pages/not-found";
+import NoAccess from "@/pages/no-access";
 import Dashboard from "@/pages/dashboard";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
@@ -13,20 +14,43 @@ import Rooms from "@/pages/rooms";
 import Materials from "@/pages/materials";
 import Planning from "@/pages/planning";
 import PublicCalendar from "@/pages/public-calendar";
+import OpenShifts from "@/pages/open-shifts";
 import ImportExport from "@/pages/import-export";
 import Mosque from "@/pages/mosque";
 import Settings from "@/pages/settings";
 import Communication from "@/pages/communication";
 import Sufuf from "@/pages/sufuf"; // Import Sufuf component
+import SufufHistory from "@/pages/sufuf-history";
+import SufufDisplay from "@/pages/sufuf-display";
 import { Sidebar } from "@/components/layout/sidebar";
 import { auth } from "./lib/firebase";
 import { useAuthState } from "react-firebase-hooks/auth";
+import { useRole } from "@/hooks/use-role";
+import { canAccessPage, getHomePage } from "@/lib/roles";
 import { useNotifications } from "@/hooks/use-notifications";
-import { SocketProvider } from "@/hooks/use-socket";
+import { SocketProvider, useSocket } from "@/hooks/use-socket";
+import { resumeServerSession } from "@/lib/server-session";
 import React from 'react';
 
+// The user whose server session was checked, so that moving between pages
+// does not check it again
+let serverSessionUid: string | null = null;
+
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
   const { permission, requestPermission } = useNotifications();
+  const [user] = useAuthState(auth);
+  const { reconnect } = useSocket();
+
+  // Someone still signed in with Firebase from an earlier visit never went
+  // through the login form, so the server session is opened here; the socket
+  // only reads the session when it connects
+  React.useEffect(() => {
+    if (!user || serverSessionUid === user.uid) return;
+    serverSessionUid = user.uid;
+    resumeServerSession(user).then((opened) => {
+      if (opened) reconnect();
+    });
+  }, [user, reconnect]);
 
   React.useEffect(() => {
     if (permission === 'default') {
@@ -47,10 +71,11 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
   );
 }
 
-function PrivateRoute({ component: Component }: { component: React.ComponentType }) {
+function PrivateRoute({ component: Component, path }: { component: React.ComponentType; path: string }) {
   const [user, loading] = useAuthState(auth);
+  const { role, loading: roleLoading } = useRole();
 
-  if (loading) {
+  if (loading || (user && roleLoading)) {
     return (
       <div className="min-h-[100dvh] flex items-center justify-center">
         <div className="text-center">
@@ -66,9 +91,14 @@ function PrivateRoute({ component: Component }: { component: React.ComponentType
     return null;
   }
 
+  const allowed = canAccessPage(role, path);
+  if (!allowed && path === "/" && getHomePage(role) !== "/") {
+    return <Redirect to={getHomePage(role)} />;
+  }
+
   return (
     <AuthenticatedLayout>
-      <Component />
+      {allowed ? <Component /> : <NoAccess />}
     </AuthenticatedLayout>
   );
 }
@@ -78,19 +108,23 @@ function Router() {
     <Switch>
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
-      <Route path="/" component={() => <PrivateRoute component={Dashboard} />} />
-      <Route path="/profile" component={() => <PrivateRoute component={Profile} />} />
-      <Route path="/planning" component={() => <PrivateRoute component={Planning} />} />
-      <Route path="/volunteers" component={() => <PrivateRoute component={Volunteers} />} />
-      <Route path="/rooms" component={() => <PrivateRoute component={Rooms} />} />
-      <Route path="/materials" component={() => <PrivateRoute component={Materials} />} />
-      <Route path="/import-export" component={() => <PrivateRoute component={ImportExport} />} />
-      <Route path="/mosque" component={() => <PrivateRoute component={Mosque} />} />
-      <Route path="/settings" component={() => <PrivateRoute component={Settings} />} />
-      <Route path="/communication" component={() => <PrivateRoute component={Communication} />} />
-      <Route path="/sufuf" component={() => <PrivateRoute component={Sufuf} />} />
-      <Route path="/sufuf/:room" component={() => <PrivateRoute component={Sufuf} />} />
+      <Route path="/" component={() => <PrivateRoute path="/" component={Dashboard} />} />
+      <Route path="/profile" component={() => <PrivateRoute path="/profile" component={Profile} />} />
+      <Route path="/planning" component={() => <PrivateRoute path="/planning" component={Planning} />} />
+      <Route path="/volunteers" component={() => <PrivateRoute path="/volunteers" component={Volunteers} />} />
+      <Route path="/rooms" component={() => <PrivateRoute path="/rooms" component={Rooms} />} />
+      <Route path="/materials" component={() => <PrivateRoute path="/materials" component={Materials} />} />
+      <Route path="/import-export" component={() => <PrivateRoute path="/import-export" component={ImportExport} />} />
+      <Route path="/mosque" component={() => <PrivateRoute path="/mosque" component={Mosque} />} />
+      <Route path="/settings" component={() => <PrivateRoute path="/settings" component={Settings} />} />
+      <Route path="/communication" component={() => <PrivateRoute path="/communication" component={Communication} />} />
+      <Route path="/sufuf" component={() => <PrivateRoute path="/sufuf" component={Sufuf} />} />
+      <Route path="/sufuf/history" component={() => <PrivateRoute path="/sufuf/history" component={SufufHistory} />} />
+      <Route path="/sufuf/display" component={SufufDisplay} />
+      <Route path="/sufuf/:room" component={() => <PrivateRoute path="/sufuf" component={Sufuf} />} />
       <Route path="/calendar/public" component={PublicCalendar} />
+      <Route path="/shifts/open" component={OpenShifts} />
+      <Route path="/shifts/open/:token" component={OpenShifts} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,7 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, Download, Share2, UserCircle2 } from "lucide-react";
-import { format, startOfWeek, addDays, isWithinInterval, isSameDay, parseISO, addWeeks } from "date-fns";
+import { ChevronLeft, ChevronRight, Download, Share2, UserCircle2, UserPlus } from "lucide-react";
+import { format, startOfWeek, addDays, addWeeks } from "date-fns";
 import { nl } from "date-fns/locale";
 import { useState, useEffect } from "react";
 import { db } from "@/lib/firebase";
@@ -14,8 +14,14 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { CalendarPDF } from "../pdf/calendar-pdf";
+import { StaffingGapsPDF } from "../pdf/staffing-gaps-pdf";
 import { PDFDownloadLink } from "@react-pdf/renderer";
 import { cn } from "@/lib/utils";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import type { Prayer } from "@shared/prayer-times";
+import { compareShifts, shiftLabel } from "@shared/shifts";
+import { occursOn, type Recurrence } from "@shared/recurrence";
+import { needLabel, roomCoverage, worstStatus, type Coverage, type RoomStaffing } from "@shared/staffing";
 
 type Planning = {
   id: string;
@@ -23,13 +29,18 @@ type Planning = {
   roomId: string;
   startDate: string;
   endDate: string;
+  startTime?: string;
+  endTime?: string;
+  prayer?: Prayer;
   isResponsible?: boolean;
+  recurrence?: Recurrence;
 };
 
 type Room = {
   id: string;
   name: string;
   channel?: string;
+  staffing?: RoomStaffing;
 };
 
 type Volunteer = {
@@ -38,12 +49,29 @@ type Volunteer = {
   lastName: string;
 };
 
+// "3/4 · Jumu'ah" under a room, with what is still missing
+const CoverageLine = ({ coverage }: { coverage: Coverage }) => {
+  const responsibleMissing = coverage.need.responsible && !coverage.hasResponsible;
+  return (
+    <div className={cn(
+      "text-[10px] font-normal",
+      coverage.status === "under" ? "text-red-700" :
+        coverage.status === "over" ? "text-amber-700" : "text-muted-foreground"
+    )}>
+      {coverage.planned}/{coverage.required} · {needLabel(coverage.need)}
+      {coverage.missing > 0 && ` · nog ${coverage.missing} nodig`}
+      {responsibleMissing && " · geen verantwoordelijke"}
+    </div>
+  );
+};
+
 export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number }) => {
   const [currentWeek, setCurrentWeek] = useState(new Date());
   const [plannings, setPlannings] = useState<Planning[]>([]);
   const [volunteers, setVolunteers] = useState<Volunteer[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [showFullWeek, setShowFullWeek] = useState(false);
+  const { prayerTimes } = useMosqueSettings();
 
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
   const weekDays = Array.from({ length: 7 }).map((_, i) => addDays(weekStart, i));
@@ -94,15 +122,7 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
   }, []);
 
   const getPlanningsForDay = (day: Date) => {
-    return plannings.filter(planning => {
-      const planningStart = parseISO(planning.startDate);
-      const planningEnd = parseISO(planning.endDate);
-
-      return isWithinInterval(day, {
-        start: planningStart,
-        end: planningEnd
-      }) || isSameDay(day, planningStart) || isSameDay(day, planningEnd);
-    });
+    return plannings.filter(planning => occursOn(planning, day));
   };
 
   const getPlanningsForPDF = () => {
@@ -123,6 +143,10 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
               channel: room.channel
             },
             date: day,
+            time: shiftLabel(planning, day, prayerTimes),
+            startTime: planning.startTime,
+            endTime: planning.endTime,
+            prayer: planning.prayer,
             isResponsible: planning.isResponsible
           });
         }
@@ -138,19 +162,36 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
     rooms.forEach(room => {
       const roomPlannings = dayPlannings.filter(p => p.roomId === room.id);
       if (roomPlannings.length > 0) {
-        // Sort plannings to put responsible volunteer first
-        const sortedPlannings = [...roomPlannings].sort((a, b) => {
-          if (a.isResponsible) return -1;
-          if (b.isResponsible) return 1;
-          return 0;
-        });
-        planningsByRoom.set(room.id, sortedPlannings);
+        planningsByRoom.set(room.id, [...roomPlannings].sort(compareShifts(day, prayerTimes)));
       }
     });
 
     return planningsByRoom;
   };
 
+  const getCoverage = (room: Room, day: Date, roomPlannings: Planning[]) =>
+    roomCoverage(room.staffing, roomPlannings, day, prayerTimes);
+
+  // Every under-staffed need of the week, for the "still need volunteers" export
+  const getStaffingGaps = () => {
+    return weekDays.flatMap(day => {
+      const planningsByRoom = getPlanningsByRoom(day);
+      return rooms.flatMap(room =>
+        getCoverage(room, day, planningsByRoom.get(room.id) ?? [])
+          .filter(coverage => coverage.status === "under")
+          .map(coverage => ({
+            date: day,
+            room: room.name,
+            need: needLabel(coverage.need),
+            planned: coverage.planned,
+            required: coverage.required,
+            missing: coverage.missing,
+            responsibleMissing: coverage.need.responsible && !coverage.hasResponsible,
+          }))
+      );
+    });
+  };
+
   const goToPreviousWeek = () => setCurrentWeek(addWeeks(currentWeek, -1));
   const goToNextWeek = () => setCurrentWeek(addWeeks(currentWeek, 1));
   const goToToday = () => setCurrentWeek(new Date());
@@ -208,6 +249,7 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                   <CalendarPDF
                     weekStart={weekStart}
                     plannings={getPlanningsForPDF()}
+                    prayerTimes={prayerTimes}
                     logoUrl={`${window.location.origin}/static/Naamloos.png`}
                   />
                 }
@@ -220,6 +262,23 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                   </DropdownMenuItem>
                 )}
               </PDFDownloadLink>
+              <PDFDownloadLink
+                document={
+                  <StaffingGapsPDF
+                    weekStart={weekStart}
+                    gaps={getStaffingGaps()}
+                    logoUrl={`${window.location.origin}/static/Naamloos.png`}
+                  />
+                }
+                fileName={`nog-nodig-${format(weekStart, 'yyyy-MM-dd')}.pdf`}
+              >
+                {({ loading }) => (
+                  <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    {loading ? "PDF wordt gemaakt..." : "Nog vrijwilligers nodig"}
+                  </DropdownMenuItem>
+                )}
+              </PDFDownloadLink>
               <DropdownMenuItem onClick={publishSchedule}>
                 <Share2 className="h-4 w-4 mr-2" />
                 Publiceren
@@ -233,6 +292,12 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
         {weekDays.map((day, index) => {
           const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
           const planningsByRoom = getPlanningsByRoom(day);
+          const coverageByRoom = new Map(rooms.map(room =>
+            [room.id, getCoverage(room, day, planningsByRoom.get(room.id) ?? [])]
+          ));
+          const hasRooms = rooms.some(room =>
+            planningsByRoom.has(room.id) || coverageByRoom.get(room.id)!.length > 0
+          );
           const shouldHide = !showFullWeek && index > 2;
 
           return (
@@ -257,11 +322,21 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
 
                 <div className="space-y-2 sm:space-y-3">
                   {rooms.map(room => {
-                    const roomPlannings = planningsByRoom.get(room.id);
-                    if (!roomPlannings) return null;
+                    const roomPlannings = planningsByRoom.get(room.id) ?? [];
+                    const coverage = coverageByRoom.get(room.id)!;
+                    if (roomPlannings.length === 0 && coverage.length === 0) return null;
+                    const status = worstStatus(coverage);
 
                     return (
-                      <div key={room.id} className="space-y-2 rounded-lg bg-[#963E56]/5 p-2">
+                      <div
+                        key={room.id}
+                        className={cn(
+                          "space-y-2 rounded-lg p-2",
+                          status === "under" ? "bg-red-50 ring-1 ring-red-300" :
+                            status === "over" ? "bg-amber-50 ring-1 ring-amber-300" :
+                              "bg-[#963E56]/5"
+                        )}
+                      >
                         <div className="font-medium text-sm text-[#963E56] border-b border-[#963E56]/10 pb-1">
                           <div className="flex items-center justify-between mb-1">
                             <span>{room.name}</span>
@@ -272,6 +347,9 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                               </div>
                             )}
                           </div>
+                          {coverage.map((item, i) => (
+                            <CoverageLine key={i} coverage={item} />
+                          ))}
                         </div>
                         <div className="space-y-2 pl-2">
                           {roomPlannings.map(planning => {
@@ -279,6 +357,7 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                             const name = volunteer
                               ? `${volunteer.firstName} ${volunteer.lastName[0]}.`
                               : 'Niet toegewezen';
+                            const time = shiftLabel(planning, day, prayerTimes);
                             return (
                               <div
                                 key={planning.id}
@@ -293,6 +372,9 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                                     <UserCircle2 className="h-3 w-3 shrink-0 text-[#963E56]" />
                                   )}
                                 </div>
+                                {time && (
+                                  <div className="text-[10px] text-muted-foreground mt-0.5">{time}</div>
+                                )}
                               </div>
                             );
                           })}
@@ -300,7 +382,7 @@ export const WeekView = ({ checkedOutMaterials }: { checkedOutMaterials?: number
                       </div>
                     );
                   })}
-                  {planningsByRoom.size === 0 && (
+                  {!hasRooms && (
                     <p className="text-sm text-muted-foreground italic text-center py-4">
                       Geen toewijzingen
                     </p>
@@ -13,14 +13,16 @@ import { useState, useEffect } from "react";
 import { auth } from "@/lib/firebase";
 import { signOut } from "firebase/auth";
 import { useRole } from "@/hooks/use-role";
+import { canAccessPage, ROLE_LABELS } from "@/lib/roles";
 import { useNotifications } from "@/hooks/use-notifications";
 import { logUserAction, UserActionTypes } from "@/lib/activity-logger";
+import { endServerSession } from "@/lib/server-session";
 
 export function Sidebar() {
   const [location] = useLocation();
   const [collapsed, setCollapsed] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
-  const { isAdmin } = useRole();
+  const { role, can } = useRole();
   const { unreadCount, clearUnreadCount } = useNotifications();
   const currentUser = auth.currentUser;
 
@@ -41,6 +43,7 @@ export function Sidebar() {
     try {
       const userEmail = auth.currentUser?.email;
       await signOut(auth);
+      await endServerSession();
       await logUserAction(
         UserActionTypes.LOGOUT,
         undefined,
@@ -69,8 +72,8 @@ export function Sidebar() {
       notificationCount: unreadCount
     },
     { icon: PiMosqueLight, label: "Mijn Moskee", href: "/mosque" },
-    { icon: House, label: "Ruimtes", href: "/rooms", adminOnly: true },
-  ].filter(item => !item.adminOnly || isAdmin);
+    { icon: House, label: "Ruimtes", href: "/rooms" },
+  ].filter(item => canAccessPage(role, item.href));
 
   return (
     <>
@@ -141,7 +144,7 @@ export function Sidebar() {
                     {currentUser?.displayName || currentUser?.email}
                   </p>
                   <p className="text-xs text-gray-500 truncate">
-                    {isAdmin ? "Administrator" : "Gebruiker"}
+                    {role ? ROLE_LABELS[role] : "Gebruiker"}
                   </p>
                 </div>
               )}
@@ -206,7 +209,7 @@ export function Sidebar() {
 
         {/* Footer section */}
         <div className="p-2 border-t space-y-2">
-          {isAdmin && (
+          {can('users:manage') && (
             <Link href="/settings">
               <Button
                 variant={location === "/settings" ? "secondary" : "ghost"}
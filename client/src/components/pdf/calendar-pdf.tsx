@@ -1,6 +1,8 @@
 import { Document, Page, View, Text, StyleSheet, Image } from "@react-pdf/renderer";
 import { format, addDays } from "date-fns";
 import { nl } from "date-fns/locale";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import { compareShifts, type ShiftTiming } from "@shared/shifts";
 
 const styles = StyleSheet.create({
   page: {
@@ -102,6 +104,11 @@ const styles = StyleSheet.create({
     color: '#111827',
     fontWeight: 'bold',
   },
+  shiftTime: {
+    fontSize: 6,
+    color: '#6B7280',
+    marginTop: 1,
+  },
   responsibleBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -146,23 +153,27 @@ const styles = StyleSheet.create({
   },
 });
 
-type Planning = {
+type Planning = ShiftTiming & {
   room: { 
     name: string;
     channel?: string; 
   };
   volunteer: { firstName: string; lastName: string };
   date: Date;
+  // Shift label such as "12:30–14:30", null for the whole day
+  time?: string | null;
   isResponsible?: boolean;
 };
 
 type CalendarPDFProps = {
   weekStart: Date;
   plannings: Planning[];
+  // Places prayer shifts among the others
+  prayerTimes: PrayerTimeSettings;
   logoUrl?: string;
 };
 
-export function CalendarPDF({ weekStart, plannings, logoUrl }: CalendarPDFProps) {
+export function CalendarPDF({ weekStart, plannings, prayerTimes, logoUrl }: CalendarPDFProps) {
   const weekDays = Array.from({ length: 7 }).map((_, i) => addDays(weekStart, i));
 
   const roomPlannings = plannings.reduce((acc, planning) => {
@@ -221,11 +232,7 @@ export function CalendarPDF({ weekStart, plannings, logoUrl }: CalendarPDFProps)
                   const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
                   const dayPlannings = room.plannings
                     .filter(p => format(p.date, 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd'))
-                    .sort((a, b) => {
-                      if (a.isResponsible) return -1;
-                      if (b.isResponsible) return 1;
-                      return 0;
-                    });
+                    .sort(compareShifts(day, prayerTimes));
 
                   return (
                     <View key={day.toISOString()} style={[
@@ -263,6 +270,9 @@ export function CalendarPDF({ weekStart, plannings, logoUrl }: CalendarPDFProps)
                               />
                             )}
                           </View>
+                          {planning.time && (
+                            <Text style={styles.shiftTime}>{planning.time}</Text>
+                          )}
                         </View>
                       ))}
 
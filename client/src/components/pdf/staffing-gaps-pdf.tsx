@@ -0,0 +1,165 @@
+import { Document, Page, View, Text, StyleSheet, Image } from "@react-pdf/renderer";
+import { format, addDays } from "date-fns";
+import { nl } from "date-fns/locale";
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 20,
+    backgroundColor: '#fff',
+    fontFamily: 'Helvetica',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    paddingBottom: 8,
+  },
+  logo: {
+    width: 40,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    color: '#963E56',
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 9,
+    color: '#6B7280',
+    marginTop: 1,
+  },
+  daySection: {
+    marginBottom: 10,
+  },
+  dayHeader: {
+    backgroundColor: '#963E56',
+    padding: 4,
+    marginBottom: 4,
+    borderRadius: 2,
+  },
+  dayName: {
+    color: 'white',
+    fontSize: 9,
+    fontWeight: 'bold',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    paddingVertical: 3,
+    paddingHorizontal: 4,
+  },
+  room: {
+    flex: 2,
+    fontSize: 8,
+    color: '#111827',
+    fontWeight: 'bold',
+  },
+  need: {
+    flex: 2,
+    fontSize: 8,
+    color: '#6B7280',
+  },
+  missing: {
+    flex: 3,
+    fontSize: 8,
+    color: '#963E56',
+  },
+  empty: {
+    fontSize: 9,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    color: '#6B7280',
+    marginTop: 20,
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 15,
+    left: 20,
+    right: 20,
+    textAlign: 'center',
+    color: '#6B7280',
+    fontSize: 7,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    paddingTop: 8,
+  },
+});
+
+type StaffingGap = {
+  date: Date;
+  room: string;
+  // What the room needs volunteers for, e.g. "Jumu'ah" or "Hele dag"
+  need: string;
+  planned: number;
+  required: number;
+  missing: number;
+  responsibleMissing: boolean;
+};
+
+type StaffingGapsPDFProps = {
+  weekStart: Date;
+  gaps: StaffingGap[];
+  logoUrl?: string;
+};
+
+function describeMissing(gap: StaffingGap): string {
+  const parts = [];
+  if (gap.missing > 0) parts.push(`nog ${gap.missing} ${gap.missing === 1 ? 'vrijwilliger' : 'vrijwilligers'}`);
+  if (gap.responsibleMissing) parts.push('een verantwoordelijke');
+  return `${parts.join(' en ')} (${gap.planned}/${gap.required} ingepland)`;
+}
+
+// The room/day cells of a week that are still under-staffed
+export function StaffingGapsPDF({ weekStart, gaps, logoUrl }: StaffingGapsPDFProps) {
+  const weekDays = Array.from({ length: 7 }).map((_, i) => addDays(weekStart, i));
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          {logoUrl && <Image src={logoUrl} style={styles.logo} />}
+          <View style={styles.headerContent}>
+            <Text style={styles.title}>Nog vrijwilligers nodig</Text>
+            <Text style={styles.subtitle}>
+              Week van {format(weekStart, 'd MMMM yyyy', { locale: nl })}
+            </Text>
+          </View>
+        </View>
+
+        {weekDays.map((day) => {
+          const dayGaps = gaps.filter(gap => format(gap.date, 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd'));
+          if (dayGaps.length === 0) return null;
+
+          return (
+            <View key={day.toISOString()} style={styles.daySection} wrap={false}>
+              <View style={styles.dayHeader}>
+                <Text style={styles.dayName}>{format(day, 'EEEE d MMMM', { locale: nl })}</Text>
+              </View>
+              {dayGaps.map((gap, index) => (
+                <View key={index} style={styles.row}>
+                  <Text style={styles.room}>{gap.room}</Text>
+                  <Text style={styles.need}>{gap.need}</Text>
+                  <Text style={styles.missing}>{describeMissing(gap)}</Text>
+                </View>
+              ))}
+            </View>
+          );
+        })}
+
+        {gaps.length === 0 && (
+          <Text style={styles.empty}>Alle ruimtes zijn deze week voldoende bezet</Text>
+        )}
+
+        <Text style={styles.footer}>
+          MEFEN Vrijwilligers Management Systeem • Gegenereerd op {format(new Date(), 'd MMMM yyyy', { locale: nl })}
+        </Text>
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,39 @@
+import { CalendarOff } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { describeUnavailability } from "@shared/availability";
+import type { VolunteerUnavailability } from "@/lib/planning-availability";
+
+interface AvailabilityWarningsProps {
+  unavailable: VolunteerUnavailability[];
+  volunteers: { id: string; firstName: string; lastName: string }[];
+}
+
+// Volunteers planned on a day they said they cannot come. Only a warning: the
+// coordinator may know better.
+export function AvailabilityWarnings({ unavailable, volunteers }: AvailabilityWarningsProps) {
+  if (unavailable.length === 0) return null;
+
+  const formatDate = (date: string) => format(parseISO(date), "d MMMM yyyy", { locale: nl });
+
+  return (
+    <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+      <div className="flex items-center gap-2 font-medium">
+        <CalendarOff className="h-4 w-4" />
+        Niet beschikbaar
+      </div>
+      <ul className="list-disc space-y-1 pl-5">
+        {unavailable.map(({ volunteerId, date, reason }) => {
+          const volunteer = volunteers.find(v => v.id === volunteerId);
+          return (
+            <li key={volunteerId}>
+              {volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : "Onbekende vrijwilliger"} kan
+              niet op {format(parseISO(date), "EEEE d MMMM yyyy", { locale: nl })}.{" "}
+              {describeUnavailability(reason, formatDate)}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { nextOccurrences, type RecurringPlanning } from "@shared/recurrence";
+import type { SeriesScope } from "@/lib/planning-series";
+
+const scopeLabels: Record<SeriesScope, string> = {
+  this: "Alleen deze keer",
+  following: "Deze en volgende",
+  all: "Alle keren",
+};
+
+const MAX_LISTED_OCCURRENCES = 26;
+
+// The days a scope of "this" or "following" can start from: the coming
+// occurrences, or those from the start of a series that already ended
+export function upcomingOccurrences(planning: RecurringPlanning): string[] {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const from = planning.endDate < today ? planning.startDate : today > planning.startDate ? today : planning.startDate;
+  return nextOccurrences(planning, parseISO(from), MAX_LISTED_OCCURRENCES)
+    .map(day => format(day, "yyyy-MM-dd"));
+}
+
+interface OccurrenceScopeFieldsProps {
+  planning: RecurringPlanning;
+  scope: SeriesScope;
+  onScopeChange: (scope: SeriesScope) => void;
+  occurrenceDate?: string;
+  onOccurrenceDateChange: (date: string) => void;
+}
+
+// Picks which part of a recurring planning a change applies to
+export function OccurrenceScopeFields({
+  planning,
+  scope,
+  onScopeChange,
+  occurrenceDate,
+  onOccurrenceDateChange,
+}: OccurrenceScopeFieldsProps) {
+  const occurrences = useMemo(() => upcomingOccurrences(planning), [planning]);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-[#963E56]/20 bg-[#963E56]/5 p-3">
+      <RadioGroup
+        value={scope}
+        onValueChange={(value) => onScopeChange(value as SeriesScope)}
+        className="flex flex-col gap-2"
+      >
+        {(Object.keys(scopeLabels) as SeriesScope[]).map((value) => (
+          <div key={value} className="flex items-center space-x-2">
+            <RadioGroupItem value={value} id={`scope-${value}`} />
+            <Label htmlFor={`scope-${value}`} className="font-normal">{scopeLabels[value]}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {scope !== "all" && (
+        <div className="space-y-1">
+          <Label className="text-sm">{scope === "this" ? "Datum" : "Vanaf"}</Label>
+          <Select value={occurrenceDate} onValueChange={onOccurrenceDateChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Kies een datum" />
+            </SelectTrigger>
+            <SelectContent>
+              {occurrences.map((date) => (
+                <SelectItem key={date} value={date}>
+                  {format(parseISO(date), "EEEE d MMMM yyyy", { locale: nl })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
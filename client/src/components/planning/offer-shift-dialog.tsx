@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { SWAP_KINDS, SWAP_KIND_LABELS, type SwapKind } from "@shared/swaps";
+import { upcomingOccurrences } from "./occurrence-scope-fields";
+import type { Planning } from "./planning-form";
+
+const kindDescriptions: Record<SwapKind, string> = {
+  drop: "Een andere vrijwilliger neemt de dienst over",
+  swap: "In ruil voor een dienst van wie overneemt",
+};
+
+export type ShiftOffer = { kind: SwapKind; date: string; note: string };
+
+interface OfferShiftDialogProps {
+  planning: Planning | null;
+  volunteerName: string;
+  onClose: () => void;
+  // Rejects after telling the user what went wrong
+  onOffer: (offer: ShiftOffer) => Promise<void>;
+}
+
+// A volunteer who cannot come offers one day of their planning to others
+export function OfferShiftDialog({ planning, volunteerName, onClose, onOffer }: OfferShiftDialogProps) {
+  const [kind, setKind] = useState<SwapKind>("drop");
+  const [date, setDate] = useState<string | undefined>();
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const occurrences = useMemo(() => (planning ? upcomingOccurrences(planning) : []), [planning]);
+
+  useEffect(() => {
+    if (!planning) return;
+    setKind("drop");
+    setDate(occurrences[0]);
+    setNote("");
+  }, [planning]);
+
+  const handleOffer = async () => {
+    try {
+      setIsSaving(true);
+      await onOffer({ kind, date: date!, note: note.trim() });
+      onClose();
+    } catch {
+      // The page has told the user; the dialog stays open to try again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={planning !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">Dienst aanbieden</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {volunteerName} kan niet komen en biedt deze dienst aan.
+          </p>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Datum</Label>
+            <Select value={date} onValueChange={setDate}>
+              <SelectTrigger>
+                <SelectValue placeholder="Kies een datum" />
+              </SelectTrigger>
+              <SelectContent>
+                {occurrences.map((occurrence) => (
+                  <SelectItem key={occurrence} value={occurrence}>
+                    {format(parseISO(occurrence), "EEEE d MMMM yyyy", { locale: nl })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <RadioGroup
+            value={kind}
+            onValueChange={(value) => setKind(value as SwapKind)}
+            className="flex flex-col gap-2"
+          >
+            {SWAP_KINDS.map((value) => (
+              <div key={value} className="flex items-start space-x-2">
+                <RadioGroupItem value={value} id={`swap-kind-${value}`} className="mt-0.5" />
+                <Label htmlFor={`swap-kind-${value}`} className="font-normal">
+                  <span className="font-medium">{SWAP_KIND_LABELS[value]}</span>
+                  <span className="block text-xs text-muted-foreground">{kindDescriptions[value]}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Opmerking</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Bijvoorbeeld waarom de vrijwilliger niet kan"
+              maxLength={200}
+            />
+          </div>
+
+          {planning?.isResponsible && (
+            <p className="text-xs text-muted-foreground">
+              Dit is een dienst als verantwoordelijke: wie overneemt wordt verantwoordelijke, na goedkeuring door een beheerder.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Annuleren
+          </Button>
+          <Button
+            className="bg-[#963E56] hover:bg-[#963E56]/90"
+            onClick={handleOffer}
+            disabled={isSaving || !date}
+          >
+            {isSaving ? "Opslaan..." : "Aanbieden"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DoorOpen, Lock, Plus, Trash2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { cn } from "@/lib/utils";
+import { PRAYERS, PRAYER_LABELS, type PrayerTimeSettings } from "@shared/prayer-times";
+import { TIME_PATTERN, shiftLabel, timeToMinutes } from "@shared/shifts";
+import { MAX_OPEN_SHIFT_PLACES, acceptsSignUps, emptyPlaces, freePlaces, signedUp, type OpenShift } from "@shared/open-shifts";
+
+export type StoredOpenShift = OpenShift & { id: string };
+
+const timeField = z.string().regex(TIME_PATTERN, "Ongeldige tijd").optional().or(z.literal(""));
+
+const openShiftSchema = z.object({
+  roomId: z.string().min(1, "Selecteer een ruimte"),
+  date: z.string().min(1, "Kies een datum"),
+  prayer: z.enum(PRAYERS).optional(),
+  startTime: timeField,
+  endTime: timeField,
+  places: z.coerce.number().int().min(1, "Minstens 1").max(MAX_OPEN_SHIFT_PLACES, `Maximaal ${MAX_OPEN_SHIFT_PLACES}`),
+  note: z.string().max(200, "Maximaal 200 tekens").optional(),
+}).superRefine((data, ctx) => {
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (data.startTime && !data.endTime) {
+    issue("endTime", "Eindtijd is verplicht bij een starttijd");
+  } else if (data.endTime && !data.startTime) {
+    issue("startTime", "Starttijd is verplicht bij een eindtijd");
+  } else if (data.startTime && data.endTime && timeToMinutes(data.endTime) <= timeToMinutes(data.startTime)) {
+    issue("endTime", "Eindtijd moet na de starttijd liggen");
+  }
+});
+
+type OpenShiftFormData = z.infer<typeof openShiftSchema>;
+
+const NO_PRAYER = "none";
+
+function toOpenShift(data: OpenShiftFormData): OpenShift {
+  return {
+    roomId: data.roomId,
+    date: data.date,
+    startTime: data.startTime || null,
+    endTime: data.endTime || null,
+    prayer: data.prayer ?? null,
+    ...(data.note?.trim() ? { note: data.note.trim() } : {}),
+    createdAt: new Date().toISOString(),
+    places: emptyPlaces(data.places),
+  };
+}
+
+interface OpenShiftsProps {
+  shifts: StoredOpenShift[];
+  volunteers: { id: string; firstName: string; lastName: string }[];
+  rooms: { id: string; name: string }[];
+  prayerTimes: PrayerTimeSettings;
+  canManage: boolean;
+  // Rejects after telling the user what went wrong
+  onPublish: (shift: OpenShift) => Promise<void>;
+  onClose: (shift: StoredOpenShift) => Promise<void>;
+  onDelete: (shift: StoredOpenShift) => Promise<void>;
+  onRelease: (shift: StoredOpenShift, place: string, planningId?: string) => Promise<void>;
+}
+
+// Shifts published for volunteers to sign up for on /shifts/open, through the
+// personal link from the volunteers page. Who signs up is planned straight
+// away; an admin can free their place again.
+export function OpenShifts({
+  shifts,
+  volunteers,
+  rooms,
+  prayerTimes,
+  canManage,
+  onPublish,
+  onClose,
+  onDelete,
+  onRelease,
+}: OpenShiftsProps) {
+  const [publishOpen, setPublishOpen] = useState(false);
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcoming = shifts
+    .filter(shift => shift.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (upcoming.length === 0 && !canManage) return null;
+
+  const volunteerName = (id: string) => {
+    const volunteer = volunteers.find(v => v.id === id);
+    return volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : "Onbekende vrijwilliger";
+  };
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <DoorOpen className="h-5 w-5 text-[#963E56]" />
+          <h2 className="text-lg font-semibold text-[#963E56]">Open diensten</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href="/volunteers" className="text-sm text-[#963E56] underline-offset-4 hover:underline">
+            Inschrijflinks van vrijwilligers
+          </Link>
+          {canManage && (
+            <Button size="sm" className="bg-[#963E56] hover:bg-[#963E56]/90" onClick={() => setPublishOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Publiceren
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          Geen open diensten
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {upcoming.map(shift => {
+            const day = parseISO(shift.date);
+            const time = shiftLabel(shift, day, prayerTimes);
+            const taken = signedUp(shift);
+            const total = taken.length + freePlaces(shift).length;
+            const status = acceptsSignUps(shift, today) ? "Open" : shift.closed ? "Gesloten" : "Volzet";
+
+            return (
+              <div key={shift.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg bg-background">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rooms.find(r => r.id === shift.roomId)?.name ?? "Onbekende ruimte"}</span>
+                    <span className={cn(
+                      "rounded-full px-2 py-0.5 text-xs",
+                      status === "Open" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"
+                    )}>
+                      {status}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {format(day, "EEEE d MMMM yyyy", { locale: nl })}
+                    {time && <span className="ml-2 text-[#963E56]">{time}</span>}
+                  </div>
+                  {shift.note && <div className="text-muted-foreground italic">{shift.note}</div>}
+                  <div>{taken.length} van {total} plaatsen ingenomen</div>
+                  {taken.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {taken.map(({ place, volunteerId, planningId }) => (
+                        <span
+                          key={place}
+                          className="bg-[#963E56]/10 text-[#963E56] text-xs rounded-full px-3 py-1 flex items-center gap-1"
+                        >
+                          {volunteerName(volunteerId)}
+                          {canManage && (
+                            <button
+                              type="button"
+                              title="Plaats vrijgeven"
+                              onClick={() => onRelease(shift, place, planningId)}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    {!shift.closed && freePlaces(shift).length > 0 && (
+                      <Button variant="ghost" size="icon" title="Inschrijven stoppen" onClick={() => onClose(shift)}>
+                        <Lock className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Verwijderen"
+                      onClick={() => {
+                        if (window.confirm("Weet je zeker dat je deze open dienst wilt verwijderen? De planningen van wie zich inschreef blijven bestaan.")) {
+                          onDelete(shift);
+                        }
+                      }}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <PublishOpenShiftDialog
+        open={publishOpen}
+        onOpenChange={setPublishOpen}
+        rooms={rooms}
+        onPublish={onPublish}
+      />
+    </div>
+  );
+}
+
+interface PublishOpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rooms: { id: string; name: string }[];
+  onPublish: (shift: OpenShift) => Promise<void>;
+}
+
+const defaultValues: OpenShiftFormData = {
+  roomId: "",
+  date: "",
+  prayer: undefined,
+  startTime: "",
+  endTime: "",
+  places: 1,
+  note: "",
+};
+
+function PublishOpenShiftDialog({ open, onOpenChange, rooms, onPublish }: PublishOpenShiftDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const form = useForm<OpenShiftFormData>({
+    resolver: zodResolver(openShiftSchema),
+    defaultValues,
+  });
+
+  const close = () => {
+    form.reset(defaultValues);
+    onOpenChange(false);
+  };
+
+  const handleSubmit = async (data: OpenShiftFormData) => {
+    try {
+      setIsSaving(true);
+      await onPublish(toOpenShift(data));
+      close();
+    } catch {
+      // The page has told the user; the dialog stays open to try again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">Open dienst publiceren</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="roomId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">Ruimte</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecteer ruimte" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {rooms.map(room => (
+                        <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Datum</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={format(new Date(), "yyyy-MM-dd")} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="places"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Aantal plaatsen</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={MAX_OPEN_SHIFT_PLACES} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="prayer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">Gebed</FormLabel>
+                  <Select
+                    value={field.value ?? NO_PRAYER}
+                    onValueChange={(value) => field.onChange(value === NO_PRAYER ? undefined : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_PRAYER}>Geen gebed</SelectItem>
+                      {PRAYERS.map(prayer => (
+                        <SelectItem key={prayer} value={prayer}>{PRAYER_LABELS[prayer]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Van</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Tot</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">Opmerking</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Bijvoorbeeld wat er van de vrijwilligers verwacht wordt" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={close} disabled={isSaving}>
+                Annuleren
+              </Button>
+              <Button type="submit" className="bg-[#963E56] hover:bg-[#963E56]/90" disabled={isSaving}>
+                {isSaving ? "Opslaan..." : "Publiceren"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { Textarea } from "@/components/ui/textarea";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { UseFormReturn } from "react-hook-form";
+import type { PlanningConflict } from "@shared/conflicts";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import { shiftLabel } from "@shared/shifts";
+import type { Planning, PlanningFormData } from "./planning-form";
+
+interface PlanningConflictsProps {
+  form: UseFormReturn<PlanningFormData>;
+  conflicts: PlanningConflict<Planning>[];
+  volunteers: { id: string; firstName: string; lastName: string }[];
+  rooms: { id: string; name: string }[];
+  prayerTimes: PrayerTimeSettings;
+  canOverride: boolean;
+}
+
+// Lists the plannings the form would double-book a volunteer with. Only an
+// admin can save anyway, and has to give a reason for the log.
+export function PlanningConflicts({
+  form,
+  conflicts,
+  volunteers,
+  rooms,
+  prayerTimes,
+  canOverride,
+}: PlanningConflictsProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+      <div className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4" />
+        Dubbele planning
+      </div>
+      <ul className="list-disc space-y-1 pl-5">
+        {conflicts.map(({ planning, date, days }) => {
+          const volunteer = volunteers.find(v => v.id === planning.volunteerId);
+          const room = rooms.find(r => r.id === planning.roomId);
+          const time = shiftLabel(planning, parseISO(date), prayerTimes);
+          return (
+            <li key={`${planning.volunteerId}-${planning.id}`}>
+              {volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : "Onbekende vrijwilliger"} staat
+              al ingepland in {room?.name ?? "een onbekende ruimte"} op{" "}
+              {format(parseISO(date), "EEEE d MMMM yyyy", { locale: nl })}
+              {time && ` (${time})`}
+              {days > 1 && ` en nog ${days - 1} ${days === 2 ? "dag" : "dagen"}`}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canOverride ? (
+        <FormField
+          control={form.control}
+          name="overrideReason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">Reden om toch op te slaan</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Waarom mag deze vrijwilliger dubbel ingepland worden?"
+                  className="bg-white"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ) : (
+        <p>Pas de planning aan. Alleen een beheerder kan een dubbele planning toch opslaan.</p>
+      )}
+    </div>
+  );
+}
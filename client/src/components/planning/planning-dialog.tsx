@@ -1,8 +1,10 @@
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { Plus } from "lucide-react";
-import PlanningForm, { PlanningFormData } from "./planning-form";
+import PlanningForm, { Planning, PlanningFormData } from "./planning-form";
 import { UseFormReturn } from "react-hook-form";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import type { Availability } from "@shared/availability";
 
 interface PlanningDialogProps {
   open: boolean;
@@ -10,8 +12,10 @@ interface PlanningDialogProps {
   editingPlanning: any | null;
   form: UseFormReturn<PlanningFormData>;
   onSubmit: (data: PlanningFormData) => Promise<void>;
-  volunteers: { id: string; firstName: string; lastName: string; }[];
+  volunteers: { id: string; firstName: string; lastName: string; availability?: Availability | null }[];
   rooms: { id: string; name: string; }[];
+  plannings: Planning[];
+  prayerTimes: PrayerTimeSettings;
 }
 
 export function PlanningDialog({
@@ -22,6 +26,8 @@ export function PlanningDialog({
   onSubmit,
   volunteers,
   rooms,
+  plannings,
+  prayerTimes,
 }: PlanningDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -40,6 +46,8 @@ export function PlanningDialog({
           onClose={() => onOpenChange(false)}
           volunteers={volunteers}
           rooms={rooms}
+          plannings={plannings}
+          prayerTimes={prayerTimes}
           editingPlanning={editingPlanning}
         />
       </DialogContent>
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -14,7 +14,59 @@ import { cn } from "@/lib/utils";
 import { z } from "zod";
 import { UseFormReturn } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { PRAYERS, PRAYER_LABELS, type Prayer, type PrayerTimeSettings } from "@shared/prayer-times";
+import { TIME_PATTERN, shiftTimesIssue } from "@shared/shifts";
+import { MAX_OCCURRENCES, type Recurrence } from "@shared/recurrence";
+import { SERIES_SCOPES } from "@/lib/planning-series";
+import { CHECKED_FIELDS, formConflicts } from "@/lib/planning-conflicts";
+import { formUnavailability } from "@/lib/planning-availability";
+import type { Availability } from "@shared/availability";
+import { RecurrenceFields } from "./recurrence-fields";
+import { OccurrenceScopeFields } from "./occurrence-scope-fields";
+import { PlanningConflicts } from "./planning-conflicts";
+import { AvailabilityWarnings } from "./availability-warnings";
+
+// Optional shift within each planned day; empty means the whole day
+const timeField = z.string().regex(TIME_PATTERN, "Ongeldige tijd").optional().or(z.literal(""));
+
+// Fields shared by single and bulk planning
+const sharedFields = {
+  startDate: z.string().min(1, "Startdatum is verplicht"),
+  endDate: z.string(),
+  startTime: timeField,
+  endTime: timeField,
+  prayer: z.enum(PRAYERS).optional(),
+  recurring: z.boolean().default(false),
+  weekdays: z.array(z.number()).default([]),
+  interval: z.coerce.number().int().min(1, "Minstens 1").max(52).default(1),
+  endType: z.enum(["until", "count"]).default("until"),
+  until: z.string().optional(),
+  count: z.coerce.number().int().optional(),
+  editScope: z.enum(SERIES_SCOPES).optional(),
+  occurrenceDate: z.string().optional(),
+  // Why an admin saves a planning that double-books a volunteer
+  overrideReason: z.string().optional(),
+};
+
+// Form values of a new planning, apart from who and where
+const emptySchedule = {
+  startDate: "",
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  prayer: undefined,
+  recurring: false,
+  weekdays: [] as number[],
+  interval: 1,
+  endType: "until" as const,
+  until: "",
+  count: undefined,
+  editScope: undefined,
+  occurrenceDate: undefined,
+  overrideReason: "",
+};
 
 // Schema definition
 const planningSchema = z.discriminatedUnion("isBulkPlanning", [
@@ -22,19 +74,41 @@ const planningSchema = z.discriminatedUnion("isBulkPlanning", [
     isBulkPlanning: z.literal(false),
     volunteerId: z.string().min(1, "Selecteer een vrijwilliger"),
     roomId: z.string().min(1, "Selecteer een ruimte"),
-    startDate: z.string().min(1, "Startdatum is verplicht"),
-    endDate: z.string().min(1, "Einddatum is verplicht"),
     isResponsible: z.boolean().default(false),
+    ...sharedFields,
   }),
   z.object({
     isBulkPlanning: z.literal(true),
     selectedVolunteers: z.array(z.string()).min(1, "Selecteer ten minste één vrijwilliger"),
     selectedRoomId: z.string().min(1, "Selecteer een ruimte"),
-    startDate: z.string().min(1, "Startdatum is verplicht"),
-    endDate: z.string().min(1, "Einddatum is verplicht"),
     responsibleVolunteerId: z.string().optional(),
+    ...sharedFields,
   }),
-]);
+]).superRefine((data, ctx) => {
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  const timesIssue = shiftTimesIssue(data);
+  if (timesIssue) issue(timesIssue.field, timesIssue.message);
+
+  // A single occurrence takes its date from the series
+  if (data.editScope && data.editScope !== "all" && !data.occurrenceDate) {
+    issue("occurrenceDate", "Kies een datum");
+  }
+  if (data.editScope === "this") return;
+
+  if (!data.recurring) {
+    if (!data.endDate) issue("endDate", "Einddatum is verplicht");
+    return;
+  }
+  if (data.weekdays.length === 0) issue("weekdays", "Kies ten minste één dag");
+  if (data.endType === "until" && !data.until) issue("until", "Kies tot wanneer");
+  if (data.endType === "until" && data.until && data.until < data.startDate) {
+    issue("until", "De einddatum ligt voor de startdatum");
+  }
+  if (data.endType === "count" && !(data.count && data.count >= 1 && data.count <= MAX_OCCURRENCES)) {
+    issue("count", `Kies tussen 1 en ${MAX_OCCURRENCES} keer`);
+  }
+});
 
 type PlanningFormData = z.infer<typeof planningSchema>;
 
@@ -45,11 +119,20 @@ interface Planning {
   startDate: string;
   endDate: string;
   isResponsible?: boolean;
+  startTime?: string;
+  endTime?: string;
+  prayer?: Prayer;
+  recurrence?: Recurrence;
+  // Set when the volunteer signed up for an open shift
+  openShiftId?: string;
+  openShiftPlace?: string;
 }
 
 interface PlanningFormProps {
-  volunteers: { id: string; firstName: string; lastName: string }[];
+  volunteers: { id: string; firstName: string; lastName: string; availability?: Availability | null }[];
   rooms: { id: string; name: string }[];
+  plannings: Planning[];
+  prayerTimes: PrayerTimeSettings;
   onSubmit: (data: PlanningFormData) => Promise<void>;
   onClose: () => void;
   form: UseFormReturn<PlanningFormData>;
@@ -59,6 +142,8 @@ interface PlanningFormProps {
 const PlanningForm: React.FC<PlanningFormProps> = ({
   volunteers,
   rooms,
+  plannings,
+  prayerTimes,
   onSubmit,
   onClose,
   form,
@@ -67,10 +152,36 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
   const [searchTerm, setSearchTerm] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const { isAdmin } = useRole();
   const isBulkPlanning = form.watch("isBulkPlanning");
   const selectedVolunteers = form.watch("selectedVolunteers") || [];
+  const recurring = form.watch("recurring");
+  const editScope = form.watch("editScope");
+  const occurrenceDate = form.watch("occurrenceDate");
+  const overrideReason = form.watch("overrideReason");
+
+  // Long series make these checks costly, so they do not run again for
+  // keystrokes in other fields, such as the override reason
+  const checkedKey = JSON.stringify(form.watch(CHECKED_FIELDS));
+  const conflicts = useMemo(
+    () => formConflicts(form.getValues(), editingPlanning?.id, plannings, prayerTimes),
+    [form, checkedKey, editingPlanning?.id, plannings, prayerTimes],
+  );
+  const blockedByConflicts = conflicts.length > 0 && !(isAdmin && overrideReason?.trim());
+
+  // Greyed out in the picker; a warning once chosen
+  const unavailable = useMemo(
+    () => formUnavailability(form.getValues(), volunteers),
+    [form, checkedKey, volunteers],
+  );
+  const isUnavailable = (id: string) => unavailable.some(item => item.volunteerId === id);
+  const chosenVolunteers = isBulkPlanning ? selectedVolunteers : [form.watch("volunteerId")];
 
   const handleFormSubmit = async (data: PlanningFormData) => {
+    if (blockedByConflicts) {
+      form.setError("overrideReason", { message: "Geef een reden om toch op te slaan" });
+      return;
+    }
     try {
       setIsSubmitting(true);
       await onSubmit(data);
@@ -106,18 +217,16 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
               checked={isBulkPlanning}
               onCheckedChange={(checked) => {
                 form.reset(checked ? {
+                  ...emptySchedule,
                   isBulkPlanning: true,
                   selectedVolunteers: [],
                   selectedRoomId: "",
-                  startDate: "",
-                  endDate: "",
                   responsibleVolunteerId: undefined,
                 } : {
+                  ...emptySchedule,
                   isBulkPlanning: false,
                   volunteerId: "",
                   roomId: "",
-                  startDate: "",
-                  endDate: "",
                   isResponsible: false,
                 } as PlanningFormData);
               }}
@@ -127,6 +236,16 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
           </div>
         )}
 
+        {editingPlanning?.recurrence && editScope && (
+          <OccurrenceScopeFields
+            planning={editingPlanning}
+            scope={editScope}
+            onScopeChange={(scope) => form.setValue("editScope", scope)}
+            occurrenceDate={occurrenceDate}
+            onOccurrenceDateChange={(date) => form.setValue("occurrenceDate", date, { shouldValidate: true })}
+          />
+        )}
+
         {/* Ruimte selectie */}
         <FormField
           control={form.control}
@@ -218,8 +337,12 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
                       <SelectItem
                         key={volunteer.id}
                         value={volunteer.id}
+                        className={cn(isUnavailable(volunteer.id) && "opacity-50")}
                       >
                         <span>{volunteer.firstName} {volunteer.lastName}</span>
+                        {isUnavailable(volunteer.id) && (
+                          <span className="ml-2 text-xs text-muted-foreground">niet beschikbaar</span>
+                        )}
                       </SelectItem>
                     ))}
                   </div>
@@ -326,101 +449,182 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
           />
         )}
 
-        {/* Datum selectie */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Datum selectie; een enkele keer uit een reeks houdt zijn datum */}
+        {(!editScope || editScope === "all") && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Startdatum</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? (
+                            format(new Date(field.value), "d MMM yyyy", { locale: nl })
+                          ) : (
+                            <span>Kies een datum</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? new Date(field.value) : undefined}
+                        onSelect={(date) => {
+                          if (date) {
+                            field.onChange(format(date, 'yyyy-MM-dd'));
+                          }
+                        }}
+                        initialFocus
+                        locale={nl}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!recurring && (
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Einddatum</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant={"outline"}
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value ? (
+                              format(new Date(field.value), "d MMM yyyy", { locale: nl })
+                            ) : (
+                              <span>Kies een datum</span>
+                            )}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value ? new Date(field.value) : undefined}
+                          onSelect={(date) => {
+                            if (date) {
+                              field.onChange(format(date, 'yyyy-MM-dd'));
+                            }
+                          }}
+                          disabled={(date) => {
+                            const startDate = form.getValues("startDate");
+                            if (!startDate) return false;
+                            return date < new Date(startDate);
+                          }}
+                          initialFocus
+                          locale={nl}
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        )}
+
+        {editScope !== "this" && <RecurrenceFields form={form} />}
+
+        {/* Tijd selectie */}
+        <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
-            name="startDate"
+            name="startTime"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Startdatum</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <FormControl>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value ? (
-                          format(new Date(field.value), "d MMM yyyy", { locale: nl })
-                        ) : (
-                          <span>Kies een datum</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
-                    </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value ? new Date(field.value) : undefined}
-                      onSelect={(date) => {
-                        if (date) {
-                          field.onChange(format(date, 'yyyy-MM-dd'));
-                        }
-                      }}
-                      initialFocus
-                      locale={nl}
-                    />
-                  </PopoverContent>
-                </Popover>
+                <FormLabel>Starttijd</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} value={field.value ?? ""} />
+                </FormControl>
                 <FormMessage />
               </FormItem>
             )}
           />
-
           <FormField
             control={form.control}
-            name="endDate"
+            name="endTime"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Einddatum</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <FormControl>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value ? (
-                          format(new Date(field.value), "d MMM yyyy", { locale: nl })
-                        ) : (
-                          <span>Kies een datum</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
-                    </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value ? new Date(field.value) : undefined}
-                      onSelect={(date) => {
-                        if (date) {
-                          field.onChange(format(date, 'yyyy-MM-dd'));
-                        }
-                      }}
-                      disabled={(date) => {
-                        const startDate = form.getValues("startDate");
-                        if (!startDate) return false;
-                        return date < new Date(startDate);
-                      }}
-                      initialFocus
-                      locale={nl}
-                    />
-                  </PopoverContent>
-                </Popover>
+                <FormLabel>Eindtijd</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} value={field.value ?? ""} />
+                </FormControl>
                 <FormMessage />
               </FormItem>
             )}
           />
         </div>
+        <p className="text-xs text-muted-foreground -mt-2">
+          Laat de tijden leeg voor de hele dag of voor de tijd van het gekozen gebed.
+        </p>
+
+        {/* Gebed selectie */}
+        <FormField
+          control={form.control}
+          name="prayer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">Gebed (optioneel)</FormLabel>
+              <Select
+                value={field.value ?? "none"}
+                onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent side="bottom">
+                  <SelectItem value="none">Hele dag</SelectItem>
+                  {PRAYERS.map((prayer) => (
+                    <SelectItem key={prayer} value={prayer}>
+                      {PRAYER_LABELS[prayer]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <AvailabilityWarnings
+          unavailable={unavailable.filter(item => chosenVolunteers.includes(item.volunteerId))}
+          volunteers={volunteers}
+        />
+
+        <PlanningConflicts
+          form={form}
+          conflicts={conflicts}
+          volunteers={volunteers}
+          rooms={rooms}
+          prayerTimes={prayerTimes}
+          canOverride={isAdmin}
+        />
 
         <div className="flex justify-end gap-3 pt-6">
           <Button
@@ -434,7 +638,7 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
           <Button
             type="submit"
             className="bg-[#963E56] hover:bg-[#963E56]/90 text-sm text-white"
-            disabled={isSubmitting}
+            disabled={isSubmitting || blockedByConflicts}
           >
             {isSubmitting
               ? "Opslaan..."
@@ -449,5 +653,5 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
 };
 
 export type { Planning, PlanningFormData };
-export { planningSchema };
+export { planningSchema, emptySchedule };
 export default PlanningForm;
\ No newline at end of file
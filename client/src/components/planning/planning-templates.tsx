@@ -0,0 +1,540 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarPlus, Edit2, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { cn } from "@/lib/utils";
+import type { ConflictPlanning } from "@shared/conflicts";
+import type { Availability } from "@shared/availability";
+import { PRAYERS, PRAYER_LABELS, type PrayerTimeSettings } from "@shared/prayer-times";
+import { listWeekdays, WEEKDAY_KEYS, WEEKDAY_LABELS, WEEKDAY_ORDER } from "@shared/recurrence";
+import { TIME_PATTERN, shiftLabel, timeToMinutes } from "@shared/shifts";
+import { templateDrafts, type DraftPlanning, type PlanningTemplate } from "@shared/planning-templates";
+import { ProposalReview } from "./proposal-review";
+
+export type StoredTemplate = PlanningTemplate & { id: string };
+
+const NO_PRAYER = "none";
+
+const timeField = z.string().regex(TIME_PATTERN, "Ongeldige tijd").optional().or(z.literal(""));
+
+const templateFormSchema = z.object({
+  name: z.string().trim().min(1, "Naam is verplicht").max(64, "Maximaal 64 tekens"),
+  prayer: z.enum(PRAYERS).optional(),
+  startTime: timeField,
+  endTime: timeField,
+  weekdays: z.array(z.enum(WEEKDAY_KEYS)).min(1, "Kies ten minste één dag"),
+  rooms: z.array(z.object({
+    roomId: z.string().min(1, "Selecteer een ruimte"),
+    headcount: z.coerce.number().int().min(1, "Minimaal 1").max(99, "Maximaal 99"),
+    responsible: z.boolean(),
+  })).min(1, "Voeg ten minste één ruimte toe"),
+}).superRefine((data, ctx) => {
+  const issue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  if (data.startTime && !data.endTime) {
+    issue(["endTime"], "Eindtijd is verplicht bij een starttijd");
+  } else if (data.endTime && !data.startTime) {
+    issue(["startTime"], "Starttijd is verplicht bij een eindtijd");
+  } else if (data.startTime && data.endTime && timeToMinutes(data.endTime) <= timeToMinutes(data.startTime)) {
+    issue(["endTime"], "Eindtijd moet na de starttijd liggen");
+  }
+
+  data.rooms.forEach((room, index) => {
+    if (room.roomId && data.rooms.findIndex(other => other.roomId === room.roomId) < index) {
+      issue(["rooms", index, "roomId"], "Deze ruimte staat er al in");
+    }
+  });
+});
+
+type TemplateFormData = z.infer<typeof templateFormSchema>;
+
+function templateFormValues(template?: PlanningTemplate | null): TemplateFormData {
+  return {
+    name: template?.name ?? "",
+    prayer: template?.prayer ?? undefined,
+    startTime: template?.startTime ?? "",
+    endTime: template?.endTime ?? "",
+    weekdays: template?.weekdays ?? [...WEEKDAY_KEYS],
+    rooms: template?.rooms ?? [{ roomId: "", headcount: 1, responsible: true }],
+  };
+}
+
+// Every day is stored as no weekdays at all
+function toTemplate(data: TemplateFormData): PlanningTemplate {
+  return {
+    name: data.name,
+    startTime: data.startTime || null,
+    endTime: data.endTime || null,
+    prayer: data.prayer ?? null,
+    ...(data.weekdays.length < WEEKDAY_KEYS.length
+      ? { weekdays: WEEKDAY_KEYS.filter(key => data.weekdays.includes(key)) }
+      : {}),
+    rooms: data.rooms,
+  };
+}
+
+type TemplateVolunteer = { id: string; firstName: string; lastName: string; availability?: Availability | null };
+
+interface PlanningTemplatesProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: StoredTemplate[];
+  volunteers: TemplateVolunteer[];
+  rooms: { id: string; name: string }[];
+  plannings: ConflictPlanning[];
+  prayerTimes: PrayerTimeSettings;
+  canOverride: boolean;
+  // onSave and onCommit reject after telling the user what went wrong
+  onSave: (template: PlanningTemplate, id?: string) => Promise<void>;
+  onDelete: (template: StoredTemplate) => Promise<void>;
+  onCommit: (template: StoredTemplate, drafts: DraftPlanning[], openPlaces: DraftPlanning[], overrideReason?: string) => Promise<void>;
+}
+
+// Named room layouts for events that come back. Applying one to a date or a
+// range of dates gives draft plannings that the coordinator fills with
+// volunteers before they are saved at once.
+export function PlanningTemplates({
+  open,
+  onOpenChange,
+  templates,
+  volunteers,
+  rooms,
+  plannings,
+  prayerTimes,
+  canOverride,
+  onSave,
+  onDelete,
+  onCommit,
+}: PlanningTemplatesProps) {
+  const [editing, setEditing] = useState<StoredTemplate | "new" | null>(null);
+  const [applying, setApplying] = useState<StoredTemplate | null>(null);
+
+  const close = () => {
+    setEditing(null);
+    setApplying(null);
+    onOpenChange(false);
+  };
+
+  const roomName = (id: string) => rooms.find(r => r.id === id)?.name ?? "Onbekende ruimte";
+
+  const describeTiming = (template: PlanningTemplate) => {
+    const times = template.startTime && template.endTime ? `${template.startTime}–${template.endTime}` : null;
+    const prayer = template.prayer ? PRAYER_LABELS[template.prayer] : null;
+    const timing = [prayer, times].filter(Boolean).join(" ") || "Hele dag";
+    return template.weekdays
+      ? `${timing}, op ${listWeekdays(template.weekdays.map(key => WEEKDAY_KEYS.indexOf(key)))}`
+      : timing;
+  };
+
+  const title = applying
+    ? `${applying.name} toepassen`
+    : editing === "new" ? "Nieuw sjabloon" : editing ? "Sjabloon bewerken" : "Sjablonen";
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">{title}</DialogTitle>
+        </DialogHeader>
+
+        {applying ? (
+          <ApplyTemplate
+            template={applying}
+            volunteers={volunteers}
+            roomName={roomName}
+            plannings={plannings}
+            prayerTimes={prayerTimes}
+            canOverride={canOverride}
+            onBack={() => setApplying(null)}
+            onCommit={async (drafts, openPlaces, overrideReason) => {
+              await onCommit(applying, drafts, openPlaces, overrideReason);
+              close();
+            }}
+          />
+        ) : editing ? (
+          <TemplateForm
+            template={editing === "new" ? null : editing}
+            rooms={rooms}
+            onBack={() => setEditing(null)}
+            onSave={async (template) => {
+              await onSave(template, editing === "new" ? undefined : editing.id);
+              setEditing(null);
+            }}
+          />
+        ) : (
+          <div className="space-y-4">
+            {templates.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                Nog geen sjablonen, bijvoorbeeld voor de Ramadan-nachten of het Eid-gebed
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {[...templates].sort((a, b) => a.name.localeCompare(b.name)).map(template => (
+                  <div key={template.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <div className="space-y-1 text-sm">
+                      <div className="font-medium">{template.name}</div>
+                      <div className="text-muted-foreground">{describeTiming(template)}</div>
+                      <div className="flex flex-wrap gap-2">
+                        {template.rooms.map(room => (
+                          <span
+                            key={room.roomId}
+                            className="bg-[#963E56]/10 text-[#963E56] text-xs rounded-full px-3 py-1 flex items-center gap-1"
+                          >
+                            {roomName(room.roomId)} × {room.headcount}
+                            {room.responsible && <ShieldCheck className="h-3 w-3" />}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" className="bg-[#963E56] hover:bg-[#963E56]/90" onClick={() => setApplying(template)}>
+                        <CalendarPlus className="h-4 w-4 mr-1" />
+                        Toepassen
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(template)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (window.confirm(`Weet je zeker dat je het sjabloon "${template.name}" wilt verwijderen?`)) {
+                            onDelete(template);
+                          }
+                        }}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={close}>Sluiten</Button>
+              <Button className="bg-[#963E56] hover:bg-[#963E56]/90" onClick={() => setEditing("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nieuw sjabloon
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TemplateFormProps {
+  template: PlanningTemplate | null;
+  rooms: { id: string; name: string }[];
+  onBack: () => void;
+  onSave: (template: PlanningTemplate) => Promise<void>;
+}
+
+function TemplateForm({ template, rooms, onBack, onSave }: TemplateFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: templateFormValues(template),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "rooms" });
+
+  const handleSubmit = async (data: TemplateFormData) => {
+    try {
+      setIsSaving(true);
+      await onSave(toTemplate(data));
+    } catch {
+      // onSave has told the user; the form stays open to try again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">Naam</FormLabel>
+              <FormControl>
+                <Input placeholder="Bijvoorbeeld Taraweeh" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="prayer"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">Gebed</FormLabel>
+                <Select
+                  value={field.value ?? NO_PRAYER}
+                  onValueChange={(value) => field.onChange(value === NO_PRAYER ? undefined : value)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PRAYER}>Geen gebed</SelectItem>
+                    {PRAYERS.map(prayer => (
+                      <SelectItem key={prayer} value={prayer}>{PRAYER_LABELS[prayer]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="startTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">Van</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">Tot</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="weekdays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">Valt op</FormLabel>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_ORDER.map((weekday) => {
+                  const key = WEEKDAY_KEYS[weekday];
+                  const selected = field.value.includes(key);
+                  return (
+                    <Button
+                      key={key}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className={cn(
+                        "w-11",
+                        selected && "bg-[#963E56] text-white hover:bg-[#963E56]/90 hover:text-white"
+                      )}
+                      onClick={() => field.onChange(
+                        selected ? field.value.filter(day => day !== key) : [...field.value, key]
+                      )}
+                    >
+                      {WEEKDAY_LABELS[weekday].slice(0, 2).toLowerCase()}
+                    </Button>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Ruimtes</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ roomId: "", headcount: 1, responsible: false })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Toevoegen
+            </Button>
+          </div>
+          {fields.map((item, index) => (
+            <div key={item.id} className="grid grid-cols-[1fr_5rem_auto_auto] items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`rooms.${index}.roomId`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecteer ruimte" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rooms.map(room => (
+                          <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`rooms.${index}.headcount`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={1} max={99} title="Aantal vrijwilligers" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`rooms.${index}.responsible`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 h-10">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        className="data-[state=checked]:bg-[#963E56]"
+                      />
+                    </FormControl>
+                    <FormLabel className="text-xs font-normal">Verantw.</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.rooms?.message && (
+            <p className="text-sm font-medium text-destructive">{form.formState.errors.rooms.message}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Het aantal vrijwilligers per ruimte, de verantwoordelijke inbegrepen.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onBack} disabled={isSaving}>
+            Terug
+          </Button>
+          <Button type="submit" className="bg-[#963E56] hover:bg-[#963E56]/90" disabled={isSaving}>
+            {isSaving ? "Opslaan..." : "Opslaan"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+interface ApplyTemplateProps {
+  template: StoredTemplate;
+  volunteers: TemplateVolunteer[];
+  roomName: (id: string) => string;
+  plannings: ConflictPlanning[];
+  prayerTimes: PrayerTimeSettings;
+  canOverride: boolean;
+  onBack: () => void;
+  onCommit: (drafts: DraftPlanning[], openPlaces: DraftPlanning[], overrideReason?: string) => Promise<void>;
+}
+
+function ApplyTemplate({
+  template,
+  volunteers,
+  roomName,
+  plannings,
+  prayerTimes,
+  canOverride,
+  onBack,
+  onCommit,
+}: ApplyTemplateProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [drafts, setDrafts] = useState<DraftPlanning[] | null>(null);
+
+  if (!drafts) {
+    return (
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-sm">Van</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">Tot en met</Label>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Voor één dag kies je twee keer dezelfde datum.
+        </p>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onBack}>Terug</Button>
+          <Button
+            className="bg-[#963E56] hover:bg-[#963E56]/90"
+            onClick={() => setDrafts(templateDrafts(template, from, to))}
+            disabled={!from || !to || to < from}
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Planningen klaarzetten
+          </Button>
+        </DialogFooter>
+      </div>
+    );
+  }
+
+  return (
+    <ProposalReview
+      proposals={drafts}
+      onChange={setDrafts}
+      volunteers={volunteers}
+      plannings={plannings}
+      prayerTimes={prayerTimes}
+      roomName={roomName}
+      describe={(draft) => shiftLabel(draft, parseISO(draft.date), prayerTimes) ?? "Hele dag"}
+      emptyMessage="Het sjabloon valt op geen enkele dag in deze periode"
+      canOverride={canOverride}
+      onBack={() => setDrafts(null)}
+      onCommit={onCommit}
+    />
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import type { ConflictPlanning } from "@shared/conflicts";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import type { ShiftTiming } from "@shared/shifts";
+import { doubleBookedProposals } from "@shared/roster";
+import { isAvailableOn, type Availability } from "@shared/availability";
+
+const NOBODY = "none";
+
+// A planning of one day that is not saved yet, from the roster generator or
+// a template
+export type ReviewedPlanning = ShiftTiming & {
+  key: string;
+  date: string;
+  roomId: string;
+  // null while nobody fills the place
+  volunteerId: string | null;
+  isResponsible: boolean;
+};
+
+interface ProposalReviewProps<T extends ReviewedPlanning> {
+  proposals: T[];
+  onChange: (proposals: T[]) => void;
+  volunteers: { id: string; firstName: string; lastName: string; availability?: Availability | null }[];
+  plannings: ConflictPlanning[];
+  prayerTimes: PrayerTimeSettings;
+  roomName: (id: string) => string;
+  // What the place is for, under the room
+  describe: (proposal: T) => string;
+  emptyMessage: string;
+  // Besides the volunteer's availability
+  isAbsent?: (volunteerId: string) => boolean;
+  canOverride: boolean;
+  onBack: () => void;
+  // Gets the filled places, and the open ones that are not saved so the
+  // user can be told. Rejects after telling the user what went wrong.
+  onCommit: (proposals: T[], openPlaces: T[], overrideReason?: string) => Promise<void>;
+}
+
+// The coordinator fills and edits the places before all plannings are saved
+// at once. As in the planning form, a volunteer can only be double-booked by
+// an admin who gives a reason for the log.
+export function ProposalReview<T extends ReviewedPlanning>({
+  proposals,
+  onChange,
+  volunteers,
+  plannings,
+  prayerTimes,
+  roomName,
+  describe,
+  emptyMessage,
+  isAbsent = () => false,
+  canOverride,
+  onBack,
+  onCommit,
+}: ProposalReviewProps<T>) {
+  const [overrideReason, setOverrideReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const doubleBooked = doubleBookedProposals(proposals, plannings, prayerTimes);
+  const reason = overrideReason.trim();
+  const blocked = doubleBooked.size > 0 && !(canOverride && reason);
+
+  const update = (index: number, change: Partial<ReviewedPlanning>) => {
+    onChange(proposals.map((proposal, i) => i === index ? { ...proposal, ...change } : proposal));
+  };
+
+  const handleCommit = async () => {
+    try {
+      setIsSaving(true);
+      await onCommit(
+        proposals.filter(proposal => proposal.volunteerId),
+        proposals.filter(proposal => !proposal.volunteerId),
+        doubleBooked.size > 0 ? reason : undefined
+      );
+    } catch {
+      // onCommit has told the user; the proposal stays open to try again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const filled = proposals.filter(proposal => proposal.volunteerId).length;
+  const openPlaces = proposals.length - filled;
+
+  return (
+    <div className="space-y-4">
+      {proposals.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">{emptyMessage}</p>
+      ) : (
+        <div className="space-y-2">
+          {proposals.map((proposal, index) => {
+            const day = parseISO(proposal.date);
+            const isDoubleBooked = doubleBooked.has(index);
+            return (
+              <div
+                key={proposal.key}
+                className={cn(
+                  "grid grid-cols-[7rem_1fr_12rem_auto_auto] items-center gap-2 rounded-lg border p-2 text-sm",
+                  (!proposal.volunteerId || isDoubleBooked) && "border-red-300 bg-red-50"
+                )}
+              >
+                <span>{format(day, "EEE d MMM", { locale: nl })}</span>
+                <div>
+                  <div className="font-medium">{roomName(proposal.roomId)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {describe(proposal)}
+                    {isDoubleBooked && <span className="ml-1 text-red-700">· dubbel ingepland</span>}
+                  </div>
+                </div>
+                <Select
+                  value={proposal.volunteerId ?? NOBODY}
+                  onValueChange={(value) => update(index, { volunteerId: value === NOBODY ? null : value })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOBODY}>Nog niemand</SelectItem>
+                    {volunteers.map(volunteer => {
+                      const unavailable = isAbsent(volunteer.id) || !isAvailableOn(volunteer.availability, day);
+                      return (
+                        <SelectItem
+                          key={volunteer.id}
+                          value={volunteer.id}
+                          className={cn(unavailable && "opacity-50")}
+                        >
+                          {volunteer.firstName} {volunteer.lastName}
+                          {unavailable && (
+                            <span className="ml-2 text-xs text-muted-foreground">niet beschikbaar</span>
+                          )}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1" title="Verantwoordelijke">
+                  <Switch
+                    checked={proposal.isResponsible}
+                    onCheckedChange={(checked) => update(index, { isResponsible: checked })}
+                    className="data-[state=checked]:bg-[#963E56]"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(proposals.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {openPlaces > 0 && (
+        <p className="text-sm text-red-700">
+          {openPlaces} {openPlaces === 1 ? "plaats heeft" : "plaatsen hebben"} nog geen vrijwilliger. Bij het opslaan {openPlaces === 1 ? "vervalt ze" : "vervallen ze"}: alleen ingevulde plaatsen worden planningen.
+        </p>
+      )}
+
+      {doubleBooked.size > 0 && (
+        <div className="space-y-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Dubbele planning
+          </div>
+          {canOverride ? (
+            <div className="space-y-1">
+              <Label className="text-sm">Reden om toch op te slaan</Label>
+              <Textarea
+                placeholder="Waarom mogen deze vrijwilligers dubbel ingepland worden?"
+                className="bg-white"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+              />
+            </div>
+          ) : (
+            <p>Pas de gemarkeerde plaatsen aan. Alleen een beheerder kan een dubbele planning toch opslaan.</p>
+          )}
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={onBack} disabled={isSaving}>
+          Terug
+        </Button>
+        <Button
+          className="bg-[#963E56] hover:bg-[#963E56]/90"
+          onClick={handleCommit}
+          disabled={isSaving || filled === 0 || blocked}
+        >
+          {isSaving ? "Opslaan..." : `${filled} ${filled === 1 ? "planning" : "planningen"} opslaan`}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
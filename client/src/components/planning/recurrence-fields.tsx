@@ -0,0 +1,198 @@
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CalendarIcon, Repeat } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { UseFormReturn } from "react-hook-form";
+import { cn } from "@/lib/utils";
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from "@shared/recurrence";
+import type { PlanningFormData } from "./planning-form";
+
+interface RecurrenceFieldsProps {
+  form: UseFormReturn<PlanningFormData>;
+}
+
+// Weekly repetition of a planning: on which days, every how many weeks and
+// until when
+export function RecurrenceFields({ form }: RecurrenceFieldsProps) {
+  const recurring = form.watch("recurring");
+  const endType = form.watch("endType");
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3 shadow-sm">
+      <FormField
+        control={form.control}
+        name="recurring"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-center justify-between">
+            <div className="flex items-center gap-2">
+              <FormLabel>Herhalen</FormLabel>
+              <div className="bg-[#963E56]/10 rounded-full p-1">
+                <Repeat className="h-4 w-4 text-[#963E56]" />
+              </div>
+            </div>
+            <FormControl>
+              <Switch
+                checked={field.value}
+                onCheckedChange={field.onChange}
+                className="data-[state=checked]:bg-[#963E56]"
+              />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+
+      {recurring && (
+        <>
+          <FormField
+            control={form.control}
+            name="weekdays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">Op</FormLabel>
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAY_ORDER.map((weekday) => {
+                    const selected = field.value?.includes(weekday);
+                    return (
+                      <Button
+                        key={weekday}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className={cn(
+                          "w-11",
+                          selected && "bg-[#963E56] text-white border-[#963E56] hover:bg-[#963E56]/90 hover:text-white"
+                        )}
+                        onClick={() => field.onChange(
+                          selected
+                            ? field.value.filter(day => day !== weekday)
+                            : [...(field.value || []), weekday]
+                        )}
+                      >
+                        {WEEKDAY_LABELS[weekday].slice(0, 2).toLowerCase()}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Elke</span>
+                  <FormControl>
+                    <Input type="number" min={1} max={52} className="w-20" {...field} />
+                  </FormControl>
+                  <span>{Number(field.value) === 1 ? "week" : "weken"}</span>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endType"
+            render={({ field }) => (
+              <FormItem className="space-y-2">
+                <FormLabel className="text-sm">Eindigt</FormLabel>
+                <FormControl>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-4">
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <RadioGroupItem value="until" />
+                      </FormControl>
+                      <FormLabel className="font-normal">Op datum</FormLabel>
+                    </FormItem>
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <RadioGroupItem value="count" />
+                      </FormControl>
+                      <FormLabel className="font-normal">Na aantal keer</FormLabel>
+                    </FormItem>
+                  </RadioGroup>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          {endType === "count" ? (
+            <FormField
+              control={form.control}
+              name="count"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center gap-2 text-sm">
+                    <FormControl>
+                      <Input type="number" min={1} className="w-20" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <span>keer, geteld vanaf de eerste keer van de reeks</span>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : (
+            <FormField
+              control={form.control}
+              name="until"
+              render={({ field }) => (
+                <FormItem>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? (
+                            format(parseISO(field.value), "d MMM yyyy", { locale: nl })
+                          ) : (
+                            <span>Tot en met</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? parseISO(field.value) : undefined}
+                        onSelect={(date) => {
+                          if (date) {
+                            field.onChange(format(date, "yyyy-MM-dd"));
+                          }
+                        }}
+                        disabled={(date) => {
+                          const startDate = form.getValues("startDate");
+                          return !!startDate && format(date, "yyyy-MM-dd") < startDate;
+                        }}
+                        initialFocus
+                        locale={nl}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wand2 } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import { needLabel, type RoomStaffing } from "@shared/staffing";
+import { FAIRNESS_WINDOW_WEEKS, generateRoster, type ProposedPlanning, type RosterPlanning } from "@shared/roster";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import { isAvailableOn, type Availability } from "@shared/availability";
+import { ProposalReview } from "./proposal-review";
+
+const NOBODY = "none";
+
+interface RosterGeneratorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  volunteers: { id: string; firstName: string; lastName: string; availability?: Availability | null }[];
+  rooms: { id: string; name: string; staffing?: RoomStaffing }[];
+  plannings: RosterPlanning[];
+  prayerTimes: PrayerTimeSettings;
+  canOverride: boolean;
+  // Rejects after telling the user what went wrong
+  onCommit: (proposals: ProposedPlanning[], openPlaces: ProposedPlanning[], overrideReason?: string) => Promise<void>;
+}
+
+// Builds a proposal for a range of days from the staffing of the rooms. The
+// coordinator reviews and edits it before all plannings are saved at once.
+export function RosterGenerator({
+  open,
+  onOpenChange,
+  volunteers,
+  rooms,
+  plannings,
+  prayerTimes,
+  canOverride,
+  onCommit,
+}: RosterGeneratorProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(format(addDays(new Date(), 6), "yyyy-MM-dd"));
+  const [roomIds, setRoomIds] = useState<string[] | null>(null);
+  const [absent, setAbsent] = useState<string[]>([]);
+  const [preferences, setPreferences] = useState<Record<string, string>>({});
+  const [proposals, setProposals] = useState<ProposedPlanning[] | null>(null);
+
+  const staffedRooms = rooms.filter(room => room.staffing);
+  // All rooms with requirements take part until the coordinator changes that
+  const selectedRoomIds = roomIds ?? staffedRooms.map(room => room.id);
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+  const propose = () => {
+    setProposals(generateRoster({
+      from,
+      to,
+      rooms: staffedRooms.filter(room => selectedRoomIds.includes(room.id)),
+      volunteers: volunteers
+        .filter(volunteer => !absent.includes(volunteer.id))
+        .map(volunteer => ({
+          id: volunteer.id,
+          preferredRoomIds: preferences[volunteer.id] ? [preferences[volunteer.id]] : [],
+          isAvailable: (date: string) => isAvailableOn(volunteer.availability, parseISO(date)),
+        })),
+      plannings,
+      settings: prayerTimes,
+    }));
+  };
+
+  const close = () => {
+    setProposals(null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">Rooster genereren</DialogTitle>
+        </DialogHeader>
+
+        {!proposals ? (
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label className="text-sm">Van</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm">Tot en met</Label>
+                <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Ruimtes</Label>
+              {rooms.map(room => (
+                <div key={room.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`roster-room-${room.id}`}
+                    checked={selectedRoomIds.includes(room.id)}
+                    disabled={!room.staffing}
+                    onCheckedChange={() => setRoomIds(toggle(selectedRoomIds, room.id))}
+                  />
+                  <Label htmlFor={`roster-room-${room.id}`} className="font-normal">
+                    {room.name}
+                    {!room.staffing && (
+                      <span className="ml-2 text-xs text-muted-foreground">geen bezetting ingesteld</span>
+                    )}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Vrijwilligers</Label>
+              <ScrollArea className="h-64 rounded-lg border">
+                <div className="divide-y">
+                  {volunteers.map(volunteer => (
+                    <div key={volunteer.id} className="flex items-center justify-between gap-3 p-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`roster-volunteer-${volunteer.id}`}
+                          checked={!absent.includes(volunteer.id)}
+                          onCheckedChange={() => setAbsent(toggle(absent, volunteer.id))}
+                        />
+                        <Label htmlFor={`roster-volunteer-${volunteer.id}`} className="font-normal">
+                          {volunteer.firstName} {volunteer.lastName}
+                        </Label>
+                      </div>
+                      <Select
+                        value={preferences[volunteer.id] || NOBODY}
+                        onValueChange={(value) => setPreferences({
+                          ...preferences,
+                          [volunteer.id]: value === NOBODY ? "" : value,
+                        })}
+                      >
+                        <SelectTrigger className="h-8 w-44 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOBODY}>Geen voorkeur</SelectItem>
+                          {staffedRooms.map(room => (
+                            <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <p className="text-xs text-muted-foreground">
+                Vink af wie in deze periode niet kan; afwezigheden en vaste dagen worden al gerespecteerd. Wie de laatste {FAIRNESS_WINDOW_WEEKS} weken het minst heeft gedraaid, komt eerst aan de beurt.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={close}>Annuleren</Button>
+              <Button
+                className="bg-[#963E56] hover:bg-[#963E56]/90"
+                onClick={propose}
+                disabled={!from || !to || to < from || selectedRoomIds.length === 0}
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                Voorstel maken
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <ProposalReview
+            proposals={proposals}
+            onChange={setProposals}
+            volunteers={volunteers}
+            plannings={plannings}
+            prayerTimes={prayerTimes}
+            roomName={(id) => rooms.find(room => room.id === id)?.name ?? "Onbekende ruimte"}
+            describe={(proposal) => needLabel(proposal.need)}
+            emptyMessage="Alle gekozen ruimtes zijn in deze periode al voldoende bezet"
+            isAbsent={(volunteerId) => absent.includes(volunteerId)}
+            canOverride={canOverride}
+            onBack={() => setProposals(null)}
+            onCommit={async (reviewed, openPlaces, overrideReason) => {
+              await onCommit(reviewed, openPlaces, overrideReason);
+              close();
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
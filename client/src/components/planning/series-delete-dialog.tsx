@@ -0,0 +1,68 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { RecurringPlanning } from "@shared/recurrence";
+import { OccurrenceScopeFields, upcomingOccurrences } from "./occurrence-scope-fields";
+import type { SeriesScope } from "@/lib/planning-series";
+
+interface SeriesDeleteDialogProps {
+  planning: RecurringPlanning | null;
+  onClose: () => void;
+  onDelete: (scope: SeriesScope, date: string) => Promise<void>;
+}
+
+// Deleting a recurring planning asks which occurrences to remove
+export function SeriesDeleteDialog({ planning, onClose, onDelete }: SeriesDeleteDialogProps) {
+  const [scope, setScope] = useState<SeriesScope>("this");
+  const [occurrenceDate, setOccurrenceDate] = useState<string | undefined>();
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!planning) return;
+    setScope("this");
+    setOccurrenceDate(upcomingOccurrences(planning)[0]);
+  }, [planning]);
+
+  const handleDelete = async () => {
+    if (!planning) return;
+    try {
+      setIsDeleting(true);
+      await onDelete(scope, scope === "all" ? planning.startDate : occurrenceDate!);
+      onClose();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={planning !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">Herhalende planning verwijderen</DialogTitle>
+        </DialogHeader>
+        {planning && (
+          <OccurrenceScopeFields
+            planning={planning}
+            scope={scope}
+            onScopeChange={setScope}
+            occurrenceDate={occurrenceDate}
+            onOccurrenceDateChange={setOccurrenceDate}
+          />
+        )}
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isDeleting}>
+            Annuleren
+          </Button>
+          <Button
+            variant="destructive"
+            className="bg-[#963E56] hover:bg-[#963E56]/90"
+            onClick={handleDelete}
+            disabled={isDeleting || (scope !== "all" && !occurrenceDate)}
+          >
+            {isDeleting ? "Bezig met verwijderen..." : "Verwijderen"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Check, ShieldCheck, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { shiftLabel } from "@shared/shifts";
+import { canTakeOver, SWAP_KIND_LABELS, type ShiftSwap, type SwapClaim } from "@shared/swaps";
+import type { Availability } from "@shared/availability";
+import type { PrayerTimeSettings } from "@shared/prayer-times";
+import { claimProblem, offeredPlanning, returnedPlanning } from "@/lib/shift-swaps";
+import { upcomingOccurrences } from "./occurrence-scope-fields";
+import type { Planning } from "./planning-form";
+
+export type StoredSwap = ShiftSwap & { id: string };
+
+type SwapVolunteer = { id: string; firstName: string; lastName: string; availability?: Availability | null };
+
+interface ShiftSwapsProps {
+  swaps: StoredSwap[];
+  plannings: Planning[];
+  volunteers: SwapVolunteer[];
+  rooms: { id: string; name: string }[];
+  prayerTimes: PrayerTimeSettings;
+  canWrite: boolean;
+  canApprove: boolean;
+  onClaim: (swap: StoredSwap, claim: SwapClaim) => Promise<void>;
+  onApprove: (swap: StoredSwap) => Promise<void>;
+  onReject: (swap: StoredSwap) => Promise<void>;
+  onCancel: (swap: StoredSwap) => Promise<void>;
+}
+
+// The shifts volunteers offered and not yet handed over
+export function ShiftSwaps({
+  swaps,
+  plannings,
+  volunteers,
+  rooms,
+  prayerTimes,
+  canWrite,
+  canApprove,
+  onClaim,
+  onApprove,
+  onReject,
+  onCancel,
+}: ShiftSwapsProps) {
+  const [claiming, setClaiming] = useState<StoredSwap | null>(null);
+  const pending = swaps
+    .filter(swap => swap.status === "open" || swap.status === "claimed")
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (pending.length === 0) return null;
+
+  const volunteerName = (id: string) => {
+    const volunteer = volunteers.find(v => v.id === id);
+    return volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : "Onbekende vrijwilliger";
+  };
+
+  const describeShift = (planning: Planning | undefined, date: string) => {
+    const day = format(parseISO(date), "EEEE d MMMM", { locale: nl });
+    if (!planning) return day;
+    const room = rooms.find(r => r.id === planning.roomId)?.name ?? "Onbekende ruimte";
+    const time = shiftLabel(planning, parseISO(date), prayerTimes);
+    return `${room}, ${day}${time ? ` (${time})` : ""}`;
+  };
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <ArrowLeftRight className="h-5 w-5 text-[#963E56]" />
+        <h2 className="text-lg font-semibold text-[#963E56]">Aangeboden diensten</h2>
+      </div>
+      <div className="space-y-3">
+        {pending.map(swap => {
+          const offered = offeredPlanning(swap, plannings);
+          const claim = swap.claim;
+          const returned = claim && swap.kind === "swap" ? returnedPlanning(swap, claim, plannings) : undefined;
+          const problem = claim
+            ? claimProblem(swap, claim, plannings, volunteers, prayerTimes)
+            : offered ? null : "De aangeboden planning is intussen gewijzigd";
+
+          return (
+            <div key={swap.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg bg-background">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{volunteerName(swap.volunteerId)}</span>
+                  <span className="rounded-full bg-[#963E56]/10 px-2 py-0.5 text-xs text-[#963E56]">
+                    {SWAP_KIND_LABELS[swap.kind]}
+                  </span>
+                  {offered?.isResponsible && <ShieldCheck className="h-4 w-4 text-[#963E56]" />}
+                </div>
+                <div className="text-muted-foreground">{describeShift(offered, swap.date)}</div>
+                {swap.note && <div className="text-muted-foreground italic">{swap.note}</div>}
+                {claim && (
+                  <div>
+                    {volunteerName(claim.volunteerId)} neemt over
+                    {claim.date && ` in ruil voor ${describeShift(returned, claim.date)}`}
+                    {!problem && " · wacht op goedkeuring"}
+                  </div>
+                )}
+                {problem && <div className="text-red-700">{problem}</div>}
+              </div>
+
+              {canWrite && (
+                <div className="flex flex-wrap justify-end gap-2">
+                  {swap.status === "open" && offered && (
+                    <Button size="sm" className="bg-[#963E56] hover:bg-[#963E56]/90" onClick={() => setClaiming(swap)}>
+                      Overnemen
+                    </Button>
+                  )}
+                  {swap.status === "claimed" && canApprove && (
+                    <>
+                      <Button
+                        size="sm"
+                        className="bg-[#963E56] hover:bg-[#963E56]/90"
+                        disabled={!!problem}
+                        onClick={() => onApprove(swap)}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Goedkeuren
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => onReject(swap)}>
+                        Afwijzen
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onCancel(swap)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Intrekken
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ClaimSwapDialog
+        swap={claiming}
+        plannings={plannings}
+        volunteers={volunteers}
+        prayerTimes={prayerTimes}
+        describeShift={describeShift}
+        onClose={() => setClaiming(null)}
+        onClaim={onClaim}
+      />
+    </div>
+  );
+}
+
+interface ClaimSwapDialogProps {
+  swap: StoredSwap | null;
+  plannings: Planning[];
+  volunteers: SwapVolunteer[];
+  prayerTimes: PrayerTimeSettings;
+  describeShift: (planning: Planning | undefined, date: string) => string;
+  onClose: () => void;
+  // Rejects after telling the user what went wrong
+  onClaim: (swap: StoredSwap, claim: SwapClaim) => Promise<void>;
+}
+
+const NO_SHIFT = "";
+
+// Picks who takes the shift over and, for a swap, what they give in return.
+// Only volunteers who are free then are listed.
+function ClaimSwapDialog({ swap, plannings, volunteers, prayerTimes, describeShift, onClose, onClaim }: ClaimSwapDialogProps) {
+  const [volunteerId, setVolunteerId] = useState<string | undefined>();
+  const [returned, setReturned] = useState(NO_SHIFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setVolunteerId(undefined);
+    setReturned(NO_SHIFT);
+  }, [swap]);
+
+  const offered = swap ? offeredPlanning(swap, plannings) : undefined;
+  const candidates = useMemo(() => {
+    if (!swap || !offered) return [];
+    return volunteers.filter(volunteer =>
+      swap.kind === "swap"
+        ? volunteer.id !== swap.volunteerId
+        : canTakeOver(volunteer, offered, swap.date, plannings, prayerTimes)
+    );
+  }, [swap, offered, volunteers, plannings, prayerTimes]);
+
+  // The claimant's coming days the volunteer who offered can take in return
+  const returnOptions = useMemo(() => {
+    if (!swap || swap.kind !== "swap" || !volunteerId) return [];
+    return plannings
+      .filter(planning => planning.volunteerId === volunteerId)
+      .flatMap(planning => upcomingOccurrences(planning).map(date => ({ planning, date })))
+      .filter(({ planning, date }) => !claimProblem(
+        swap,
+        { volunteerId, planningId: planning.id, date, claimedAt: "" },
+        plannings,
+        volunteers,
+        prayerTimes,
+      ))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [swap, volunteerId, plannings, volunteers, prayerTimes]);
+
+  const handleClaim = async () => {
+    if (!swap || !volunteerId) return;
+    const [planningId, date] = returned.split("|");
+    try {
+      setIsSaving(true);
+      await onClaim(swap, {
+        volunteerId,
+        ...(swap.kind === "swap" ? { planningId, date } : {}),
+        claimedAt: new Date().toISOString(),
+      });
+      onClose();
+    } catch {
+      // The page has told the user; the dialog stays open to try again
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={swap !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#963E56]">Dienst overnemen</DialogTitle>
+        </DialogHeader>
+        {swap && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{describeShift(offered, swap.date)}</p>
+
+            <div className="space-y-1">
+              <Label className="text-sm">Wie neemt over</Label>
+              <Select
+                value={volunteerId}
+                onValueChange={(value) => {
+                  setVolunteerId(value);
+                  setReturned(NO_SHIFT);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Kies een vrijwilliger" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(volunteer => (
+                    <SelectItem key={volunteer.id} value={volunteer.id}>
+                      {volunteer.firstName} {volunteer.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {candidates.length === 0 && (
+                <p className="text-xs text-muted-foreground">Er is niemand vrij op deze dag</p>
+              )}
+            </div>
+
+            {swap.kind === "swap" && volunteerId && (
+              <div className="space-y-1">
+                <Label className="text-sm">In ruil voor</Label>
+                <Select value={returned} onValueChange={setReturned}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Kies een dienst" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {returnOptions.map(({ planning, date }) => (
+                      <SelectItem key={`${planning.id}|${date}`} value={`${planning.id}|${date}`}>
+                        {describeShift(planning, date)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {returnOptions.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Deze vrijwilliger heeft geen dienst om te ruilen</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Annuleren
+          </Button>
+          <Button
+            className="bg-[#963E56] hover:bg-[#963E56]/90"
+            onClick={handleClaim}
+            disabled={isSaving || !volunteerId || (swap?.kind === "swap" && !returned)}
+          >
+            {isSaving ? "Opslaan..." : "Overnemen"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
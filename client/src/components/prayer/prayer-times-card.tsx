@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import { Clock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  CALCULATION_METHOD_PARAMS,
+  PRAYER_TIME_LABELS,
+  PRAYER_TIME_NAMES,
+  getNextPrayer,
+  getPrayerTimes,
+  type PrayerTimeSettings,
+} from "@shared/prayer-times";
+
+interface PrayerTimesCardProps {
+  settings: PrayerTimeSettings;
+}
+
+// Today's times at the mosque, with the next prayer highlighted
+export function PrayerTimesCard({ settings }: PrayerTimesCardProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const today = now.toDateString();
+  const times = useMemo(() => getPrayerTimes(now, settings), [today, settings]);
+  const next = getNextPrayer(now, settings);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-[#963E56]">
+          <span className="flex items-center gap-2 text-base sm:text-lg">
+            <Clock className="h-5 w-5" />
+            Gebedstijden {format(now, "EEEE d MMMM", { locale: nl })}
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {CALCULATION_METHOD_PARAMS[settings.method].label}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {PRAYER_TIME_NAMES.map((name) => {
+            const time = times[name];
+            const isNext = next?.prayer === name && time?.getTime() === next.time.getTime();
+            return (
+              <div
+                key={name}
+                className={cn(
+                  "rounded-lg border p-2 text-center",
+                  isNext ? "border-[#963E56] bg-[#963E56]/10" : "bg-background",
+                  name === "sunrise" && "text-muted-foreground",
+                )}
+              >
+                <div className="text-xs sm:text-sm font-medium">{PRAYER_TIME_LABELS[name]}</div>
+                <div className={cn("text-lg sm:text-xl font-bold", isNext && "text-[#963E56]")}>
+                  {time ? format(time, "HH:mm") : "–"}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
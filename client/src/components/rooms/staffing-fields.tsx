@@ -0,0 +1,234 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Trash2, Users } from "lucide-react";
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import { PRAYERS, PRAYER_LABELS } from "@shared/prayer-times";
+import { WEEKDAY_KEYS, WEEKDAY_LABELS, WEEKDAY_ORDER, type WeekdayKey } from "@shared/recurrence";
+import type { RoomStaffing, StaffingEvent } from "@shared/staffing";
+
+const headcountField = z.coerce.number().int().min(0, "Minimaal 0").max(99, "Maximaal 99");
+
+// A weekday without volunteers and without a responsible has no requirement
+export const staffingFormSchema = z.object({
+  weekdays: z.record(z.enum(WEEKDAY_KEYS), z.object({
+    headcount: headcountField,
+    responsible: z.boolean(),
+  })),
+  events: z.array(z.object({
+    date: z.string().min(1, "Kies een datum"),
+    label: z.string().max(64, "Maximaal 64 tekens").optional(),
+    prayer: z.enum(PRAYERS).optional(),
+    headcount: headcountField,
+    responsible: z.boolean(),
+  })),
+});
+
+export type StaffingFormData = z.infer<typeof staffingFormSchema>;
+
+export function staffingFormValues(staffing?: RoomStaffing | null): StaffingFormData {
+  return {
+    weekdays: Object.fromEntries(WEEKDAY_KEYS.map((key) => [
+      key,
+      staffing?.weekdays?.[key] ?? { headcount: 0, responsible: false },
+    ])),
+    events: (staffing?.events ?? []).map((event) => ({ ...event, label: event.label ?? "" })),
+  };
+}
+
+// Only what is required is stored; null when the room has no requirements
+export function toStaffing(data: StaffingFormData): RoomStaffing | null {
+  const weekdays = Object.fromEntries(
+    Object.entries(data.weekdays).filter(([, day]) => day && (day.headcount > 0 || day.responsible)),
+  ) as RoomStaffing["weekdays"];
+  const events = data.events.map(({ label, prayer, ...event }): StaffingEvent => ({
+    ...event,
+    ...(label?.trim() ? { label: label.trim() } : {}),
+    ...(prayer ? { prayer } : {}),
+  }));
+
+  const hasWeekdays = Object.keys(weekdays ?? {}).length > 0;
+  if (!hasWeekdays && events.length === 0) return null;
+  return {
+    ...(hasWeekdays ? { weekdays } : {}),
+    ...(events.length > 0 ? { events } : {}),
+  };
+}
+
+interface StaffingFieldsProps {
+  form: UseFormReturn<any>;
+}
+
+// How many volunteers the room needs per weekday, and on particular dates
+export function StaffingFields({ form }: StaffingFieldsProps) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "staffing.events" });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3 shadow-sm">
+      <div className="flex items-center gap-2">
+        <FormLabel>Bezetting</FormLabel>
+        <div className="bg-[#963E56]/10 rounded-full p-1">
+          <Users className="h-4 w-4 text-[#963E56]" />
+        </div>
+      </div>
+      <FormDescription>
+        Aantal vrijwilligers per dag en of er een verantwoordelijke bij moet zijn.
+      </FormDescription>
+
+      <div className="space-y-2">
+        {WEEKDAY_ORDER.map((weekday) => {
+          const key: WeekdayKey = WEEKDAY_KEYS[weekday];
+          return (
+            <div key={key} className="grid grid-cols-[6rem_5rem_1fr] items-center gap-3">
+              <span className="text-sm">{WEEKDAY_LABELS[weekday]}</span>
+              <FormField
+                control={form.control}
+                name={`staffing.weekdays.${key}.headcount`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={0} max={99} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`staffing.weekdays.${key}.responsible`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        className="data-[state=checked]:bg-[#963E56]"
+                      />
+                    </FormControl>
+                    <FormLabel className="text-sm font-normal">Verantwoordelijke</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3 border-t pt-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Evenementen</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ date: "", label: "", prayer: undefined, headcount: 1, responsible: false })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Toevoegen
+          </Button>
+        </div>
+        {fields.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Een evenement vervangt de bezetting van die weekdag, bijvoorbeeld voor het Eid-gebed.
+          </p>
+        )}
+        {fields.map((item, index) => (
+          <div key={item.id} className="space-y-2 rounded-md border p-2">
+            <div className="grid grid-cols-2 gap-2">
+              <FormField
+                control={form.control}
+                name={`staffing.events.${index}.date`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`staffing.events.${index}.label`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Naam, bijv. Eid al-Fitr" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_5rem_auto_auto] items-center gap-2">
+              <FormField
+                control={form.control}
+                name={`staffing.events.${index}.prayer`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Hele dag</SelectItem>
+                        {PRAYERS.map((prayer) => (
+                          <SelectItem key={prayer} value={prayer}>
+                            {PRAYER_LABELS[prayer]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`staffing.events.${index}.headcount`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={0} max={99} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`staffing.events.${index}.responsible`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        className="data-[state=checked]:bg-[#963E56]"
+                      />
+                    </FormControl>
+                    <FormLabel className="text-xs font-normal">Verantw.</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { cn } from "@/lib/utils";
+import { WEEKDAY_KEYS, WEEKDAY_LABELS, WEEKDAY_ORDER } from "@shared/recurrence";
+import type { Availability } from "@shared/availability";
+
+const availabilityFormSchema = z.object({
+  weekdays: z.array(z.enum(WEEKDAY_KEYS)).min(1, "Kies ten minste één dag"),
+  absences: z.array(z
+    .object({
+      from: z.string().min(1, "Kies een datum"),
+      to: z.string().min(1, "Kies een datum"),
+      reason: z.string().max(64, "Maximaal 64 tekens").optional(),
+    })
+    .refine(absence => !absence.from || !absence.to || absence.to >= absence.from, {
+      message: "Ligt voor de begindatum",
+      path: ["to"],
+    })),
+});
+
+type AvailabilityFormData = z.infer<typeof availabilityFormSchema>;
+
+function availabilityFormValues(availability?: Availability | null): AvailabilityFormData {
+  return {
+    weekdays: availability?.weekdays ?? [...WEEKDAY_KEYS],
+    absences: (availability?.absences ?? []).map(absence => ({ ...absence, reason: absence.reason ?? "" })),
+  };
+}
+
+// Only what limits the volunteer is stored; null when they can come any day
+function toAvailability(data: AvailabilityFormData): Availability | null {
+  const weekdays = data.weekdays.length < WEEKDAY_KEYS.length
+    ? WEEKDAY_KEYS.filter(key => data.weekdays.includes(key))
+    : undefined;
+  const absences = [...data.absences]
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .map(({ reason, ...absence }) => (reason?.trim() ? { ...absence, reason: reason.trim() } : absence));
+
+  if (!weekdays && absences.length === 0) return null;
+  return {
+    ...(weekdays ? { weekdays } : {}),
+    ...(absences.length > 0 ? { absences } : {}),
+  };
+}
+
+interface AvailabilityDialogProps {
+  volunteer: { id: string; firstName: string; lastName: string; availability?: Availability | null } | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (availability: Availability | null) => Promise<void>;
+}
+
+// The weekdays a volunteer can come and the periods they are away
+export function AvailabilityDialog({ volunteer, onOpenChange, onSave }: AvailabilityDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const form = useForm<AvailabilityFormData>({
+    resolver: zodResolver(availabilityFormSchema),
+    defaultValues: availabilityFormValues(),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "absences" });
+
+  useEffect(() => {
+    if (volunteer) form.reset(availabilityFormValues(volunteer.availability));
+  }, [volunteer]);
+
+  const handleSubmit = async (data: AvailabilityFormData) => {
+    try {
+      setIsSaving(true);
+      await onSave(toAvailability(data));
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!volunteer} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-[#963E56]">
+            Beschikbaarheid {volunteer && `van ${volunteer.firstName} ${volunteer.lastName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="weekdays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">Kan komen op</FormLabel>
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_ORDER.map((weekday) => {
+                      const key = WEEKDAY_KEYS[weekday];
+                      const selected = field.value.includes(key);
+                      return (
+                        <Button
+                          key={key}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className={cn(
+                            "w-11",
+                            selected && "bg-[#963E56] text-white border-[#963E56] hover:bg-[#963E56]/90 hover:text-white"
+                          )}
+                          onClick={() => field.onChange(
+                            selected ? field.value.filter(day => day !== key) : [...field.value, key]
+                          )}
+                        >
+                          {WEEKDAY_LABELS[weekday].slice(0, 2).toLowerCase()}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3 rounded-lg border p-3 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <FormLabel>Afwezig</FormLabel>
+                  <div className="bg-[#963E56]/10 rounded-full p-1">
+                    <CalendarOff className="h-4 w-4 text-[#963E56]" />
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ from: "", to: "", reason: "" })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Toevoegen
+                </Button>
+              </div>
+              {fields.length === 0 && (
+                <FormDescription>
+                  Bijvoorbeeld een vakantie of examens. De vrijwilliger wordt dan niet voorgesteld.
+                </FormDescription>
+              )}
+              {fields.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-[1fr_1fr_auto] items-start gap-2 rounded-md border p-2">
+                  <FormField
+                    control={form.control}
+                    name={`absences.${index}.from`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`absences.${index}.to`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="date" min={form.watch(`absences.${index}.from`)} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <FormField
+                    control={form.control}
+                    name={`absences.${index}.reason`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormControl>
+                          <Input placeholder="Reden, bijv. vakantie" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Annuleren
+              </Button>
+              <Button type="submit" className="bg-[#963E56] hover:bg-[#963E56]/90" disabled={isSaving}>
+                {isSaving ? "Opslaan..." : "Opslaan"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
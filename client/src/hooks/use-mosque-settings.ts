@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { ref, onValue } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import {
+  DEFAULT_PRAYER_TIME_SETTINGS,
+  prayerTimeSettingsSchema,
+  type PrayerTimeSettings,
+} from '@shared/prayer-times';
+
+export type MosqueInfo = {
+  menAddress: string;
+  menCity: string;
+  womenAddress: string;
+  womenCity: string;
+  phone: string;
+  email: string;
+};
+
+export const DEFAULT_MOSQUE_INFO: MosqueInfo = {
+  menAddress: "Sint-Bernardsesteenweg 289",
+  menCity: "2660 Hoboken",
+  womenAddress: "Polostraat 59",
+  womenCity: "2660 Hoboken",
+  phone: "032940611",
+  email: "info@mefen.be",
+};
+
+// The `mosque` record in Firebase, edited on the Mijn Moskee page. Until it is
+// saved for the first time the defaults for the mosque in Hoboken apply.
+export function useMosqueSettings() {
+  const [info, setInfo] = useState<MosqueInfo>(DEFAULT_MOSQUE_INFO);
+  const [prayerTimes, setPrayerTimes] = useState<PrayerTimeSettings>(DEFAULT_PRAYER_TIME_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const mosqueRef = ref(db, 'mosque');
+    const unsubscribe = onValue(mosqueRef, (snapshot) => {
+      const data = snapshot.val() || {};
+      setInfo({ ...DEFAULT_MOSQUE_INFO, ...data.info });
+      // An incomplete or outdated record falls back to the defaults rather
+      // than producing wrong times
+      const parsed = prayerTimeSettingsSchema.safeParse({ ...DEFAULT_PRAYER_TIME_SETTINGS, ...data.prayerTimes });
+      setPrayerTimes(parsed.success ? parsed.data : DEFAULT_PRAYER_TIME_SETTINGS);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error loading mosque settings:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  return { info, prayerTimes, loading };
+}
@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from '@/lib/firebase';
-import { UserRole, getUserRole } from '@/lib/roles';
+import { UserRole, Permission, getUserRole, hasPermission } from '@/lib/roles';
 
 export function useRole() {
   const [user] = useAuthState(auth);
@@ -16,6 +16,8 @@ export function useRole() {
         return;
       }
 
+      // Keep route guards waiting while the role of a new user is fetched
+      setLoading(true);
       try {
         const userRole = await getUserRole(user);
         setRole(userRole);
@@ -30,5 +32,7 @@ export function useRole() {
     fetchRole();
   }, [user]);
 
-  return { role, isAdmin: role === 'admin', isMedewerker: role === 'medewerker', loading };
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { role, can, isAdmin: role === 'admin', isMedewerker: role === 'medewerker', loading };
 }
@@ -1,21 +1,30 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ServerToClientEvents } from '@shared/sufuf';
+
+export type SufufSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface SocketContextType {
-  socket: Socket | null;
+  socket: SufufSocket | null;
   connected: boolean;
+  // Reconnects so the server picks up a session that was opened or closed
+  reconnect: () => void;
 }
 
-const SocketContext = createContext<SocketContextType>({ socket: null, connected: false });
+const SocketContext = createContext<SocketContextType>({ socket: null, connected: false, reconnect: () => {} });
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<SufufSocket | null>(null);
   const [connected, setConnected] = useState(false);
+  // Read by reconnect, which callers may hold on to from before the socket existed
+  const socketRef = useRef<SufufSocket | null>(null);
 
   useEffect(() => {
-    const socketIo = io('https://sufuf-socketio-server.onrender.com', {
+    // Served by the Express app itself unless VITE_SOCKET_URL points elsewhere
+    const socketIo: SufufSocket = io(import.meta.env.VITE_SOCKET_URL || window.location.origin, {
       transports: ['websocket'],
-      autoConnect: true
+      autoConnect: true,
+      withCredentials: true
     });
 
     socketIo.on('connect', () => {
@@ -28,6 +37,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       setConnected(false);
     });
 
+    socketRef.current = socketIo;
     setSocket(socketIo);
 
     return () => {
@@ -35,8 +45,12 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const reconnect = useCallback(() => {
+    socketRef.current?.disconnect().connect();
+  }, []);
+
   return (
-    <SocketContext.Provider value={{ socket, connected }}>
+    <SocketContext.Provider value={{ socket, connected, reconnect }}>
       {children}
     </SocketContext.Provider>
   );
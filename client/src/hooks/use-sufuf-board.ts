@@ -0,0 +1,76 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ref, onValue } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { useSocket } from '@/hooks/use-socket';
+import type { AreaStatus, StatusUpdatedPayload, SufufStatus } from '@shared/sufuf';
+
+// A room taking part in Sufuf, with its last report from the server
+export type SufufRoom = {
+  id: string;
+  title: string;
+  order: number;
+  status: SufufStatus;
+  report?: AreaStatus;
+};
+
+// Sufuf fields of a record in the rooms collection, managed on the Rooms page
+type SufufArea = Omit<SufufRoom, 'status' | 'report'>;
+
+// The Sufuf areas from Firebase combined with the live board from the socket
+export function useSufufBoard() {
+  const { socket } = useSocket();
+  const [areas, setAreas] = useState<SufufArea[]>([]);
+  const [areasLoaded, setAreasLoaded] = useState(false);
+  const [board, setBoard] = useState<Record<string, AreaStatus>>({});
+
+  useEffect(() => {
+    const roomsRef = ref(db, 'rooms');
+    const unsubscribe = onValue(roomsRef, (snapshot) => {
+      const data = snapshot.val() || {};
+      const areasList = Object.entries(data)
+        .filter(([, room]: [string, any]) => room.sufuf === true)
+        .map(([id, room]: [string, any]) => ({
+          id,
+          title: room.imamLabel || room.name,
+          order: typeof room.sufufOrder === 'number' ? room.sufufOrder : 0,
+        }))
+        .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title));
+      setAreas(areasList);
+      setAreasLoaded(true);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Sent again on every reconnect, so this replaces whatever was missed
+    const handleInitialStatus = (data: Record<string, AreaStatus>) => {
+      setBoard(data);
+    };
+
+    const handleStatusUpdated = (data: StatusUpdatedPayload) => {
+      setBoard(prev => {
+        const { [data.room]: _previous, ...rest } = prev;
+        return data.report ? { ...rest, [data.room]: data.report } : rest;
+      });
+    };
+
+    socket.on('initialStatus', handleInitialStatus);
+    socket.on('statusUpdated', handleStatusUpdated);
+
+    return () => {
+      socket.off('initialStatus', handleInitialStatus);
+      socket.off('statusUpdated', handleStatusUpdated);
+    };
+  }, [socket]);
+
+  const rooms: SufufRoom[] = useMemo(() => areas.map((area) => ({
+    ...area,
+    status: board[area.id]?.status ?? 'grey',
+    report: board[area.id],
+  })), [areas, board]);
+
+  return { rooms, board, areasLoaded };
+}
@@ -57,6 +57,20 @@ export const UserActionTypes = {
   PLANNING_VIEW: "Planning bekeken",
   PLANNING_EDIT_START: "Planning bewerken gestart",
   PLANNING_EDIT_CANCEL: "Planning bewerken geannuleerd",
+  PLANNING_CONFLICT_OVERRIDE: "Dubbele planning toegestaan",
+  PLANNING_ROSTER_GENERATE: "Rooster gegenereerd",
+  PLANNING_SWAP_OFFER: "Dienst aangeboden",
+  PLANNING_SWAP_CLAIM: "Aangeboden dienst overgenomen",
+  PLANNING_SWAP_APPROVE: "Overname dienst goedgekeurd",
+  PLANNING_SWAP_REJECT: "Overname dienst afgewezen",
+  PLANNING_SWAP_CANCEL: "Aangeboden dienst ingetrokken",
+  PLANNING_TEMPLATE_SAVE: "Planningssjabloon opgeslagen",
+  PLANNING_TEMPLATE_DELETE: "Planningssjabloon verwijderd",
+  PLANNING_TEMPLATE_APPLY: "Planningssjabloon toegepast",
+  OPEN_SHIFT_PUBLISH: "Open dienst gepubliceerd",
+  OPEN_SHIFT_CLOSE: "Open dienst gesloten",
+  OPEN_SHIFT_DELETE: "Open dienst verwijderd",
+  OPEN_SHIFT_RELEASE: "Plaats in open dienst vrijgegeven",
 
   // Room related actions
   ROOM_CREATE: "Ruimte toegevoegd",
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { editUpdates, signUpFailure } from './open-shifts';
+import type { OpenShift } from '@shared/open-shifts';
+import type { PlanningRecord } from './planning-series';
+
+const today = '2024-01-01';
+
+const shift = (overrides: Partial<OpenShift> = {}): OpenShift => ({
+  roomId: 'r1',
+  date: '2024-01-05',
+  createdAt: '2023-12-20T10:00:00.000Z',
+  places: { p1: { open: true }, p2: { open: true } },
+  ...overrides,
+});
+
+const link = { volunteerId: 'v1' };
+
+test('a refused sign-up is explained from the shift and link as they are now', () => {
+  assert.match(signUpFailure(shift(), 'p1', 'v1', null, today), /link is niet meer geldig/);
+  assert.match(signUpFailure(shift(), 'p1', 'v1', { volunteerId: 'v2' }, today), /link is niet meer geldig/);
+  assert.equal(
+    signUpFailure(shift({ volunteerPlaces: { v1: 'p2' } }), 'p1', 'v1', link, today),
+    'Je bent al ingeschreven voor deze dienst',
+  );
+  assert.equal(
+    signUpFailure(shift({ closed: true }), 'p1', 'v1', link, today),
+    'Deze dienst neemt geen inschrijvingen meer aan',
+  );
+  assert.equal(
+    signUpFailure(shift({ places: { p1: { volunteerId: 'v2' }, p2: { open: true } } }), 'p1', 'v1', link, today),
+    'Deze plaats werd net ingenomen, probeer het opnieuw',
+  );
+});
+
+const record = (volunteerId: string): PlanningRecord => ({
+  volunteerId,
+  roomId: 'r1',
+  startDate: '2024-01-05',
+  endDate: '2024-01-05',
+  isResponsible: false,
+  startTime: '10:00',
+  endTime: '12:00',
+  prayer: null,
+  recurrence: null,
+});
+
+const planning = { id: 'pl1', volunteerId: 'v1', openShiftId: 's1', openShiftPlace: 'p1' };
+
+test('an edited open shift planning keeps its place', () => {
+  assert.deepEqual(editUpdates(planning, record('v1'), true), {
+    'plannings/pl1': { ...record('v1'), openShiftId: 's1', openShiftPlace: 'p1' },
+  });
+});
+
+test('the place goes with the planning to another volunteer', () => {
+  const updates = editUpdates(planning, record('v2'), true);
+  assert.equal(updates['open_shifts/s1/places/p1/volunteerId'], 'v2');
+  assert.equal(updates['open_shifts/s1/volunteerPlaces/v1'], null);
+  assert.equal(updates['open_shifts/s1/volunteerPlaces/v2'], 'p1');
+  assert.deepEqual(Object.keys(editUpdates(planning, record('v2'), false)), ['plannings/pl1']);
+});
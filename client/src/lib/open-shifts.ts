@@ -0,0 +1,136 @@
+import { findConflicts, type ConflictPlanning } from '@shared/conflicts';
+import { acceptsSignUps, signedUp, type OpenShift } from '@shared/open-shifts';
+import type { PrayerTimeSettings } from '@shared/prayer-times';
+import type { PlanningRecord } from './planning-series';
+import type { SignUpLink } from './sign-up-links';
+
+// A planning made by signing up for an open shift remembers the place it
+// took; the database rules check it against the shift
+export type OpenShiftPlanningRecord = PlanningRecord & {
+  openShiftId: string;
+  openShiftPlace: string;
+};
+
+/**
+ * The multi-location update that gives `place` to the volunteer and plans
+ * them for the shift, in one write so that a place never exists without its
+ * planning. `token` is the volunteer's sign-up link; it goes to the private
+ * `open_shift_claims` as proof that the volunteer signed up themselves.
+ */
+export function signUpUpdates(
+  shiftId: string,
+  shift: OpenShift,
+  place: string,
+  volunteerId: string,
+  planningId: string,
+  token: string,
+): Record<string, unknown> {
+  const planning: OpenShiftPlanningRecord = {
+    volunteerId,
+    roomId: shift.roomId,
+    startDate: shift.date,
+    endDate: shift.date,
+    isResponsible: false,
+    startTime: shift.startTime ?? null,
+    endTime: shift.endTime ?? null,
+    prayer: shift.prayer ?? null,
+    recurrence: null,
+    openShiftId: shiftId,
+    openShiftPlace: place,
+  };
+  return {
+    [`plannings/${planningId}`]: planning,
+    [`open_shifts/${shiftId}/places/${place}`]: {
+      volunteerId,
+      planningId,
+      claimedAt: new Date().toISOString(),
+    },
+    [`open_shifts/${shiftId}/volunteerPlaces/${volunteerId}`]: place,
+    [`open_shift_claims/${planningId}`]: { volunteerId, token },
+  };
+}
+
+/**
+ * Why the volunteer cannot sign up for the shift, or null. Their availability
+ * is not checked: it stays private in `volunteers`, out of reach of the
+ * sign-up page, and the coordinator sees it when reviewing the plannings.
+ */
+export function signUpProblem(
+  shift: OpenShift,
+  volunteer: { id: string },
+  plannings: ConflictPlanning[],
+  settings: PrayerTimeSettings,
+): string | null {
+  if (signedUp(shift).some(place => place.volunteerId === volunteer.id)) {
+    return 'Je bent al ingeschreven voor deze dienst';
+  }
+  const candidate = {
+    volunteerId: volunteer.id,
+    roomId: shift.roomId,
+    startDate: shift.date,
+    endDate: shift.date,
+    startTime: shift.startTime,
+    endTime: shift.endTime,
+    prayer: shift.prayer,
+    recurrence: null,
+  };
+  return findConflicts(candidate, plannings, settings).length > 0
+    ? 'Je bent op dat moment al ingepland'
+    : null;
+}
+
+/** Frees a place again and removes the planning it created. */
+export function releaseUpdates(
+  shiftId: string,
+  place: string,
+  planningId?: string,
+  volunteerId?: string,
+): Record<string, unknown> {
+  return {
+    [`open_shifts/${shiftId}/places/${place}`]: { open: true },
+    ...(volunteerId ? { [`open_shifts/${shiftId}/volunteerPlaces/${volunteerId}`]: null } : {}),
+    ...(planningId ? { [`plannings/${planningId}`]: null, [`open_shift_claims/${planningId}`]: null } : {}),
+  };
+}
+
+/**
+ * Why the database refused a sign-up, judged from the shift and the link as
+ * they are now: the rules only answer that permission was denied.
+ */
+export function signUpFailure(
+  shift: OpenShift | null,
+  place: string,
+  volunteerId: string,
+  link: SignUpLink | null,
+  today: string,
+): string {
+  if (link?.volunteerId !== volunteerId) {
+    return 'Je link is niet meer geldig. Vraag de coördinator om een nieuwe link.';
+  }
+  if (shift?.volunteerPlaces?.[volunteerId]) return 'Je bent al ingeschreven voor deze dienst';
+  if (!shift || !acceptsSignUps(shift, today)) return 'Deze dienst neemt geen inschrijvingen meer aan';
+  if (!shift.places[place]?.open) return 'Deze plaats werd net ingenomen, probeer het opnieuw';
+  return 'Er is een fout opgetreden bij het inschrijven';
+}
+
+/**
+ * Saves an edited planning that took a place in an open shift: it keeps its
+ * place, and when it goes to another volunteer the place goes with it. Only
+ * the planning is written once the shift itself is gone.
+ */
+export function editUpdates(
+  planning: { id: string; volunteerId: string; openShiftId: string; openShiftPlace: string },
+  record: PlanningRecord,
+  shiftExists: boolean,
+): Record<string, unknown> {
+  const { id, volunteerId, openShiftId, openShiftPlace } = planning;
+  const updates: Record<string, unknown> = {
+    [`plannings/${id}`]: { ...record, openShiftId, openShiftPlace } satisfies OpenShiftPlanningRecord,
+  };
+  if (shiftExists && record.volunteerId !== volunteerId) {
+    updates[`open_shifts/${openShiftId}/places/${openShiftPlace}/volunteerId`] = record.volunteerId;
+    updates[`open_shifts/${openShiftId}/volunteerPlaces/${volunteerId}`] = null;
+    updates[`open_shifts/${openShiftId}/volunteerPlaces/${record.volunteerId}`] = openShiftPlace;
+  }
+  return updates;
+}
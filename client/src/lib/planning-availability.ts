@@ -0,0 +1,24 @@
+import { firstUnavailableDay, type Availability, type Unavailability } from '@shared/availability';
+import type { PlanningFormData } from '@/components/planning/planning-form';
+import { plannedDays } from './planning-conflicts';
+
+export interface VolunteerUnavailability {
+  volunteerId: string;
+  // The first planned day the volunteer cannot serve on
+  date: string;
+  reason: Unavailability;
+}
+
+/** The volunteers who cannot serve on one or more of the days the form would plan. */
+export function formUnavailability(
+  data: PlanningFormData,
+  volunteers: { id: string; availability?: Availability | null }[],
+): VolunteerUnavailability[] {
+  const days = plannedDays(data);
+  if (!days) return [];
+
+  return volunteers.flatMap(volunteer => {
+    const unavailable = firstUnavailableDay(volunteer.availability, days);
+    return unavailable ? [{ volunteerId: volunteer.id, ...unavailable }] : [];
+  });
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { replacedResponsibles } from './planning-conflicts';
+import type { PlanningFormData } from '@/components/planning/planning-form';
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from '@shared/prayer-times';
+
+const form = (overrides: Partial<PlanningFormData> = {}) => ({
+  isBulkPlanning: false,
+  volunteerId: 'v1',
+  roomId: 'r1',
+  isResponsible: true,
+  startDate: '2024-01-01',
+  endDate: '2024-01-07',
+  startTime: '09:00',
+  endTime: '12:00',
+  recurring: false,
+  weekdays: [],
+  interval: 1,
+  endType: 'until',
+  until: '',
+  ...overrides,
+}) as PlanningFormData;
+
+const responsible = (id: string, overrides: object = {}) => ({
+  id,
+  volunteerId: 'v2',
+  roomId: 'r1',
+  startDate: '2024-01-03',
+  endDate: '2024-01-03',
+  isResponsible: true,
+  startTime: '10:00',
+  endTime: '11:00',
+  ...overrides,
+});
+
+test('a new responsible only takes over from responsibles of the same room and shift', () => {
+  const plannings = [
+    responsible('overlaps'),
+    responsible('other room', { roomId: 'r2' }),
+    responsible('not responsible', { isResponsible: false }),
+    responsible('afternoon', { startTime: '13:00', endTime: '15:00' }),
+    // Starts before the form's first day but is still planned on it
+    responsible('earlier start', { startDate: '2023-12-30', endDate: '2024-01-02', startTime: null, endTime: null }),
+    responsible('every sunday', {
+      startDate: '2023-12-01',
+      endDate: '2024-02-25',
+      recurrence: { weekdays: [0], interval: 1, until: '2024-02-25' },
+    }),
+    responsible('every tuesday', {
+      startDate: '2023-12-05',
+      endDate: '2024-02-27',
+      recurrence: { weekdays: [2], interval: 1, until: '2024-02-27' },
+    }),
+  ];
+
+  assert.deepEqual(
+    replacedResponsibles(form(), 'r1', undefined, plannings, settings).map(planning => planning.id),
+    ['overlaps', 'earlier start', 'every sunday', 'every tuesday'],
+  );
+  assert.deepEqual(
+    replacedResponsibles(form({ startDate: '2024-01-02', endDate: '2024-01-02' }), 'r1', 'earlier start', plannings, settings)
+      .map(planning => planning.id),
+    ['every tuesday'],
+  );
+});
@@ -0,0 +1,99 @@
+import { findConflicts, overlappingDays, type ConflictPlanning, type PlanningConflict } from '@shared/conflicts';
+import { lastOccurrence, recurrenceSchema } from '@shared/recurrence';
+import type { PrayerTimeSettings } from '@shared/prayer-times';
+import type { PlanningFormData } from '@/components/planning/planning-form';
+import { toRecurrence, type PlanningRecord } from './planning-series';
+
+type PlannedDays = Pick<PlanningRecord, 'startDate' | 'endDate' | 'recurrence'>;
+
+// The form fields formConflicts and formUnavailability read; the form only
+// checks again when one of them changes
+export const CHECKED_FIELDS = [
+  'isBulkPlanning', 'volunteerId', 'roomId', 'selectedVolunteers', 'selectedRoomId',
+  'startDate', 'endDate', 'startTime', 'endTime', 'prayer',
+  'recurring', 'weekdays', 'interval', 'endType', 'until', 'count',
+  'editScope', 'occurrenceDate',
+] as const;
+
+// The days the form would plan: a single occurrence of a series is only that
+// day, and "this and following" starts at the chosen occurrence. Null while
+// the dates are incomplete.
+export function plannedDays(data: PlanningFormData): PlannedDays | null {
+  if (data.editScope === 'this') {
+    if (!data.occurrenceDate) return null;
+    return { startDate: data.occurrenceDate, endDate: data.occurrenceDate, recurrence: null };
+  }
+  if (!data.startDate) return null;
+  if (!data.recurring) {
+    return data.endDate && data.endDate >= data.startDate
+      ? { startDate: data.startDate, endDate: data.endDate, recurrence: null }
+      : null;
+  }
+
+  const recurrence = recurrenceSchema.safeParse(toRecurrence(data));
+  if (!recurrence.success) return null;
+  return {
+    startDate: data.editScope === 'following' && data.occurrenceDate ? data.occurrenceDate : data.startDate,
+    endDate: lastOccurrence(data.startDate, recurrence.data),
+    recurrence: recurrence.data,
+  };
+}
+
+/**
+ * The existing plannings that the plannings in the form would double-book a
+ * volunteer with. The planning being edited is left out, as it is replaced.
+ */
+export function formConflicts<T extends ConflictPlanning & { id: string }>(
+  data: PlanningFormData,
+  editingId: string | undefined,
+  plannings: T[],
+  settings: PrayerTimeSettings,
+): PlanningConflict<T>[] {
+  const days = plannedDays(data);
+  if (!days) return [];
+
+  const assignments = data.isBulkPlanning
+    ? data.selectedVolunteers.map(volunteerId => ({ volunteerId, roomId: data.selectedRoomId }))
+    : [{ volunteerId: data.volunteerId, roomId: data.roomId }];
+  const others = plannings.filter(planning => planning.id !== editingId);
+
+  return assignments
+    .filter(({ volunteerId }) => volunteerId)
+    .flatMap(({ volunteerId, roomId }) => findConflicts({
+      ...days,
+      volunteerId,
+      roomId,
+      startTime: data.startTime || null,
+      endTime: data.endTime || null,
+      prayer: data.prayer ?? null,
+    }, others, settings));
+}
+
+/**
+ * The responsibles of `roomId` that a responsible saved with the form would
+ * take over from: on a day both are planned, in overlapping shifts. The
+ * planning being edited is left out.
+ */
+export function replacedResponsibles<T extends ConflictPlanning & { id: string; isResponsible?: boolean }>(
+  data: PlanningFormData,
+  roomId: string,
+  editingId: string | undefined,
+  plannings: T[],
+  settings: PrayerTimeSettings,
+): T[] {
+  const days = plannedDays(data);
+  if (!days) return [];
+
+  const shift = {
+    ...days,
+    startTime: data.startTime || null,
+    endTime: data.endTime || null,
+    prayer: data.prayer ?? null,
+  };
+  return plannings.filter(planning =>
+    planning.id !== editingId &&
+    planning.roomId === roomId &&
+    planning.isResponsible &&
+    overlappingDays(shift, planning, settings).length > 0
+  );
+}
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reassignUpdates, seriesUpdates, type PlanningRecord } from './planning-series';
+import type { Recurrence } from '@shared/recurrence';
+
+// Ten Mondays from 2024-01-01 to 2024-03-04, skipping 15 January and 12 February
+const recurrence: Recurrence = {
+  weekdays: [1],
+  interval: 1,
+  count: 10,
+  exceptions: { '2024-01-15': true, '2024-02-12': true },
+};
+
+const series = { id: 's1', startDate: '2024-01-01', recurrence };
+
+const record = (overrides: Partial<PlanningRecord> = {}): PlanningRecord => ({
+  volunteerId: 'v2',
+  roomId: 'r1',
+  startDate: '2024-01-01',
+  endDate: '2024-03-04',
+  isResponsible: false,
+  startTime: '09:00',
+  endTime: '12:00',
+  prayer: null,
+  recurrence,
+  ...overrides,
+});
+
+const keys = () => {
+  let next = 0;
+  return () => `new${++next}`;
+};
+
+test('this: the series skips the day and the replacement becomes a one-off planning', () => {
+  const updates = seriesUpdates(series, 'this', '2024-01-29', record(), keys());
+  assert.deepEqual(updates, {
+    'plannings/s1/recurrence/exceptions/2024-01-29': true,
+    'plannings/new1': { ...record(), startDate: '2024-01-29', endDate: '2024-01-29', recurrence: null },
+  });
+});
+
+test('this without a replacement only skips the day', () => {
+  assert.deepEqual(seriesUpdates(series, 'this', '2024-01-29', null, keys()), {
+    'plannings/s1/recurrence/exceptions/2024-01-29': true,
+  });
+});
+
+test('following: the series ends the day before and the rest continues with the remaining count', () => {
+  const updates = seriesUpdates(series, 'following', '2024-01-29', record(), keys());
+  assert.deepEqual(updates['plannings/s1/recurrence'], {
+    weekdays: [1],
+    interval: 1,
+    until: '2024-01-28',
+    exceptions: { '2024-01-15': true },
+  });
+  assert.equal(updates['plannings/s1/endDate'], '2024-01-22');
+  // Four occurrences (one skipped) came before, so six are left and the
+  // series still ends on 4 March
+  assert.deepEqual(updates['plannings/new1'], {
+    ...record(),
+    startDate: '2024-01-29',
+    endDate: '2024-03-04',
+    recurrence: { weekdays: [1], interval: 1, count: 6, exceptions: { '2024-02-12': true } },
+  });
+});
+
+test('following without a replacement only ends the series', () => {
+  const updates = seriesUpdates(series, 'following', '2024-01-29', null, keys());
+  assert.deepEqual(Object.keys(updates).sort(), ['plannings/s1/endDate', 'plannings/s1/recurrence']);
+});
+
+test('following from the first occurrence replaces the whole series', () => {
+  assert.deepEqual(seriesUpdates(series, 'following', '2024-01-01', null, keys()), { 'plannings/s1': null });
+});
+
+test('all replaces or removes the series itself', () => {
+  assert.deepEqual(seriesUpdates(series, 'all', '2024-01-29', record(), keys()), { 'plannings/s1': record() });
+  assert.deepEqual(seriesUpdates(series, 'all', '2024-01-29', null, keys()), { 'plannings/s1': null });
+});
+
+test('reassigning a one-day planning changes its volunteer', () => {
+  const planning = { id: 'p1', ...record({ volunteerId: 'v1', endDate: '2024-01-01', recurrence: null }) };
+  assert.deepEqual(reassignUpdates(planning, '2024-01-01', 'v2', keys()), { 'plannings/p1/volunteerId': 'v2' });
+});
+
+test('reassigning a day of a series skips it in the series', () => {
+  const planning = { id: 's1', ...record({ volunteerId: 'v1', isResponsible: true }) };
+  const updates = reassignUpdates(planning, '2024-01-22', 'v2', keys());
+  assert.equal(updates['plannings/s1/recurrence/exceptions/2024-01-22'], true);
+  assert.deepEqual(updates['plannings/new1'], {
+    ...record({ volunteerId: 'v2', isResponsible: true }),
+    startDate: '2024-01-22',
+    endDate: '2024-01-22',
+    recurrence: null,
+  });
+});
+
+test('reassigning a day in a range of days splits the range around it', () => {
+  const planning = { id: 'p1', ...record({ volunteerId: 'v1', startDate: '2024-01-01', endDate: '2024-01-07', recurrence: null }) };
+  const updates = reassignUpdates(planning, '2024-01-03', 'v2', keys());
+  assert.equal(updates['plannings/p1/endDate'], '2024-01-02');
+  assert.deepEqual(
+    [updates['plannings/new1'], updates['plannings/new2']].map(day => {
+      const { volunteerId, startDate, endDate } = day as PlanningRecord;
+      return { volunteerId, startDate, endDate };
+    }),
+    [
+      { volunteerId: 'v2', startDate: '2024-01-03', endDate: '2024-01-03' },
+      { volunteerId: 'v1', startDate: '2024-01-04', endDate: '2024-01-07' },
+    ],
+  );
+});
+
+test('reassigning the first day of a range moves its start', () => {
+  const planning = { id: 'p1', ...record({ volunteerId: 'v1', endDate: '2024-01-07', recurrence: null }) };
+  const updates = reassignUpdates(planning, '2024-01-01', 'v2', keys());
+  assert.equal(updates['plannings/p1/startDate'], '2024-01-02');
+  assert.equal(Object.keys(updates).length, 2);
+});
@@ -0,0 +1,204 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { lastOccurrence, occurrencesBefore, type Recurrence } from '@shared/recurrence';
+import type { Prayer } from '@shared/prayer-times';
+import type { ShiftTiming } from '@shared/shifts';
+import type { PlanningFormData } from '@/components/planning/planning-form';
+
+// A planning as stored under `plannings` in Firebase
+export type PlanningRecord = {
+  volunteerId: string;
+  roomId: string;
+  startDate: string;
+  endDate: string;
+  isResponsible: boolean;
+  startTime: string | null;
+  endTime: string | null;
+  prayer: Prayer | null;
+  recurrence: Recurrence | null;
+};
+
+// Which part of a recurring planning an edit or delete applies to
+export const SERIES_SCOPES = ['this', 'following', 'all'] as const;
+export type SeriesScope = (typeof SERIES_SCOPES)[number];
+
+// The recurrence from the form, or null for a one-off planning
+export function toRecurrence(data: PlanningFormData, exceptions?: Recurrence['exceptions']): Recurrence | null {
+  if (!data.recurring) return null;
+  return {
+    weekdays: [...data.weekdays].sort(),
+    interval: data.interval,
+    ...(data.endType === 'until' ? { until: data.until! } : { count: data.count! }),
+    ...(exceptions ? { exceptions } : {}),
+  };
+}
+
+export function toRecord(
+  data: PlanningFormData,
+  volunteerId: string,
+  roomId: string,
+  isResponsible: boolean,
+  exceptions?: Recurrence['exceptions'],
+): PlanningRecord {
+  const recurrence = toRecurrence(data, exceptions);
+  return {
+    volunteerId,
+    roomId,
+    startDate: data.startDate,
+    endDate: recurrence ? lastOccurrence(data.startDate, recurrence) : data.endDate,
+    isResponsible,
+    startTime: data.startTime || null,
+    endTime: data.endTime || null,
+    prayer: data.prayer ?? null,
+    recurrence,
+  };
+}
+
+/** A one-day planning, as the roster generator and the templates propose them. */
+export function dayRecord(
+  day: ShiftTiming & { date: string; roomId: string; volunteerId: string; isResponsible: boolean },
+): PlanningRecord {
+  return {
+    volunteerId: day.volunteerId,
+    roomId: day.roomId,
+    startDate: day.date,
+    endDate: day.date,
+    isResponsible: day.isResponsible,
+    startTime: day.startTime ?? null,
+    endTime: day.endTime ?? null,
+    prayer: day.prayer ?? null,
+    recurrence: null,
+  };
+}
+
+type Series = { id: string; startDate: string; recurrence?: Recurrence | null };
+
+function pickExceptions(recurrence: Recurrence, keep: (date: string) => boolean): Recurrence['exceptions'] {
+  const kept = Object.keys(recurrence.exceptions ?? {}).filter(keep);
+  return kept.length > 0 ? Object.fromEntries(kept.map(date => [date, true as const])) : undefined;
+}
+
+// Firebase rejects undefined values, so optional fields are left out
+function withoutUndefined(recurrence: Recurrence): Recurrence {
+  return Object.fromEntries(Object.entries(recurrence).filter(([, value]) => value !== undefined)) as Recurrence;
+}
+
+/**
+ * The multi-location update that changes (`replacement`) or removes (null)
+ * part of a recurring planning, starting at the occurrence on `date`:
+ *
+ *   this       the series skips `date`; a replacement becomes a separate
+ *              planning for that day only
+ *   following  the series ends the day before `date`; a replacement continues
+ *              as a new series with the exceptions from `date` on, and a count
+ *              still counts from the start of the original series
+ *   all        the series itself is replaced or removed
+ */
+export function seriesUpdates(
+  series: Series,
+  scope: SeriesScope,
+  date: string,
+  replacement: PlanningRecord | null,
+  newKey: () => string,
+): Record<string, unknown> {
+  const path = `plannings/${series.id}`;
+  const recurrence = series.recurrence;
+
+  if (scope === 'this' && recurrence) {
+    const updates: Record<string, unknown> = { [`${path}/recurrence/exceptions/${date}`]: true };
+    if (replacement) {
+      updates[`plannings/${newKey()}`] = { ...replacement, startDate: date, endDate: date, recurrence: null };
+    }
+    return updates;
+  }
+
+  const before = recurrence ? occurrencesBefore(series.startDate, recurrence, date) : 0;
+  if (scope === 'all' || !recurrence || before === 0) {
+    if (!replacement) return { [path]: null };
+    return { [path]: replacement };
+  }
+
+  const truncated = withoutUndefined({
+    weekdays: recurrence.weekdays,
+    interval: recurrence.interval,
+    until: format(subDays(parseISO(date), 1), 'yyyy-MM-dd'),
+    exceptions: pickExceptions(recurrence, exception => exception < date),
+  });
+  const updates: Record<string, unknown> = {
+    [`${path}/recurrence`]: truncated,
+    [`${path}/endDate`]: lastOccurrence(series.startDate, truncated),
+  };
+
+  if (replacement) {
+    let continued = replacement.recurrence;
+    if (continued) {
+      continued = withoutUndefined({
+        ...continued,
+        count: continued.count ? Math.max(1, continued.count - before) : undefined,
+        exceptions: pickExceptions(recurrence, exception => exception >= date),
+      });
+    }
+    updates[`plannings/${newKey()}`] = {
+      ...replacement,
+      startDate: date,
+      endDate: continued ? lastOccurrence(date, continued) : date,
+      recurrence: continued,
+    };
+  }
+  return updates;
+}
+
+type StoredPlanning = Series & Pick<PlanningRecord, 'volunteerId' | 'roomId' | 'endDate'> & {
+  isResponsible?: boolean;
+  startTime?: string | null;
+  endTime?: string | null;
+  prayer?: Prayer | null;
+};
+
+/**
+ * The multi-location update that hands the occurrence on `date` to another
+ * volunteer, responsible role included. The rest stays with the original
+ * volunteer: a recurring planning skips the day and a range of days is split
+ * around it.
+ */
+export function reassignUpdates(
+  planning: StoredPlanning,
+  date: string,
+  volunteerId: string,
+  newKey: () => string,
+): Record<string, unknown> {
+  const path = `plannings/${planning.id}`;
+  if (!planning.recurrence && planning.startDate === planning.endDate) {
+    return { [`${path}/volunteerId`]: volunteerId };
+  }
+
+  const day: PlanningRecord = {
+    volunteerId,
+    roomId: planning.roomId,
+    startDate: date,
+    endDate: date,
+    isResponsible: !!planning.isResponsible,
+    startTime: planning.startTime ?? null,
+    endTime: planning.endTime ?? null,
+    prayer: planning.prayer ?? null,
+    recurrence: null,
+  };
+  if (planning.recurrence) return seriesUpdates(planning, 'this', date, day, newKey);
+
+  const dayBefore = format(subDays(parseISO(date), 1), 'yyyy-MM-dd');
+  const dayAfter = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  const updates: Record<string, unknown> = { [`plannings/${newKey()}`]: day };
+  if (date === planning.startDate) {
+    updates[`${path}/startDate`] = dayAfter;
+  } else {
+    updates[`${path}/endDate`] = dayBefore;
+    if (date < planning.endDate) {
+      updates[`plannings/${newKey()}`] = {
+        ...day,
+        volunteerId: planning.volunteerId,
+        startDate: dayAfter,
+        endDate: planning.endDate,
+      };
+    }
+  }
+  return updates;
+}
@@ -0,0 +1,62 @@
+// `volunteers` holds phone numbers and absences, so only signed-in users can
+// read it. The public calendar reads `public_volunteers` instead: per
+// volunteer only the name as the calendar shows it. Every write to a
+// volunteer goes through these updates so both stay in step.
+
+export type PublicVolunteer = {
+  firstName: string;
+  lastInitial: string;
+};
+
+type VolunteerName = { firstName: string; lastName: string };
+
+export function publicVolunteer({ firstName, lastName }: VolunteerName): PublicVolunteer {
+  return { firstName, lastInitial: lastName.charAt(0) };
+}
+
+/**
+ * The multi-location update that creates a volunteer or changes its fields,
+ * and its public name with it.
+ */
+export function saveVolunteerUpdates(
+  id: string,
+  volunteer: VolunteerName & Record<string, unknown>,
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = { [`public_volunteers/${id}`]: publicVolunteer(volunteer) };
+  for (const [field, value] of Object.entries(volunteer)) {
+    updates[`volunteers/${id}/${field}`] = value;
+  }
+  return updates;
+}
+
+// The volunteer's sign-up link for open shifts stops working with it
+export function removeVolunteerUpdates(id: string, signUpToken?: string): Record<string, unknown> {
+  return {
+    [`volunteers/${id}`]: null,
+    [`public_volunteers/${id}`]: null,
+    ...(signUpToken ? { [`sign_up_links/${signUpToken}`]: null } : {}),
+  };
+}
+
+/**
+ * What brings `public_volunteers` in line with the volunteers, e.g. for
+ * volunteers saved before it existed. Empty when nothing is out of date.
+ */
+export function publicVolunteerRepairs(
+  volunteers: (VolunteerName & { id: string })[],
+  published: Record<string, PublicVolunteer>,
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  for (const volunteer of volunteers) {
+    const expected = publicVolunteer(volunteer);
+    const current = published[volunteer.id];
+    if (current?.firstName !== expected.firstName || current?.lastInitial !== expected.lastInitial) {
+      updates[`public_volunteers/${volunteer.id}`] = expected;
+    }
+  }
+  const ids = new Set(volunteers.map(volunteer => volunteer.id));
+  for (const id of Object.keys(published)) {
+    if (!ids.has(id)) updates[`public_volunteers/${id}`] = null;
+  }
+  return updates;
+}
@@ -1,15 +1,16 @@
 import { User } from "firebase/auth";
 import { ref, get, set } from "firebase/database";
 import { db } from "./firebase";
+import { hasPermission, resolveRole, type Permission, type UserRole } from "@shared/roles";
 
-export type UserRole = 'admin' | 'medewerker';
+export { ROLES, ROLE_LABELS, hasPermission, type Permission, type UserRole } from "@shared/roles";
 
 export async function createUserInDatabase(user: User) {
   try {
     const userRef = ref(db, `users/${user.uid}`);
     await set(userRef, {
       email: user.email,
-      admin: false // By default, new users are not admins (they are medewerker)
+      role: 'medewerker' // By default, new users are medewerker
     });
     console.log(`Created user ${user.email} in database`);
     return true;
@@ -24,7 +25,7 @@ export async function createAdminUser(uid: string, email: string) {
     const userRef = ref(db, `users/${uid}`);
     await set(userRef, {
       email,
-      admin: true
+      role: 'admin'
     });
     console.log(`Created admin user ${email} in database`);
     return true;
@@ -34,14 +35,15 @@ export async function createAdminUser(uid: string, email: string) {
   }
 }
 
-export async function updateUserRole(uid: string, email: string, isAdmin: boolean) {
+// Overwrites the whole user record, which also drops the legacy `admin` flag
+export async function updateUserRole(uid: string, email: string, role: UserRole) {
   try {
     const userRef = ref(db, `users/${uid}`);
     await set(userRef, {
       email,
-      admin: isAdmin
+      role
     });
-    console.log(`Updated user ${email} role to ${isAdmin ? 'admin' : 'medewerker'}`);
+    console.log(`Updated user ${email} role to ${role}`);
     return true;
   } catch (error) {
     console.error('Error updating user role:', error);
@@ -62,15 +64,9 @@ export async function getUserRole(user: User | null): Promise<UserRole | null> {
     console.log('User UID:', user.uid);
     console.log('Database path:', `users/${user.uid}`);
     console.log('User data from Firebase:', userData);
-    console.log('Admin status:', userData?.admin);
 
-    // Check if user has admin flag
-    if (userData && userData.admin === true) {
-      return 'admin';
-    }
-
-    // If user exists but is not admin, they are a medewerker
-    return userData ? 'medewerker' : null;
+    // Users without a record are not part of the team
+    return userData ? resolveRole(userData) : null;
   } catch (error) {
     console.error('Error fetching user role:', error);
     return null;
@@ -85,16 +81,31 @@ export function isMedewerker(role: UserRole | null): boolean {
   return role === 'medewerker';
 }
 
-// Helper function to check page access
+// Permission needed to open each page; pages not listed are open to every role
+const PAGE_PERMISSIONS: Record<string, Permission> = {
+  '/': 'dashboard:read',
+  '/planning': 'planning:read',
+  '/volunteers': 'volunteers:read',
+  '/materials': 'materials:read',
+  '/rooms': 'rooms:manage',
+  '/import-export': 'data:export',
+  '/mosque': 'dashboard:read',
+  '/settings': 'users:manage',
+  '/communication': 'sufuf:read',
+  '/sufuf': 'sufuf:read',
+  '/sufuf/history': 'sufuf:history',
+};
+
+// Helper function to check page access, mirrored by requirePermission on the
+// API and by database.rules.json
 export function canAccessPage(role: UserRole | null, page: string): boolean {
   if (!role) return false;
 
-  // Pages only accessible to admins
-  const adminOnlyPages = ['/rooms', '/materials/manage', '/mosque/edit'];
-  if (adminOnlyPages.includes(page)) {
-    return isAdmin(role);
-  }
+  const permission = PAGE_PERMISSIONS[page];
+  return !permission || hasPermission(role, permission);
+}
 
-  // All other pages are accessible to both roles
-  return true;
-}
\ No newline at end of file
+// Where a role lands after login, e.g. the imam only sees the Sufuf board
+export function getHomePage(role: UserRole | null): string {
+  return ['/', '/sufuf', '/profile'].find((page) => canAccessPage(role, page)) ?? '/profile';
+}
@@ -0,0 +1,41 @@
+import type { User } from "firebase/auth";
+import { apiRequest } from "./queryClient";
+
+// The pages still sign in with Firebase Auth; the Express session is opened
+// alongside it for the parts that talk to our own server, such as the Sufuf
+// socket. Failures are not fatal: the account may not exist on the server yet.
+export async function startServerSession(email: string, password: string): Promise<boolean> {
+  try {
+    await apiRequest("POST", "/api/login", { email, password });
+    return true;
+  } catch (error) {
+    console.warn("Could not open a server session:", error);
+    return false;
+  }
+}
+
+/**
+ * Opens a server session for a user who is already signed in with Firebase,
+ * e.g. when the app is loaded again, by exchanging their ID token. Resolves
+ * to true when a new session was opened, false when there already was one or
+ * the server would not open one.
+ */
+export async function resumeServerSession(user: User): Promise<boolean> {
+  try {
+    const me = await fetch("/api/me", { credentials: "include" });
+    if (me.ok) return false;
+    await apiRequest("POST", "/api/session", { idToken: await user.getIdToken() });
+    return true;
+  } catch (error) {
+    console.warn("Could not resume the server session:", error);
+    return false;
+  }
+}
+
+export async function endServerSession() {
+  try {
+    await apiRequest("POST", "/api/logout");
+  } catch (error) {
+    console.warn("Could not close the server session:", error);
+  }
+}
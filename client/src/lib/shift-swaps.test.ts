@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { approvalUpdates, claimProblem } from './shift-swaps';
+import type { ShiftSwap, SwapClaim } from '@shared/swaps';
+import type { Planning } from '@/components/planning/planning-form';
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from '@shared/prayer-times';
+
+const volunteers = [
+  { id: 'v1', firstName: 'Amina', lastName: 'Peeters' },
+  { id: 'v2', firstName: 'Youssef', lastName: 'Janssens' },
+  { id: 'v3', firstName: 'Sara', lastName: 'Wouters', availability: { weekdays: ['mon' as const] } },
+];
+
+// Friday 5 and Saturday 6 January 2024
+const plannings: Planning[] = [
+  { id: 'p1', volunteerId: 'v1', roomId: 'r1', startDate: '2024-01-05', endDate: '2024-01-05', startTime: '09:00', endTime: '12:00' },
+  { id: 'p2', volunteerId: 'v2', roomId: 'r2', startDate: '2024-01-06', endDate: '2024-01-06', startTime: '09:00', endTime: '12:00' },
+];
+
+const drop: ShiftSwap = {
+  planningId: 'p1',
+  date: '2024-01-05',
+  volunteerId: 'v1',
+  kind: 'drop',
+  status: 'open',
+  offeredAt: '2024-01-01T10:00:00.000Z',
+};
+const swap: ShiftSwap = { ...drop, kind: 'swap' };
+
+const claim = (volunteerId: string, returned?: Pick<SwapClaim, 'planningId' | 'date'>): SwapClaim => ({
+  volunteerId,
+  claimedAt: '2024-01-02T10:00:00.000Z',
+  ...returned,
+});
+
+const keys = () => {
+  let next = 0;
+  return () => `new${++next}`;
+};
+
+test('a claim goes through while both shifts are as offered', () => {
+  assert.equal(claimProblem(drop, claim('v2'), plannings, volunteers, settings), null);
+  assert.equal(claimProblem(swap, claim('v2', { planningId: 'p2', date: '2024-01-06' }), plannings, volunteers, settings), null);
+});
+
+test('a claim is refused once a shift changed or when the claimant cannot come', () => {
+  const moved = plannings.map(p => p.id === 'p1' ? { ...p, volunteerId: 'v3' } : p);
+  assert.equal(claimProblem(drop, claim('v2'), moved, volunteers, settings), 'De aangeboden planning is intussen gewijzigd');
+  assert.equal(claimProblem(drop, claim('v9'), plannings, volunteers, settings), 'Onbekende vrijwilliger');
+  assert.equal(claimProblem(drop, claim('v3'), plannings, volunteers, settings), 'Sara Wouters kan deze dienst niet overnemen');
+  assert.equal(
+    claimProblem(swap, claim('v2', { planningId: 'p2', date: '2024-01-13' }), plannings, volunteers, settings),
+    'De dienst in ruil is intussen gewijzigd',
+  );
+});
+
+test('approving a drop hands the day to the claimant and records the decision', () => {
+  const updates = approvalUpdates('s1', drop, claim('v2'), plannings, keys());
+  assert.equal(updates['plannings/p1/volunteerId'], 'v2');
+  assert.equal(updates['shift_swaps/s1/status'], 'approved');
+  assert.deepEqual(updates['shift_swaps/s1/claim'], claim('v2'));
+  assert.equal(typeof updates['shift_swaps/s1/decidedAt'], 'string');
+});
+
+test('approving a swap also hands the day in return to the offering volunteer', () => {
+  const updates = approvalUpdates('s1', swap, claim('v2', { planningId: 'p2', date: '2024-01-06' }), plannings, keys());
+  assert.equal(updates['plannings/p1/volunteerId'], 'v2');
+  assert.equal(updates['plannings/p2/volunteerId'], 'v1');
+});
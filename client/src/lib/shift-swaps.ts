@@ -0,0 +1,88 @@
+import { parseISO } from 'date-fns';
+import { occursOn } from '@shared/recurrence';
+import { canTakeOver, type ShiftSwap, type SwapClaim } from '@shared/swaps';
+import type { Availability } from '@shared/availability';
+import type { PrayerTimeSettings } from '@shared/prayer-times';
+import type { Planning } from '@/components/planning/planning-form';
+import { reassignUpdates } from './planning-series';
+
+type SwapVolunteer = { id: string; firstName: string; lastName: string; availability?: Availability | null };
+
+const findOccurrence = (plannings: Planning[], id: string | undefined, volunteerId: string, date: string | undefined) => {
+  const planning = plannings.find(p => p.id === id);
+  return planning && date && planning.volunteerId === volunteerId && occursOn(planning, parseISO(date))
+    ? planning
+    : undefined;
+};
+
+/** The planning on offer, or undefined once the volunteer is no longer on it that day. */
+export function offeredPlanning(swap: ShiftSwap, plannings: Planning[]): Planning | undefined {
+  return findOccurrence(plannings, swap.planningId, swap.volunteerId, swap.date);
+}
+
+/** For a swap: the planning the claimant gives in return. */
+export function returnedPlanning(swap: ShiftSwap, claim: SwapClaim, plannings: Planning[]): Planning | undefined {
+  return findOccurrence(plannings, claim.planningId, claim.volunteerId, claim.date);
+}
+
+/**
+ * Why the claim cannot go through as the plannings are now, or null. Checked
+ * when claiming and again when an admin approves, as plannings change in
+ * between.
+ */
+export function claimProblem(
+  swap: ShiftSwap,
+  claim: SwapClaim,
+  plannings: Planning[],
+  volunteers: SwapVolunteer[],
+  settings: PrayerTimeSettings,
+): string | null {
+  const offered = offeredPlanning(swap, plannings);
+  if (!offered) return 'De aangeboden planning is intussen gewijzigd';
+  const claimant = volunteers.find(v => v.id === claim.volunteerId);
+  if (!claimant) return 'Onbekende vrijwilliger';
+
+  if (swap.kind === 'drop') {
+    return canTakeOver(claimant, offered, swap.date, plannings, settings)
+      ? null
+      : `${claimant.firstName} ${claimant.lastName} kan deze dienst niet overnemen`;
+  }
+
+  const returned = returnedPlanning(swap, claim, plannings);
+  if (!returned) return 'De dienst in ruil is intussen gewijzigd';
+  const offerer = volunteers.find(v => v.id === swap.volunteerId);
+  if (!offerer) return 'Onbekende vrijwilliger';
+  // On the same day each volunteer gives up the shift that would overlap
+  const sameDay = claim.date === swap.date;
+  if (!canTakeOver(claimant, offered, swap.date, plannings, settings, sameDay ? [returned.id] : [])) {
+    return `${claimant.firstName} ${claimant.lastName} kan deze dienst niet overnemen`;
+  }
+  if (!canTakeOver(offerer, returned, claim.date!, plannings, settings, sameDay ? [offered.id] : [])) {
+    return `${offerer.firstName} ${offerer.lastName} kan de dienst in ruil niet overnemen`;
+  }
+  return null;
+}
+
+/**
+ * The multi-location update that carries out an approved claim: the offered
+ * day goes to the claimant and, for a swap, the day in return to the
+ * volunteer who offered.
+ */
+export function approvalUpdates(
+  swapId: string,
+  swap: ShiftSwap,
+  claim: SwapClaim,
+  plannings: Planning[],
+  newKey: () => string,
+): Record<string, unknown> {
+  const updates = {
+    ...reassignUpdates(offeredPlanning(swap, plannings)!, swap.date, claim.volunteerId, newKey),
+    [`shift_swaps/${swapId}/claim`]: claim,
+    [`shift_swaps/${swapId}/status`]: 'approved',
+    [`shift_swaps/${swapId}/decidedAt`]: new Date().toISOString(),
+  };
+  if (swap.kind === 'swap') {
+    Object.assign(updates, reassignUpdates(returnedPlanning(swap, claim, plannings)!, claim.date!, swap.volunteerId, newKey));
+  }
+  return updates;
+}
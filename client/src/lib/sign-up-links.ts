@@ -0,0 +1,26 @@
+// Volunteers sign up for open shifts without an account, through a personal
+// link. Its token is a key of `sign_up_links`, which only lets you read a
+// token you already know, so the link is the proof of who signs up. The
+// volunteer keeps the token in `signUpToken` for the coordinator to share.
+
+export type SignUpLink = {
+  volunteerId: string;
+};
+
+/** A random token that cannot be guessed from other links. */
+export function newSignUpToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function signUpUrl(token: string): string {
+  return `${window.location.origin}/shifts/open/${token}`;
+}
+
+/** The multi-location update that gives the volunteer their link. */
+export function signUpLinkUpdates(volunteerId: string, token: string): Record<string, unknown> {
+  return {
+    [`sign_up_links/${token}`]: { volunteerId } satisfies SignUpLink,
+    [`volunteers/${volunteerId}/signUpToken`]: token,
+  };
+}
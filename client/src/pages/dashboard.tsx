@@ -8,7 +8,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { WeekView } from "@/components/calendar/week-view";
-import { format, parseISO, isWithinInterval, startOfToday, endOfToday } from "date-fns";
+import { PrayerTimesCard } from "@/components/prayer/prayer-times-card";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import { occursOn, type Recurrence } from "@shared/recurrence";
 
 type Material = {
   id: string;
@@ -41,6 +43,7 @@ type Planning = {
   roomId: string;
   startDate: string;
   endDate: string;
+  recurrence?: Recurrence;
 };
 
 const getMaterialIcon = (typeName: string) => {
@@ -55,6 +58,7 @@ export default function Dashboard() {
   const [rooms, setRooms] = useState<Room[]>([]);
   const [plannings, setPlannings] = useState<Planning[]>([]);
   const [selectedBlock, setSelectedBlock] = useState<'materials' | 'volunteers' | 'active' | 'rooms' | null>(null);
+  const { prayerTimes } = useMosqueSettings();
 
   useEffect(() => {
     const materialsRef = ref(db, "materials");
@@ -118,32 +122,14 @@ export default function Dashboard() {
   // Get unique volunteers active today (have a planning for today)
   const activeVolunteers = volunteers.filter(volunteer => {
     const today = new Date();
-    const todayStart = startOfToday();
-    const todayEnd = endOfToday();
 
-    return plannings.some(planning => {
-      const planningStart = parseISO(planning.startDate);
-      const planningEnd = parseISO(planning.endDate);
-
-      return planning.volunteerId === volunteer.id &&
-             isWithinInterval(today, {
-               start: planningStart,
-               end: planningEnd
-             });
-    });
+    return plannings.some(planning =>
+      planning.volunteerId === volunteer.id && occursOn(planning, today)
+    );
   });
 
   // Get all plannings for today
-  const todayPlannings = plannings.filter(planning => {
-    const today = new Date();
-    const planningStart = parseISO(planning.startDate);
-    const planningEnd = parseISO(planning.endDate);
-
-    return isWithinInterval(today, {
-      start: planningStart,
-      end: planningEnd
-    });
-  });
+  const todayPlannings = plannings.filter(planning => occursOn(planning, new Date()));
 
   // Groepeer materialen per type voor de pop-up
   const checkedOutMaterialsByType = useMemo(() => {
@@ -260,6 +246,8 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <PrayerTimesCard settings={prayerTimes} />
+
       {/* Details Dialog */}
       <Dialog open={selectedBlock !== null} onOpenChange={() => setSelectedBlock(null)}>
         <DialogContent className="max-w-2xl">
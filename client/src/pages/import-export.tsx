@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { db } from "@/lib/firebase";
-import { ref, onValue, remove, push } from "firebase/database";
+import { ref, onValue, remove, push, update } from "firebase/database";
 import { useToast } from "@/hooks/use-toast";
 import { Download, Upload, Users, X, FileUp, FileDown, FileJson } from "lucide-react";
 import { PDFDownloadLink } from "@react-pdf/renderer";
@@ -13,6 +13,7 @@ import { format } from 'date-fns';
 import { nl } from 'date-fns/locale';
 import { useRole } from "@/hooks/use-role";
 import { logUserAction, UserActionTypes } from "@/lib/activity-logger";
+import { saveVolunteerUpdates } from "@/lib/public-volunteers";
 
 const styles = StyleSheet.create({
   page: {
@@ -158,7 +159,7 @@ export default function ImportExport() {
     { id: 'phoneNumber', label: 'Telefoonnummer', checked: true },
   ]);
   const { toast } = useToast();
-  const { isAdmin } = useRole();
+  const { can } = useRole();
 
   useEffect(() => {
     const volunteersRef = ref(db, "volunteers");
@@ -221,11 +222,12 @@ export default function ImportExport() {
       for (const volunteerId of selectedVolunteers) {
         const volunteer = pendingVolunteers.find(v => v.id === volunteerId);
         if (volunteer) {
-          const newVolunteerRef = await push(ref(db, "volunteers"), {
+          const newVolunteerRef = push(ref(db, "volunteers"));
+          await update(ref(db), saveVolunteerUpdates(newVolunteerRef.key!, {
             firstName: volunteer.firstName,
             lastName: volunteer.lastName,
             phoneNumber: volunteer.phoneNumber
-          });
+          }));
           await remove(ref(db, `pending_volunteers/${volunteerId}`));
 
           importedVolunteers.push(`${volunteer.firstName} ${volunteer.lastName}`);
@@ -305,91 +307,93 @@ export default function ImportExport() {
         </div>
       </div>
 
-      <Card className="shadow-md">
-        <CardHeader className="border-b bg-gray-50/80">
-          <CardTitle className="flex items-center gap-2 text-[#963E56] text-lg sm:text-xl">
-            <FileDown className="h-5 w-5" />
-            Importeer Aanmeldingen
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="pt-6 overflow-x-auto">
-          {pendingVolunteers.length > 0 ? (
-            <>
-              <div className="rounded-lg border min-w-[600px] sm:min-w-0">
-                <Table>
-                  <TableHeader>
-                    <TableRow className="bg-gray-50/50">
-                      <TableHead className="w-[50px]">
-                        <Checkbox
-                          checked={selectedVolunteers.length === pendingVolunteers.length}
-                          onCheckedChange={(checked) => {
-                            setSelectedVolunteers(
-                              checked ? pendingVolunteers.map(v => v.id) : []
-                            );
-                          }}
-                        />
-                      </TableHead>
-                      <TableHead>Voornaam</TableHead>
-                      <TableHead>Achternaam</TableHead>
-                      <TableHead className="hidden sm:table-cell">Telefoonnummer</TableHead>
-                      <TableHead className="hidden sm:table-cell">Aangemeld op</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {pendingVolunteers.map((volunteer) => (
-                      <TableRow key={volunteer.id}>
-                        <TableCell>
+      {can('data:import') && (
+        <Card className="shadow-md">
+          <CardHeader className="border-b bg-gray-50/80">
+            <CardTitle className="flex items-center gap-2 text-[#963E56] text-lg sm:text-xl">
+              <FileDown className="h-5 w-5" />
+              Importeer Aanmeldingen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 overflow-x-auto">
+            {pendingVolunteers.length > 0 ? (
+              <>
+                <div className="rounded-lg border min-w-[600px] sm:min-w-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50/50">
+                        <TableHead className="w-[50px]">
                           <Checkbox
-                            checked={selectedVolunteers.includes(volunteer.id)}
+                            checked={selectedVolunteers.length === pendingVolunteers.length}
                             onCheckedChange={(checked) => {
                               setSelectedVolunteers(
-                                checked
-                                  ? [...selectedVolunteers, volunteer.id]
-                                  : selectedVolunteers.filter(id => id !== volunteer.id)
+                                checked ? pendingVolunteers.map(v => v.id) : []
                               );
                             }}
                           />
-                        </TableCell>
-                        <TableCell>{volunteer.firstName}</TableCell>
-                        <TableCell>{volunteer.lastName}</TableCell>
-                        <TableCell className="hidden sm:table-cell">{volunteer.phoneNumber}</TableCell>
-                        <TableCell className="hidden sm:table-cell">
-                          {format(new Date(volunteer.submittedAt), 'd MMMM yyyy', { locale: nl })}
-                        </TableCell>
+                        </TableHead>
+                        <TableHead>Voornaam</TableHead>
+                        <TableHead>Achternaam</TableHead>
+                        <TableHead className="hidden sm:table-cell">Telefoonnummer</TableHead>
+                        <TableHead className="hidden sm:table-cell">Aangemeld op</TableHead>
                       </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                    </TableHeader>
+                    <TableBody>
+                      {pendingVolunteers.map((volunteer) => (
+                        <TableRow key={volunteer.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedVolunteers.includes(volunteer.id)}
+                              onCheckedChange={(checked) => {
+                                setSelectedVolunteers(
+                                  checked
+                                    ? [...selectedVolunteers, volunteer.id]
+                                    : selectedVolunteers.filter(id => id !== volunteer.id)
+                                );
+                              }}
+                            />
+                          </TableCell>
+                          <TableCell>{volunteer.firstName}</TableCell>
+                          <TableCell>{volunteer.lastName}</TableCell>
+                          <TableCell className="hidden sm:table-cell">{volunteer.phoneNumber}</TableCell>
+                          <TableCell className="hidden sm:table-cell">
+                            {format(new Date(volunteer.submittedAt), 'd MMMM yyyy', { locale: nl })}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-4 mt-6">
+                  <Button
+                    onClick={handleImport}
+                    disabled={selectedVolunteers.length === 0}
+                    className="bg-[#963E56] hover:bg-[#963E56]/90 text-white w-full sm:w-auto sm:flex-1"
+                  >
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Importeer ({selectedVolunteers.length})
+                  </Button>
+                  <Button
+                    onClick={handleReject}
+                    disabled={selectedVolunteers.length === 0}
+                    variant="destructive"
+                    className="w-full sm:w-auto sm:flex-1 bg-[#963E56] hover:bg-[#963E56]/90"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Weiger ({selectedVolunteers.length})
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                <Upload className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p className="text-lg font-medium">Geen nieuwe aanmeldingen gevonden</p>
+                <p className="mt-1 text-sm">Nieuwe vrijwilligers aanmeldingen verschijnen hier automatisch</p>
               </div>
-              <div className="flex flex-col sm:flex-row gap-4 mt-6">
-                <Button
-                  onClick={handleImport}
-                  disabled={selectedVolunteers.length === 0}
-                  className="bg-[#963E56] hover:bg-[#963E56]/90 text-white w-full sm:w-auto sm:flex-1"
-                >
-                  <FileUp className="h-4 w-4 mr-2" />
-                  Importeer ({selectedVolunteers.length})
-                </Button>
-                <Button
-                  onClick={handleReject}
-                  disabled={selectedVolunteers.length === 0}
-                  variant="destructive"
-                  className="w-full sm:w-auto sm:flex-1 bg-[#963E56] hover:bg-[#963E56]/90"
-                >
-                  <X className="h-4 w-4 mr-2" />
-                  Weiger ({selectedVolunteers.length})
-                </Button>
-              </div>
-            </>
-          ) : (
-            <div className="text-center py-12 text-gray-500">
-              <Upload className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p className="text-lg font-medium">Geen nieuwe aanmeldingen gevonden</p>
-              <p className="mt-1 text-sm">Nieuwe vrijwilligers aanmeldingen verschijnen hier automatisch</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
       <Card className="shadow-md">
         <CardHeader className="border-b bg-gray-50/80">
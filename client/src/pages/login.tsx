@@ -14,6 +14,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useState } from "react";
 import { logUserAction, UserActionTypes } from "@/lib/activity-logger";
+import { startServerSession } from "@/lib/server-session";
+import { useSocket } from "@/hooks/use-socket";
 
 const loginSchema = z.object({
   email: z.string().email("Ongeldig e-mailadres"),
@@ -31,6 +33,7 @@ export default function Login() {
   const { toast } = useToast();
   const [_, setLocation] = useLocation();
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const { reconnect } = useSocket();
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -43,6 +46,9 @@ export default function Login() {
   const onSubmit = async (data: LoginFormData) => {
     try {
       await signInWithEmailAndPassword(auth, data.email, data.password);
+      if (await startServerSession(data.email, data.password)) {
+        reconnect();
+      }
       await logUserAction(
         UserActionTypes.LOGIN,
         undefined,
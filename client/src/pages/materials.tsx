@@ -169,7 +169,7 @@ const Materials = () => {
   const [open, setOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const { toast } = useToast();
-  const { isAdmin } = useRole();
+  const { can } = useRole();
   const [searchReturned, setSearchReturned] = useState("");
   const [returnedMaterials, setReturnedMaterials] = useState<Array<{
     id: string;
@@ -722,7 +722,7 @@ const Materials = () => {
             </div>
 
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
-              {isAdmin && (
+              {can('materials:manage') && (
                 <Dialog open={isTypesDialogOpen} onOpenChange={setIsTypesDialogOpen}>
                   <DialogTrigger asChild>
                     <Button variant="outline" className="w-full sm:w-auto">
@@ -779,304 +779,306 @@ const Materials = () => {
                 </Dialog>
               )}
 
-              <Dialog 
-                open={dialogOpen} 
-                onOpenChange={(open) => {
-                  if (!open && formError) {
-                    return;
-                  }
-                  if (!open) {
-                    setFormError(null);
-                    form.reset();
-                    setSelectedMaterialTypes([]);
-                  }
-                  setDialogOpen(open);
-                }}
-              >
-                <DialogTrigger asChild>
-                  <Button className="w-full sm:w-auto gap-2 bg-[#963E56] hover:bg-[#963E56]/90 text-white">
-                    <Package2 className="h-4 w-4" />
-                    Toewijzen
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-[95vw] sm:max-w-[600px] p-4 bg-white mx-2">
-                  <DialogHeader className="mb-4">
-                    <DialogTitle className="text-xl font-semibold text-[#963E56]">
-                      Materiaal Toewijzen
-                    </DialogTitle>
-                  </DialogHeader>
-                  <Form {...form}>
-                    <form
-                      onSubmit={async (e) => {
-                        e.preventDefault();
-                        const success = await form.handleSubmit(onSubmit)(e);
-                        if (!success) {
-                          e.stopPropagation();
-                        }
-                      }}
-                      className="space-y-4"
-                    >
-                      <FormField
-                        control={form.control}
-                        name="volunteerId"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Vrijwilliger</FormLabel>
-                            <Select
-                              value={field.value}
-                              onValueChange={field.onChange}
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Selecteer vrijwilliger" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <div className="sticky top-0 px-2 py-2 bg-white border-b">
-                                  <div className="relative">
-                                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
-                                    <input
-                                      type="text"
-                                      placeholder="Zoek vrijwilliger..."
-                                      value={volunteerSearchTerm}
-                                      onChange={(e) => {
-                                        e.stopPropagation();
-                                        setVolunteerSearchTerm(e.target.value);
-                                      }}
-                                      onKeyDown={(e) => {
-                                        e.stopPropagation();
-                                      }}
-                                      className="w-full pl-9 h-9 rounded-md border border-input bg-white px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-0 focus-visible:ring-offset-0 disabled:cursor-not-allowed disabled:opacity-50"
-                                    />
+              {can('materials:checkout') && (
+                <Dialog 
+                  open={dialogOpen} 
+                  onOpenChange={(open) => {
+                    if (!open && formError) {
+                      return;
+                    }
+                    if (!open) {
+                      setFormError(null);
+                      form.reset();
+                      setSelectedMaterialTypes([]);
+                    }
+                    setDialogOpen(open);
+                  }}
+                >
+                  <DialogTrigger asChild>
+                    <Button className="w-full sm:w-auto gap-2 bg-[#963E56] hover:bg-[#963E56]/90 text-white">
+                      <Package2 className="h-4 w-4" />
+                      Toewijzen
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-[95vw] sm:max-w-[600px] p-4 bg-white mx-2">
+                    <DialogHeader className="mb-4">
+                      <DialogTitle className="text-xl font-semibold text-[#963E56]">
+                        Materiaal Toewijzen
+                      </DialogTitle>
+                    </DialogHeader>
+                    <Form {...form}>
+                      <form
+                        onSubmit={async (e) => {
+                          e.preventDefault();
+                          const success = await form.handleSubmit(onSubmit)(e);
+                          if (!success) {
+                            e.stopPropagation();
+                          }
+                        }}
+                        className="space-y-4"
+                      >
+                        <FormField
+                          control={form.control}
+                          name="volunteerId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Vrijwilliger</FormLabel>
+                              <Select
+                                value={field.value}
+                                onValueChange={field.onChange}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Selecteer vrijwilliger" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <div className="sticky top-0 px-2 py-2 bg-white border-b">
+                                    <div className="relative">
+                                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                                      <input
+                                        type="text"
+                                        placeholder="Zoek vrijwilliger..."
+                                        value={volunteerSearchTerm}
+                                        onChange={(e) => {
+                                          e.stopPropagation();
+                                          setVolunteerSearchTerm(e.target.value);
+                                        }}
+                                        onKeyDown={(e) => {
+                                          e.stopPropagation();
+                                        }}
+                                        className="w-full pl-9 h-9 rounded-md border border-input bg-white px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-0 focus-visible:ring-offset-0 disabled:cursor-not-allowed disabled:opacity-50"
+                                      />
+                                    </div>
                                   </div>
-                                </div>
-                                <div className="pt-1 max-h-[300px] overflow-y-auto">
-                                  {volunteers
-                                    .filter((volunteer) => {
-                                      const fullName = `${volunteer.firstName} ${volunteer.lastName}`.toLowerCase();
-                                      return fullName.includes(volunteerSearchTerm.toLowerCase());
-                                    })
-                                    .map((volunteer) => (
-                                      <SelectItem
-                                        key={volunteer.id}
-                                        value={volunteer.id}
-                                        className="flex items-center justify-between py-2.5 px-3 cursor-pointer hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground"
-                                      >
-                                        <div className="flex items-center gap-2">
-                                          <Check
-                                            className={cn(
-                                              "h-4 w-4 flex-shrink-0",
-                                              field.value === volunteer.id
-                                                ? "opacity-100"
-                                                : "opacity-0"
-                                            )}
-                                          />
-                                          <span className="flex-grow">
+                                  <div className="pt-1 max-h-[300px] overflow-y-auto">
+                                    {volunteers
+                                      .filter((volunteer) => {
+                                        const fullName = `${volunteer.firstName} ${volunteer.lastName}`.toLowerCase();
+                                        return fullName.includes(volunteerSearchTerm.toLowerCase());
+                                      })
+                                      .map((volunteer) => (
+                                        <SelectItem
+                                          key={volunteer.id}
+                                          value={volunteer.id}
+                                          className="flex items-center justify-between py-2.5 px-3 cursor-pointer hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground"
+                                        >
+                                          <div className="flex items-center gap-2">
+                                            <Check
+                                              className={cn(
+                                                "h-4 w-4 flex-shrink-0",
+                                                field.value === volunteer.id
+                                                  ? "opacity-100"
+                                                  : "opacity-0"
+                                              )}
+                                            />
+                                            <span className="flex-grow">
+                                              {volunteer.firstName} {volunteer.lastName}
+                                            </span>
+                                          </div>
+                                        </SelectItem>
+                                      ))}
+                                  </div>
+                                </SelectContent>
+                              </Select>
+                              {field.value && (
+                                <div className="mt-2">
+                                  {(() => {
+                                    const volunteer = volunteers.find(
+                                      (v) => v.id === field.value,
+                                    );
+                                    if (volunteer) {
+                                      return (
+                                        <div className="bg-[#963E56]/10 text-[#963E56] text-sm rounded-full px-3 py-1 flex items-center gap-2 w-fit">
+                                          <span>
                                             {volunteer.firstName} {volunteer.lastName}
                                           </span>
+                                          <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-4 w-4 p-0 hover:bg-transparent"
+                                            onClick={() => field.onChange(undefined)}
+                                          >
+                                            <X className="h-3 w-3" />
+                                          </Button>
                                         </div>
-                                      </SelectItem>
-                                    ))}
+                                      );
+                                    }
+                                  })()}
                                 </div>
-                              </SelectContent>
-                            </Select>
-                            {field.value && (
-                              <div className="mt-2">
-                                {(() => {
-                                  const volunteer = volunteers.find(
-                                    (v) => v.id === field.value,
-                                  );
-                                  if (volunteer) {
-                                    return (
-                                      <div className="bg-[#963E56]/10 text-[#963E56] text-sm rounded-full px-3 py-1 flex items-center gap-2 w-fit">
-                                        <span>
-                                          {volunteer.firstName} {volunteer.lastName}
-                                        </span>
-                                        <Button
-                                          type="button"
-                                          variant="ghost"
-                                          size="icon"
-                                          className="h-4 w-4 p-0 hover:bg-transparent"
-                                          onClick={() => field.onChange(undefined)}
-                                        >
-                                          <X className="h-3 w-3" />
-                                        </Button>
-                                      </div>
-                                    );
-                                  }
-                                })()}
-                              </div>
-                            )}
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <div className="space-y-4">
-                        <FormLabel>Materialen</FormLabel>
                         <div className="space-y-4">
-                          <Select
-                            onValueChange={(value) => {
-                              if (!selectedMaterialTypes.includes(value)) {
-                                setSelectedMaterialTypes([
-                                  ...selectedMaterialTypes,
-                                  value,
-                                ]);
-                                const currentMaterials =
-                                  form.getValues("materials") || [];
-                                form.setValue("materials", [
-                                  ...currentMaterials,
-                                  { typeId: value, numbers: [] },
-                                ]);
-                              }
-                            }}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Selecteer materiaal type" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {materialTypes.map((type) => (
-                                <SelectItem key={type.id} value={type.id}>
-                                  {type.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-
-                          {form.watch("materials")?.map((material, index) => {
-                            const materialType = materialTypes.find(
-                              (t) => t.id === material.typeId,
-                            );
-                            // Get available numbers (not checked out)
-                            const availableNumbers = Array.from(
-                              { length: materialType?.maxCount ||0 }, 
-                              (_, i) => i + 1
-                            ).filter(number => 
-                              !materials.some(m => 
-                                m.typeId === material.typeId && 
-                                m.number === number && 
-                                m.isCheckedOut
-                              )
-                            );
-
-                            return (
-                              <div
-                                key={material.typeId}
-                                className="space-y-2 p-4 border rounded-lg"
-                              >
-                                <div className="flex items-center justify-between">
-                                  <h4 className="font-medium">
-                                    {materialType?.name}
-                                  </h4>
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => {
-                                      const updatedMaterials = form.getValues("materials").filter((_, i) => i !== index);
-                                      form.setValue("materials", updatedMaterials);
-                                      setSelectedMaterialTypes(
-                                        selectedMaterialTypes.filter(
-                                          (id) => id !== material.typeId,
-                                        ),
-                                      );
-                                    }}
-                                  >
-                                    <X className="h-4 w-4" />
-                                  </Button>
-                                </div>
+                          <FormLabel>Materialen</FormLabel>
+                          <div className="space-y-4">
+                            <Select
+                              onValueChange={(value) => {
+                                if (!selectedMaterialTypes.includes(value)) {
+                                  setSelectedMaterialTypes([
+                                    ...selectedMaterialTypes,
+                                    value,
+                                  ]);
+                                  const currentMaterials =
+                                    form.getValues("materials") || [];
+                                  form.setValue("materials", [
+                                    ...currentMaterials,
+                                    { typeId: value, numbers: [] },
+                                  ]);
+                                }
+                              }}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecteer materiaal type" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {materialTypes.map((type) => (
+                                  <SelectItem key={type.id} value={type.id}>
+                                    {type.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
 
-                                <div className="relative">
-                                  <Select
-                                    onValueChange={(value) => {
-                                      if (!value) return;
+                            {form.watch("materials")?.map((material, index) => {
+                              const materialType = materialTypes.find(
+                                (t) => t.id === material.typeId,
+                              );
+                              // Get available numbers (not checked out)
+                              const availableNumbers = Array.from(
+                                { length: materialType?.maxCount ||0 }, 
+                                (_, i) => i + 1
+                              ).filter(number => 
+                                !materials.some(m => 
+                                  m.typeId === material.typeId && 
+                                  m.number === number && 
+                                  m.isCheckedOut
+                                )
+                              );
+
+                              return (
+                                <div
+                                  key={material.typeId}
+                                  className="space-y-2 p-4 border rounded-lg"
+                                >
+                                  <div className="flex items-center justify-between">
+                                    <h4 className="font-medium">
+                                      {materialType?.name}
+                                    </h4>
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => {
+                                        const updatedMaterials = form.getValues("materials").filter((_, i) => i !== index);
+                                        form.setValue("materials", updatedMaterials);
+                                        setSelectedMaterialTypes(
+                                          selectedMaterialTypes.filter(
+                                            (id) => id !== material.typeId,
+                                          ),
+                                        );
+                                      }}
+                                    >
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  </div>
 
-                                      const number = parseInt(value);
-                                      const currentNumbers = material.numbers || [];
+                                  <div className="relative">
+                                    <Select
+                                      onValueChange={(value) => {
+                                        if (!value) return;
+
+                                        const number = parseInt(value);
+                                        const currentNumbers = material.numbers || [];
+
+                                        if (!currentNumbers.includes(number)) {
+                                          const updatedMaterials = form.getValues("materials");
+                                          updatedMaterials[index].numbers = [...currentNumbers, number];
+                                          form.setValue("materials", updatedMaterials);
+                                        }
+                                      }}
+                                    >
+                                      <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="Selecteer materiaal nummer" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {availableNumbers.map((number) => (
+                                          <SelectItem 
+                                            key={number} 
+                                            value={number.toString()}
+                                          >
+                                            #{number}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
 
-                                      if (!currentNumbers.includes(number)) {
-                                        const updatedMaterials = form.getValues("materials");
-                                        updatedMaterials[index].numbers = [...currentNumbers, number];
-                                        form.setValue("materials", updatedMaterials);
-                                      }
-                                    }}
-                                  >
-                                    <SelectTrigger className="w-full">
-                                      <SelectValue placeholder="Selecteer materiaal nummer" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {availableNumbers.map((number) => (
-                                        <SelectItem 
-                                          key={number} 
-                                          value={number.toString()}
+                                  {material.numbers && material.numbers.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                      {material.numbers.map((number) => (
+                                        <Badge
+                                          key={number}
+                                          variant="outline"
+                                          className="flex items-center gap-1"
                                         >
                                           #{number}
-                                        </SelectItem>
+                                          <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-3 w-3 p-0 hover:bg-transparent"
+                                            onClick={() => {
+                                              const updatedMaterials = form.getValues("materials");
+                                              updatedMaterials[index].numbers = material.numbers.filter(
+                                                (n) => n !== number
+                                              );
+                                              form.setValue("materials", updatedMaterials);
+                                            }}
+                                          >
+                                            <X className="h-3 w-3" />
+                                          </Button>
+                                        </Badge>
                                       ))}
-                                    </SelectContent>
-                                  </Select>
+                                    </div>
+                                  )}
                                 </div>
-
-                                {material.numbers && material.numbers.length > 0 && (
-                                  <div className="flex flex-wrap gap-2 mt-2">
-                                    {material.numbers.map((number) => (
-                                      <Badge
-                                        key={number}
-                                        variant="outline"
-                                        className="flex items-center gap-1"
-                                      >
-                                        #{number}
-                                        <Button
-                                          type="button"
-                                          variant="ghost"
-                                          size="icon"
-                                          className="h-3 w-3 p-0 hover:bg-transparent"
-                                          onClick={() => {
-                                            const updatedMaterials = form.getValues("materials");
-                                            updatedMaterials[index].numbers = material.numbers.filter(
-                                              (n) => n !== number
-                                            );
-                                            form.setValue("materials", updatedMaterials);
-                                          }}
-                                        >
-                                          <X className="h-3 w-3" />
-                                        </Button>
-                                      </Badge>
-                                    ))}
-                                  </div>
-                                )}
-                              </div>
-                            );
-                          })}
+                              );
+                            })}
+                          </div>
                         </div>
-                      </div>
 
-                      {formError && (
-                        <div className="bg-destructive/10 text-destructive text-sm rounded-lg p-4 mb-4">
-                          <p className="font-medium">Let op!</p>
-                          <p>{formError}</p>
+                        {formError && (
+                          <div className="bg-destructive/10 text-destructive text-sm rounded-lg p-4 mb-4">
+                            <p className="font-medium">Let op!</p>
+                            <p>{formError}</p>
+                          </div>
+                        )}
+
+                        <div className="flex gap-2 justify-end mt-6">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => {
+                              setFormError(null);
+                              form.reset();
+                              setSelectedMaterialTypes([]);
+                              setDialogOpen(false);
+                            }}
+                          >
+                            Annuleren
+                          </Button>
+                          <Button type="submit">
+                            Materiaal Toewijzen
+                          </Button>
                         </div>
-                      )}
-
-                      <div className="flex gap-2 justify-end mt-6">
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={() => {
-                            setFormError(null);
-                            form.reset();
-                            setSelectedMaterialTypes([]);
-                            setDialogOpen(false);
-                          }}
-                        >
-                          Annuleren
-                        </Button>
-                        <Button type="submit">
-                          Materiaal Toewijzen
-                        </Button>
-                      </div>
-                    </form>
-                  </Form>
-                </DialogContent>
-              </Dialog>
+                      </form>
+                    </Form>
+                  </DialogContent>
+                </Dialog>
+              )}
             </div>
           </div>
 
@@ -1123,6 +1125,7 @@ const Materials = () => {
                                   <Button
                                     variant="ghost"
                                     size="icon"
+                                    disabled={!can('materials:checkout')}
                                     onClick={() => handleReturn(item.id)}
                                     className="h-8 w-8 text-[#963E56] hover:text-[#963E56]/90 hover:bg-[#963E56]/10"
                                   >
@@ -1,4 +1,4 @@
-import { Edit } from "lucide-react";
+import { Edit, Clock } from "lucide-react";
 import { PiMosqueLight } from "react-icons/pi";
 import { FaMale, FaFemale, FaPhone, FaEnvelope } from 'react-icons/fa';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,28 +6,89 @@ import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState } from "react";
 import { toast } from "@/hooks/use-toast";
 import { useRole } from "@/hooks/use-role";
+import { useMosqueSettings, type MosqueInfo } from "@/hooks/use-mosque-settings";
+import { PrayerTimesCard } from "@/components/prayer/prayer-times-card";
+import { db } from "@/lib/firebase";
+import { ref, set } from "firebase/database";
+import {
+  ASR_METHODS,
+  ASR_METHOD_LABELS,
+  CALCULATION_METHODS,
+  CALCULATION_METHOD_PARAMS,
+  HIGH_LATITUDE_RULES,
+  HIGH_LATITUDE_RULE_LABELS,
+  prayerTimeSettingsSchema,
+  type AsrMethod,
+  type CalculationMethod,
+  type HighLatitudeRule,
+  type PrayerTimeSettings,
+} from "@shared/prayer-times";
+
+// Coordinates are edited as text so a half-typed "51." is not rejected
+type PrayerTimeDraft = Omit<PrayerTimeSettings, "latitude" | "longitude"> & {
+  latitude: string;
+  longitude: string;
+};
 
 export default function Mosque() {
   const [isEditing, setIsEditing] = useState(false);
-  const { isAdmin } = useRole();
-  const [mosqueInfo, setMosqueInfo] = useState({
-    menAddress: "Sint-Bernardsesteenweg 289",
-    menCity: "2660 Hoboken",
-    womenAddress: "Polostraat 59",
-    womenCity: "2660 Hoboken",
-    phone: "032940611",
-    email: "info@mefen.be"
+  const { can } = useRole();
+  const { info, prayerTimes } = useMosqueSettings();
+  const [mosqueInfo, setMosqueInfo] = useState<MosqueInfo>(info);
+  const [prayerDraft, setPrayerDraft] = useState<PrayerTimeDraft>({
+    ...prayerTimes,
+    latitude: String(prayerTimes.latitude),
+    longitude: String(prayerTimes.longitude),
   });
 
-  const handleSave = () => {
-    setIsEditing(false);
-    toast({
-      title: "Succes",
-      description: "Moskee informatie is bijgewerkt",
+  // Every edit starts from what is saved
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setMosqueInfo(info);
+      setPrayerDraft({
+        ...prayerTimes,
+        latitude: String(prayerTimes.latitude),
+        longitude: String(prayerTimes.longitude),
+      });
+    }
+    setIsEditing(open);
+  };
+
+  const handleSave = async () => {
+    const parsed = prayerTimeSettingsSchema.safeParse({
+      ...prayerDraft,
+      latitude: prayerDraft.latitude.replace(",", "."),
+      longitude: prayerDraft.longitude.replace(",", "."),
     });
+    if (!parsed.success || !prayerDraft.latitude.trim() || !prayerDraft.longitude.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Vul een geldige breedte- en lengtegraad in",
+      });
+      return;
+    }
+
+    try {
+      await set(ref(db, "mosque"), { info: mosqueInfo, prayerTimes: parsed.data });
+      setIsEditing(false);
+      toast({
+        title: "Succes",
+        description: "Moskee informatie is bijgewerkt",
+      });
+    } catch (error) {
+      console.error("Error saving mosque settings:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het opslaan van de moskee informatie",
+      });
+    }
   };
 
   return (
@@ -38,15 +99,15 @@ export default function Mosque() {
           <h1 className="text-3xl font-bold text-[#963E56]">Mijn Moskee</h1>
         </div>
 
-        {isAdmin && (
-          <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        {can('mosque:edit') && (
+          <Dialog open={isEditing} onOpenChange={handleOpenChange}>
             <DialogTrigger asChild>
               <Button variant="outline" className="gap-2 border-[#963E56] text-[#963E56] hover:bg-[#963E56]/10">
                 <Edit className="h-4 w-4" />
                 Bewerken
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle className="text-lg font-semibold text-[#963E56] flex items-center gap-2">
                   <PiMosqueLight className="h-6 w-6" />
@@ -106,6 +167,86 @@ export default function Mosque() {
                       placeholder="Email"
                     />
                   </div>
+                  <div>
+                    <h3 className="font-semibold mb-2 text-gray-700 flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-[#963E56]" />
+                      Gebedstijden
+                    </h3>
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="latitude">Breedtegraad</Label>
+                          <Input
+                            id="latitude"
+                            inputMode="decimal"
+                            value={prayerDraft.latitude}
+                            onChange={(e) => setPrayerDraft({...prayerDraft, latitude: e.target.value})}
+                            placeholder="51.1764"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="longitude">Lengtegraad</Label>
+                          <Input
+                            id="longitude"
+                            inputMode="decimal"
+                            value={prayerDraft.longitude}
+                            onChange={(e) => setPrayerDraft({...prayerDraft, longitude: e.target.value})}
+                            placeholder="4.3477"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Berekeningsmethode</Label>
+                        <Select
+                          value={prayerDraft.method}
+                          onValueChange={(value) => setPrayerDraft({...prayerDraft, method: value as CalculationMethod})}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CALCULATION_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>
+                                {CALCULATION_METHOD_PARAMS[method].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Asr</Label>
+                        <Select
+                          value={prayerDraft.asr}
+                          onValueChange={(value) => setPrayerDraft({...prayerDraft, asr: value as AsrMethod})}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ASR_METHODS.map((asr) => (
+                              <SelectItem key={asr} value={asr}>{ASR_METHOD_LABELS[asr]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Correctie hoge breedtegraad</Label>
+                        <Select
+                          value={prayerDraft.highLatitude}
+                          onValueChange={(value) => setPrayerDraft({...prayerDraft, highLatitude: value as HighLatitudeRule})}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HIGH_LATITUDE_RULES.map((rule) => (
+                              <SelectItem key={rule} value={rule}>{HIGH_LATITUDE_RULE_LABELS[rule]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </div>
                 </div>
                 <Button 
                   onClick={handleSave} 
@@ -134,8 +275,8 @@ export default function Mosque() {
                 <FaMale className="h-5 w-5 text-[#963E56]" />
                 Ingang Heren
               </h3>
-              <p className="text-gray-600 mt-2 pl-7">{mosqueInfo.menAddress}</p>
-              <p className="text-gray-600 pl-7">{mosqueInfo.menCity}</p>
+              <p className="text-gray-600 mt-2 pl-7">{info.menAddress}</p>
+              <p className="text-gray-600 pl-7">{info.menCity}</p>
             </div>
             <Separator className="bg-[#963E56]/10" />
             <div>
@@ -143,8 +284,8 @@ export default function Mosque() {
                 <FaFemale className="h-5 w-5 text-[#963E56]" />
                 Ingang Dames
               </h3>
-              <p className="text-gray-600 mt-2 pl-7">{mosqueInfo.womenAddress}</p>
-              <p className="text-gray-600 pl-7">{mosqueInfo.womenCity}</p>
+              <p className="text-gray-600 mt-2 pl-7">{info.womenAddress}</p>
+              <p className="text-gray-600 pl-7">{info.womenCity}</p>
             </div>
           </CardContent>
         </Card>
@@ -163,7 +304,7 @@ export default function Mosque() {
                 <FaPhone className="h-5 w-5 text-[#963E56]" />
                 Telefoonnummer
               </h3>
-              <p className="text-gray-600 mt-2 pl-7">{mosqueInfo.phone}</p>
+              <p className="text-gray-600 mt-2 pl-7">{info.phone}</p>
             </div>
             <Separator className="bg-[#963E56]/10" />
             <div>
@@ -171,11 +312,13 @@ export default function Mosque() {
                 <FaEnvelope className="h-5 w-5 text-[#963E56]" />
                 Email
               </h3>
-              <p className="text-gray-600 mt-2 pl-7">{mosqueInfo.email}</p>
+              <p className="text-gray-600 mt-2 pl-7">{info.email}</p>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <PrayerTimesCard settings={prayerTimes} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import { Link } from "wouter";
+
+export default function NoAccess() {
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2 items-center">
+            <ShieldAlert className="h-8 w-8 text-[#963E56]" />
+            <h1 className="text-2xl font-bold text-gray-900">Geen toegang</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Je hebt geen toegang tot deze pagina. Neem contact op met een beheerder als je denkt dat dit niet klopt.
+          </p>
+
+          <Link href="/">
+            <Button variant="outline" className="mt-6 border-[#963E56] text-[#963E56] hover:bg-[#963E56]/10">
+              Naar dashboard
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
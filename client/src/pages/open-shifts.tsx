@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { format, parseISO } from "date-fns";
+import { nl } from "date-fns/locale";
+import { db } from "@/lib/firebase";
+import { ref, get, onValue, push, update } from "firebase/database";
+import { useToast } from "@/hooks/use-toast";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import type { ConflictPlanning } from "@shared/conflicts";
+import { shiftLabel } from "@shared/shifts";
+import { acceptsSignUps, freePlaces, signedUp, type OpenShift } from "@shared/open-shifts";
+import { signUpFailure, signUpProblem, signUpUpdates } from "@/lib/open-shifts";
+import type { PublicVolunteer } from "@/lib/public-volunteers";
+import type { SignUpLink } from "@/lib/sign-up-links";
+
+type StoredOpenShift = OpenShift & { id: string };
+
+type Volunteer = PublicVolunteer & { id: string };
+
+type Room = {
+  id: string;
+  name: string;
+};
+
+// Volunteers have no account: they sign up for open shifts through the
+// personal link the coordinator gave them (/shifts/open/<token>)
+export default function OpenShifts() {
+  const { token } = useParams<{ token?: string }>();
+  const [shifts, setShifts] = useState<StoredOpenShift[]>([]);
+  const [plannings, setPlannings] = useState<(ConflictPlanning & { id: string })[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  // undefined while loading, null for an unknown link
+  const [volunteer, setVolunteer] = useState<Volunteer | null | undefined>(token ? undefined : null);
+  const [signingUp, setSigningUp] = useState<string | null>(null);
+  const { prayerTimes } = useMosqueSettings();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!token) return;
+    let unsubName = () => {};
+    const unsubLink = onValue(ref(db, `sign_up_links/${token}`), (snapshot) => {
+      unsubName();
+      const link = snapshot.val() as SignUpLink | null;
+      if (!link) {
+        setVolunteer(null);
+        return;
+      }
+      unsubName = onValue(ref(db, `public_volunteers/${link.volunteerId}`), (name) => {
+        setVolunteer(name.exists() ? { id: link.volunteerId, ...(name.val() as PublicVolunteer) } : null);
+      });
+    }, () => setVolunteer(null));
+
+    return () => {
+      unsubLink();
+      unsubName();
+    };
+  }, [token]);
+
+  useEffect(() => {
+    const unsubShifts = onValue(ref(db, "open_shifts"), (snapshot) => {
+      const data = snapshot.val();
+      setShifts(data ? Object.entries(data).map(([id, shift]) => ({
+        id,
+        ...(shift as OpenShift),
+      })) : []);
+    });
+
+    const unsubPlannings = onValue(ref(db, "plannings"), (snapshot) => {
+      const data = snapshot.val();
+      setPlannings(data ? Object.entries(data).map(([id, planning]) => ({
+        id,
+        ...(planning as ConflictPlanning),
+      })) : []);
+    });
+
+    const unsubRooms = onValue(ref(db, "rooms"), (snapshot) => {
+      const data = snapshot.val();
+      setRooms(data ? Object.entries(data).map(([id, room]) => ({
+        id,
+        ...(room as Omit<Room, "id">),
+      })) : []);
+    });
+
+    return () => {
+      unsubShifts();
+      unsubPlannings();
+      unsubRooms();
+    };
+  }, []);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  // Someone else took the place first, the volunteer already has one from
+  // another tab, or the link was replaced
+  const failureReason = async (shiftId: string, place: string, volunteerId: string) => {
+    try {
+      const [current, link] = await Promise.all([
+        get(ref(db, `open_shifts/${shiftId}`)),
+        get(ref(db, `sign_up_links/${token}`)),
+      ]);
+      return signUpFailure(current.val() as OpenShift | null, place, volunteerId, link.val() as SignUpLink | null, today);
+    } catch {
+      return "Er is een fout opgetreden bij het inschrijven";
+    }
+  };
+
+  const handleSignUp = async (shift: StoredOpenShift) => {
+    if (!volunteer || !token) return;
+    const place = freePlaces(shift)[0];
+    if (!place) return;
+    try {
+      setSigningUp(shift.id);
+      const planningId = push(ref(db, "plannings")).key!;
+      await update(ref(db), signUpUpdates(shift.id, shift, place, volunteer.id, planningId, token));
+      toast({
+        title: "Succes",
+        description: "Je bent ingeschreven en ingepland voor deze dienst"
+      });
+    } catch (error) {
+      console.error("Error signing up for open shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: await failureReason(shift.id, place, volunteer.id),
+      });
+    } finally {
+      setSigningUp(null);
+    }
+  };
+
+  const mine = volunteer
+    ? shifts.filter(shift => shift.date >= today && signedUp(shift).some(place => place.volunteerId === volunteer.id))
+    : [];
+  const open = shifts
+    .filter(shift => acceptsSignUps(shift, today) && !mine.includes(shift))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const describe = (shift: StoredOpenShift) => {
+    const day = parseISO(shift.date);
+    const time = shiftLabel(shift, day, prayerTimes);
+    return (
+      <>
+        <div className="font-medium">{rooms.find(r => r.id === shift.roomId)?.name ?? "Onbekende ruimte"}</div>
+        <div className="text-sm text-gray-600">
+          {format(day, "EEEE d MMMM yyyy", { locale: nl })}
+          {time && <span className="ml-2 text-[#963E56]">{time}</span>}
+        </div>
+        {shift.note && <div className="text-sm text-gray-600 italic">{shift.note}</div>}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-no-repeat bg-cover bg-center relative px-4 py-6 sm:py-8 md:py-12"
+         style={{ backgroundImage: `url('/static/123.jpg')` }}>
+      <div className="absolute inset-0 bg-black/50" />
+
+      <div className="relative z-10 w-full max-w-[600px]">
+        <Card className="bg-white border-0 shadow-2xl overflow-hidden">
+          <CardContent className="p-4 sm:p-6 md:p-8">
+            <div className="text-center mb-6 sm:mb-8">
+              <div className="w-full flex justify-center items-center">
+                <img
+                  src="/static/Naamloos.png"
+                  alt="MEFEN"
+                  className="h-16 sm:h-20 md:h-24 mx-auto mb-3 sm:mb-4"
+                />
+              </div>
+              <h1 className="text-xl sm:text-2xl font-bold text-[#963E56]">
+                Open Diensten
+              </h1>
+              <p className="text-sm sm:text-base text-gray-600 mt-2 px-4">
+                {volunteer
+                  ? `Welkom ${volunteer.firstName}, schrijf je in voor een dienst`
+                  : "Schrijf je in voor een dienst met je persoonlijke link"}
+              </p>
+            </div>
+
+            {volunteer === undefined ? (
+              <div className="text-center text-gray-500 py-6">Laden...</div>
+            ) : volunteer === null ? (
+              <div className="p-6 rounded-lg text-center bg-red-50 border border-red-200 text-red-800">
+                <p className="text-base font-medium">
+                  {token
+                    ? "Deze link is niet (meer) geldig."
+                    : "Open deze pagina met de persoonlijke link die je van de coördinator kreeg."}
+                </p>
+                {token && <p className="text-sm mt-2">Vraag de coördinator om een nieuwe link.</p>}
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {mine.length > 0 && (
+                  <div className="space-y-3">
+                    <h2 className="font-semibold text-[#963E56]">Je bent ingeschreven voor</h2>
+                    {mine.map(shift => (
+                      <div key={shift.id} className="p-4 border rounded-lg bg-[#963E56]/5">
+                        {describe(shift)}
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Kan je toch niet? Laat het de coördinator weten.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <h2 className="font-semibold text-[#963E56]">Beschikbare diensten</h2>
+                  {open.length === 0 ? (
+                    <p className="text-center text-gray-500 py-6">Er zijn geen open diensten</p>
+                  ) : (
+                    open.map(shift => {
+                      const problem = signUpProblem(shift, volunteer, plannings, prayerTimes);
+                      const free = freePlaces(shift).length;
+                      return (
+                        <div key={shift.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                          <div className="space-y-1">
+                            {describe(shift)}
+                            <div className="text-sm">
+                              {free === 1 ? "Nog 1 plaats vrij" : `Nog ${free} plaatsen vrij`}
+                            </div>
+                            {problem && <div className="text-sm text-red-700">{problem}</div>}
+                          </div>
+                          <Button
+                            className="bg-[#963E56] hover:bg-[#963E56]/90"
+                            disabled={!!problem || signingUp !== null}
+                            onClick={() => handleSignUp(shift)}
+                          >
+                            {signingUp === shift.id ? "Bezig..." : "Inschrijven"}
+                          </Button>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="text-center text-xs sm:text-sm text-white/90 mt-4 sm:mt-6 font-medium">
+          MEFEN Vrijwilligers Management Systeem
+        </p>
+      </div>
+    </div>
+  );
+}
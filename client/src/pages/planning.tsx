@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Calendar as CalendarIcon, Search, Trash2, Edit2, ShieldCheck } from "lucide-react";
+import { Calendar as CalendarIcon, Search, Trash2, Edit2, ShieldCheck, Wand2, ArrowLeftRight, LayoutTemplate } from "lucide-react";
 import { format, parseISO, startOfDay } from "date-fns";
 import { nl } from "date-fns/locale";
 import { Card, CardContent } from "@/components/ui/card";
@@ -9,33 +9,63 @@ import { useRole } from "@/hooks/use-role";
 import { db } from "@/lib/firebase";
 import { ref, onValue, remove, push, set, update } from "firebase/database";
 import { PlanningDialog } from "@/components/planning/planning-dialog";
-import { planningSchema, type Planning, type PlanningFormData } from "@/components/planning/planning-form";
+import { planningSchema, emptySchedule, type Planning, type PlanningFormData } from "@/components/planning/planning-form";
+import { SeriesDeleteDialog } from "@/components/planning/series-delete-dialog";
+import { RosterGenerator } from "@/components/planning/roster-generator";
+import { OfferShiftDialog, type ShiftOffer } from "@/components/planning/offer-shift-dialog";
+import { ShiftSwaps, type StoredSwap } from "@/components/planning/shift-swaps";
+import { OpenShifts, type StoredOpenShift } from "@/components/planning/open-shifts";
+import { PlanningTemplates, type StoredTemplate } from "@/components/planning/planning-templates";
+import { upcomingOccurrences } from "@/components/planning/occurrence-scope-fields";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import { PRAYER_LABELS, type PrayerTimeSettings } from "@shared/prayer-times";
+import { shiftLabel } from "@shared/shifts";
+import { describeRecurrence } from "@shared/recurrence";
+import type { RoomStaffing } from "@shared/staffing";
+import type { Availability } from "@shared/availability";
+import { doubleBookedProposals, type ProposedPlanning } from "@shared/roster";
+import { autoApproves, type ShiftSwap, type SwapClaim } from "@shared/swaps";
+import type { OpenShift } from "@shared/open-shifts";
+import type { DraftPlanning, PlanningTemplate } from "@shared/planning-templates";
+import { dayRecord, seriesUpdates, toRecord, type PlanningRecord, type SeriesScope } from "@/lib/planning-series";
+import { formConflicts, replacedResponsibles } from "@/lib/planning-conflicts";
+import { approvalUpdates, claimProblem, offeredPlanning } from "@/lib/shift-swaps";
+import { editUpdates, releaseUpdates } from "@/lib/open-shifts";
+import { logUserAction, UserActionTypes } from "@/lib/activity-logger";
 
 function PlanningPage() {
   const [plannings, setPlannings] = useState<Planning[]>([]);
-  const [volunteers, setVolunteers] = useState<{ id: string; firstName: string; lastName: string; }[]>([]);
-  const [rooms, setRooms] = useState<{ id: string; name: string; }[]>([]);
+  const [volunteers, setVolunteers] = useState<{ id: string; firstName: string; lastName: string; availability?: Availability }[]>([]);
+  const [rooms, setRooms] = useState<{ id: string; name: string; staffing?: RoomStaffing }[]>([]);
   const [searchActive, setSearchActive] = useState("");
   const [searchUpcoming, setSearchUpcoming] = useState("");
   const [searchPast, setSearchPast] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingPlanning, setEditingPlanning] = useState<Planning | null>(null);
+  const [deletingSeries, setDeletingSeries] = useState<Planning | null>(null);
+  const [rosterOpen, setRosterOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [templates, setTemplates] = useState<StoredTemplate[]>([]);
+  const [swaps, setSwaps] = useState<StoredSwap[]>([]);
+  const [offeringPlanning, setOfferingPlanning] = useState<Planning | null>(null);
+  const [openShifts, setOpenShifts] = useState<StoredOpenShift[]>([]);
 
-  const { isAdmin } = useRole();
+  const { can, isAdmin } = useRole();
+  const canWrite = can('planning:write');
+  const { prayerTimes } = useMosqueSettings();
   const { toast } = useToast();
 
   const form = useForm<PlanningFormData>({
     resolver: zodResolver(planningSchema),
     defaultValues: {
+      ...emptySchedule,
       isBulkPlanning: false,
       volunteerId: "",
       roomId: "",
-      startDate: "",
-      endDate: "",
       selectedVolunteers: [],
       selectedRoomId: "",
       isResponsible: false,
@@ -47,6 +77,9 @@ function PlanningPage() {
     const planningsRef = ref(db, "plannings");
     const roomsRef = ref(db, "rooms");
     const volunteersRef = ref(db, "volunteers");
+    const swapsRef = ref(db, "shift_swaps");
+    const openShiftsRef = ref(db, "open_shifts");
+    const templatesRef = ref(db, "planning_templates");
 
     const unsubPlannings = onValue(planningsRef, snapshot => {
       const data = snapshot.val();
@@ -75,71 +108,139 @@ function PlanningPage() {
       setVolunteers(volunteersList);
     });
 
+    const unsubSwaps = onValue(swapsRef, snapshot => {
+      const data = snapshot.val();
+      const swapsList = data ? Object.entries(data).map(([id, swap]: [string, any]) => ({
+        id,
+        ...swap
+      })) : [];
+      setSwaps(swapsList);
+    });
+
+    const unsubOpenShifts = onValue(openShiftsRef, snapshot => {
+      const data = snapshot.val();
+      const openShiftsList = data ? Object.entries(data).map(([id, shift]: [string, any]) => ({
+        id,
+        ...shift
+      })) : [];
+      setOpenShifts(openShiftsList);
+    });
+
+    const unsubTemplates = onValue(templatesRef, snapshot => {
+      const data = snapshot.val();
+      const templatesList = data ? Object.entries(data).map(([id, template]: [string, any]) => ({
+        id,
+        ...template
+      })) : [];
+      setTemplates(templatesList);
+    });
+
     return () => {
       unsubPlannings();
       unsubRooms();
       unsubVolunteers();
+      unsubSwaps();
+      unsubOpenShifts();
+      unsubTemplates();
     };
   }, []);
 
+  const newPlanningKey = () => push(ref(db, "plannings")).key!;
+
+  // A room has one responsible per shift: the new responsible takes over from
+  // whoever shares a day and an overlapping shift with them
+  const demoteResponsibles = async (data: PlanningFormData, roomId: string) => {
+    const replaced = replacedResponsibles(data, roomId, editingPlanning?.id, plannings, prayerTimes);
+    if (replaced.length === 0) return;
+    await update(ref(db), Object.fromEntries(
+      replaced.map(planning => [`plannings/${planning.id}/isResponsible`, false])
+    ));
+  };
+
   const handleSubmit = async (data: PlanningFormData) => {
+    // The form only lets an admin with a reason save a double booking
+    const conflicts = formConflicts(data, editingPlanning?.id, plannings, prayerTimes);
+    const overrideReason = data.overrideReason?.trim();
+    if (conflicts.length > 0 && !(isAdmin && overrideReason)) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Deze planning botst met een bestaande planning"
+      });
+      return;
+    }
+
     try {
       if (data.isBulkPlanning) {
         // Handle bulk planning
         for (const volunteerId of data.selectedVolunteers) {
           if (data.responsibleVolunteerId && data.responsibleVolunteerId === volunteerId) {
-            // Check for existing responsible
-            const existingResponsible = plannings.find(
-              p => p.roomId === data.selectedRoomId &&
-                p.isResponsible &&
-                parseISO(p.startDate) <= parseISO(data.startDate) &&
-                parseISO(p.endDate) >= parseISO(data.startDate)
-            );
-
-            if (existingResponsible) {
-              const prevRef = ref(db, `plannings/${existingResponsible.id}`);
-              await update(prevRef, { isResponsible: false });
-            }
+            await demoteResponsibles(data, data.selectedRoomId);
           }
 
           const newPlanningRef = push(ref(db, "plannings"));
-          await set(newPlanningRef, {
+          await set(newPlanningRef, toRecord(
+            data,
             volunteerId,
-            roomId: data.selectedRoomId,
-            startDate: format(new Date(data.startDate), 'yyyy-MM-dd'),
-            endDate: format(new Date(data.endDate), 'yyyy-MM-dd'),
-            isResponsible: data.responsibleVolunteerId === volunteerId
-          });
+            data.selectedRoomId,
+            data.responsibleVolunteerId === volunteerId,
+          ));
         }
       } else {
         // Handle single planning
         if (data.isResponsible) {
-          // Check for existing responsible
-          const existingResponsible = plannings.find(
-            p => p.roomId === data.roomId &&
-              p.isResponsible &&
-              p.id !== editingPlanning?.id &&
-              parseISO(p.startDate) <= parseISO(data.startDate) &&
-              parseISO(p.endDate) >= parseISO(data.startDate)
-          );
+          await demoteResponsibles(data, data.roomId);
+        }
 
-          if (existingResponsible) {
-            const prevRef = ref(db, `plannings/${existingResponsible.id}`);
-            await update(prevRef, { isResponsible: false });
+        if (editingPlanning?.recurrence && data.editScope) {
+          // Changing all occurrences keeps the days that were skipped
+          const record = toRecord(
+            data,
+            data.volunteerId,
+            data.roomId,
+            data.isResponsible,
+            data.editScope === 'all' ? editingPlanning.recurrence.exceptions : undefined,
+          );
+          await update(ref(db), seriesUpdates(
+            editingPlanning,
+            data.editScope,
+            data.occurrenceDate ?? editingPlanning.startDate,
+            record,
+            newPlanningKey,
+          ));
+        } else {
+          const record = toRecord(data, data.volunteerId, data.roomId, data.isResponsible);
+          const { openShiftId, openShiftPlace } = editingPlanning ?? {};
+          if (editingPlanning && openShiftId && openShiftPlace) {
+            await update(ref(db), editUpdates(
+              { ...editingPlanning, openShiftId, openShiftPlace },
+              record,
+              openShifts.some(s => s.id === openShiftId),
+            ));
+          } else {
+            const planningRef = editingPlanning
+              ? ref(db, `plannings/${editingPlanning.id}`)
+              : push(ref(db, "plannings"));
+            await set(planningRef, record);
           }
         }
+      }
 
-        const planningRef = editingPlanning
-          ? ref(db, `plannings/${editingPlanning.id}`)
-          : push(ref(db, "plannings"));
-
-        await set(planningRef, {
-          volunteerId: data.volunteerId,
-          roomId: data.roomId,
-          startDate: format(new Date(data.startDate), 'yyyy-MM-dd'),
-          endDate: format(new Date(data.endDate), 'yyyy-MM-dd'),
-          isResponsible: data.isResponsible
+      if (conflicts.length > 0) {
+        const doubleBookings = conflicts.map(({ planning, date }) => {
+          const volunteer = volunteers.find(v => v.id === planning.volunteerId);
+          const room = rooms.find(r => r.id === planning.roomId);
+          return `${volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : planning.volunteerId} ook in ${room?.name ?? planning.roomId} op ${format(parseISO(date), 'd MMM yyyy', { locale: nl })}`;
         });
+        await logUserAction(
+          UserActionTypes.PLANNING_CONFLICT_OVERRIDE,
+          `${doubleBookings.join("; ")}. Reden: ${overrideReason}`,
+          {
+            type: "schedule",
+            id: editingPlanning?.id,
+            category: editingPlanning ? "update" : "create"
+          }
+        );
       }
 
       toast({
@@ -160,9 +261,17 @@ function PlanningPage() {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  // A planning made from an open shift gives its place back
+  const deleteUpdates = (planning: Planning): Record<string, unknown> => {
+    const shift = planning.openShiftId && openShifts.find(s => s.id === planning.openShiftId);
+    return shift && planning.openShiftPlace
+      ? releaseUpdates(shift.id, planning.openShiftPlace, planning.id, planning.volunteerId)
+      : { [`plannings/${planning.id}`]: null };
+  };
+
+  const handleDelete = async (planning: Planning) => {
     try {
-      await remove(ref(db, `plannings/${id}`));
+      await update(ref(db), deleteUpdates(planning));
       toast({
         title: "Succes",
         description: "Planning is verwijderd"
@@ -177,12 +286,338 @@ function PlanningPage() {
     }
   };
 
-  const handleBulkDelete = async (plannings: Planning[]) => {
+  const handleSeriesDelete = async (planning: Planning, scope: SeriesScope, date: string) => {
+    try {
+      await update(ref(db), seriesUpdates(planning, scope, date, null, newPlanningKey));
+      toast({
+        title: "Succes",
+        description: "Planning is verwijderd"
+      });
+    } catch (error) {
+      console.error("Error deleting planning:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het verwijderen van de planning"
+      });
+    }
+  };
+
+  const startEditing = (planning: Planning) => {
+    const { recurrence } = planning;
+    setEditingPlanning(planning);
+    form.reset({
+      ...emptySchedule,
+      isBulkPlanning: false,
+      volunteerId: planning.volunteerId,
+      roomId: planning.roomId,
+      startDate: planning.startDate,
+      endDate: planning.endDate,
+      startTime: planning.startTime ?? "",
+      endTime: planning.endTime ?? "",
+      isResponsible: planning.isResponsible,
+      prayer: planning.prayer,
+      recurring: !!recurrence,
+      weekdays: recurrence?.weekdays ?? [],
+      interval: recurrence?.interval ?? 1,
+      endType: recurrence?.count ? "count" : "until",
+      until: recurrence?.until ?? "",
+      count: recurrence?.count,
+      editScope: recurrence ? "this" : undefined,
+      occurrenceDate: recurrence ? upcomingOccurrences(planning)[0] : undefined,
+    });
+    setDialogOpen(true);
+  };
+
+  // A recurring planning first asks which occurrences to remove
+  const confirmDelete = (planning: Planning) => {
+    if (planning.recurrence) {
+      setDeletingSeries(planning);
+    } else {
+      handleDelete(planning);
+    }
+  };
+
+  // Plannings reviewed in the roster generator or a template are saved at
+  // once; as in the form, only an admin with a reason may double-book
+  const reviewedDoubleBookings = (drafts: DraftPlanning[], overrideReason?: string) => {
+    const doubleBooked = Array.from(doubleBookedProposals(drafts, plannings, prayerTimes), index => drafts[index]);
+    if (doubleBooked.length > 0 && !(isAdmin && overrideReason)) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er worden vrijwilligers dubbel ingepland"
+      });
+      throw new Error("Reviewed plannings double-book volunteers");
+    }
+    return doubleBooked;
+  };
+
+  const logReviewedDoubleBookings = async (doubleBooked: DraftPlanning[], overrideReason?: string) => {
+    if (doubleBooked.length === 0) return;
+    const doubleBookings = doubleBooked.map(draft => {
+      const volunteer = volunteers.find(v => v.id === draft.volunteerId);
+      const room = rooms.find(r => r.id === draft.roomId);
+      return `${volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : draft.volunteerId} in ${room?.name ?? draft.roomId} op ${format(parseISO(draft.date), 'd MMM yyyy', { locale: nl })}`;
+    });
+    await logUserAction(
+      UserActionTypes.PLANNING_CONFLICT_OVERRIDE,
+      `${doubleBookings.join("; ")}. Reden: ${overrideReason}`,
+      { type: "schedule", category: "create" }
+    );
+  };
+
+  // Open places are not saved as plannings; the log records which ones were
+  // left out and the toast says how many
+  const openPlacesDetails = (openPlaces: DraftPlanning[]) => {
+    if (openPlaces.length === 0) return "";
+    const counts = new Map<string, number>();
+    for (const place of openPlaces) {
+      const room = rooms.find(r => r.id === place.roomId);
+      const label = `${room?.name ?? place.roomId} op ${format(parseISO(place.date), 'd MMM yyyy', { locale: nl })}`;
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+    const labels = Array.from(counts, ([label, count]) => count > 1 ? `${label} (${count})` : label);
+    return `. Niet ingevuld en niet opgeslagen: ${labels.join("; ")}`;
+  };
+
+  const savedDescription = (saved: number, open: number) =>
+    `${saved} planningen zijn opgeslagen` +
+    (open > 0 ? `, ${open} ${open === 1 ? "open plaats is" : "open plaatsen zijn"} vervallen` : "");
+
+  // All plannings of a reviewed roster are written in one update
+  const handleRosterCommit = async (proposals: ProposedPlanning[], openPlaces: ProposedPlanning[], overrideReason?: string) => {
+    const doubleBooked = reviewedDoubleBookings(proposals, overrideReason);
     try {
-      const deletePromises = plannings.map(planning =>
-        remove(ref(db, `plannings/${planning.id}`))
+      const updates: Record<string, PlanningRecord> = {};
+      for (const proposal of proposals) {
+        updates[`plannings/${newPlanningKey()}`] = dayRecord({ ...proposal, volunteerId: proposal.volunteerId! });
+      }
+      await update(ref(db), updates);
+
+      const dates = proposals.map(proposal => proposal.date).sort();
+      await logUserAction(
+        UserActionTypes.PLANNING_ROSTER_GENERATE,
+        `${proposals.length} planningen van ${dates[0]} tot ${dates[dates.length - 1]}${openPlacesDetails(openPlaces)}`,
+        { type: "schedule", category: "create" }
       );
-      await Promise.all(deletePromises);
+      await logReviewedDoubleBookings(doubleBooked, overrideReason);
+      toast({
+        title: "Succes",
+        description: savedDescription(proposals.length, openPlaces.length)
+      });
+    } catch (error) {
+      console.error("Error saving roster:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het opslaan van het rooster"
+      });
+      throw error;
+    }
+  };
+
+  const handleSaveTemplate = async (template: PlanningTemplate, id?: string) => {
+    try {
+      const templateId = id ?? push(ref(db, "planning_templates")).key!;
+      await set(ref(db, `planning_templates/${templateId}`), template);
+      await logUserAction(UserActionTypes.PLANNING_TEMPLATE_SAVE, template.name, {
+        type: "schedule",
+        id: templateId,
+        category: id ? "update" : "create"
+      });
+      toast({
+        title: "Succes",
+        description: "Het sjabloon is opgeslagen"
+      });
+    } catch (error) {
+      console.error("Error saving planning template:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het opslaan van het sjabloon"
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteTemplate = async (template: StoredTemplate) => {
+    try {
+      await remove(ref(db, `planning_templates/${template.id}`));
+      await logUserAction(UserActionTypes.PLANNING_TEMPLATE_DELETE, template.name, {
+        type: "schedule",
+        id: template.id,
+        category: "delete"
+      });
+    } catch (error) {
+      console.error("Error deleting planning template:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het verwijderen van het sjabloon"
+      });
+    }
+  };
+
+  // The drafts the coordinator filled are saved in one update
+  const handleTemplateCommit = async (template: StoredTemplate, drafts: DraftPlanning[], openPlaces: DraftPlanning[], overrideReason?: string) => {
+    const doubleBooked = reviewedDoubleBookings(drafts, overrideReason);
+    try {
+      const updates: Record<string, PlanningRecord> = {};
+      for (const draft of drafts) {
+        updates[`plannings/${newPlanningKey()}`] = dayRecord({ ...draft, volunteerId: draft.volunteerId! });
+      }
+      await update(ref(db), updates);
+
+      const dates = drafts.map(draft => draft.date).sort();
+      await logUserAction(
+        UserActionTypes.PLANNING_TEMPLATE_APPLY,
+        `${template.name}: ${drafts.length} planningen van ${dates[0]} tot ${dates[dates.length - 1]}${openPlacesDetails(openPlaces)}`,
+        { type: "schedule", id: template.id, category: "create" }
+      );
+      await logReviewedDoubleBookings(doubleBooked, overrideReason);
+      toast({
+        title: "Succes",
+        description: savedDescription(drafts.length, openPlaces.length)
+      });
+    } catch (error) {
+      console.error("Error applying planning template:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het opslaan van de planningen"
+      });
+      throw error;
+    }
+  };
+
+  const volunteerName = (id: string) => {
+    const volunteer = volunteers.find(v => v.id === id);
+    return volunteer ? `${volunteer.firstName} ${volunteer.lastName}` : "Onbekende vrijwilliger";
+  };
+
+  const swapSummary = (swap: ShiftSwap) => {
+    const planning = plannings.find(p => p.id === swap.planningId);
+    const room = rooms.find(r => r.id === planning?.roomId);
+    return `${volunteerName(swap.volunteerId)}, ${room?.name ?? "onbekende ruimte"} op ${format(parseISO(swap.date), 'd MMM yyyy', { locale: nl })}`;
+  };
+
+  const handleOffer = async (planning: Planning, offer: ShiftOffer) => {
+    const swap: ShiftSwap = {
+      planningId: planning.id,
+      date: offer.date,
+      volunteerId: planning.volunteerId,
+      kind: offer.kind,
+      ...(offer.note ? { note: offer.note } : {}),
+      status: "open",
+      offeredAt: new Date().toISOString(),
+    };
+    try {
+      await push(ref(db, "shift_swaps"), swap);
+      await logUserAction(UserActionTypes.PLANNING_SWAP_OFFER, swapSummary(swap), {
+        type: "schedule",
+        id: planning.id,
+        category: "update"
+      });
+      toast({
+        title: "Succes",
+        description: "De dienst is aangeboden"
+      });
+    } catch (error) {
+      console.error("Error offering shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het aanbieden van de dienst"
+      });
+      throw error;
+    }
+  };
+
+  // A claim that needs no review is carried out right away
+  const handleClaim = async (swap: StoredSwap, claim: SwapClaim) => {
+    const problem = claimProblem(swap, claim, plannings, volunteers, prayerTimes);
+    if (problem) {
+      toast({ variant: "destructive", title: "Fout", description: problem });
+      return;
+    }
+    const approved = autoApproves(swap, offeredPlanning(swap, plannings)!);
+    try {
+      await update(ref(db), approved
+        ? approvalUpdates(swap.id, swap, claim, plannings, newPlanningKey)
+        : { [`shift_swaps/${swap.id}/claim`]: claim, [`shift_swaps/${swap.id}/status`]: "claimed" });
+      await logUserAction(
+        approved ? UserActionTypes.PLANNING_SWAP_APPROVE : UserActionTypes.PLANNING_SWAP_CLAIM,
+        `${swapSummary(swap)} door ${volunteerName(claim.volunteerId)}${approved ? " (automatisch goedgekeurd)" : ""}`,
+        { type: "schedule", id: swap.planningId, category: "update" }
+      );
+      toast({
+        title: "Succes",
+        description: approved ? "De dienst is overgenomen" : "De overname wacht op goedkeuring van een beheerder"
+      });
+    } catch (error) {
+      console.error("Error claiming shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het overnemen van de dienst"
+      });
+      throw error;
+    }
+  };
+
+  const handleSwapDecision = async (swap: StoredSwap, approve: boolean) => {
+    const claim = swap.claim!;
+    const problem = approve && claimProblem(swap, claim, plannings, volunteers, prayerTimes);
+    if (problem) {
+      toast({ variant: "destructive", title: "Fout", description: problem });
+      return;
+    }
+    try {
+      // A rejected claim puts the shift back on offer
+      await update(ref(db), approve
+        ? approvalUpdates(swap.id, swap, claim, plannings, newPlanningKey)
+        : { [`shift_swaps/${swap.id}/claim`]: null, [`shift_swaps/${swap.id}/status`]: "open" });
+      await logUserAction(
+        approve ? UserActionTypes.PLANNING_SWAP_APPROVE : UserActionTypes.PLANNING_SWAP_REJECT,
+        `${swapSummary(swap)} door ${volunteerName(claim.volunteerId)}`,
+        { type: "schedule", id: swap.planningId, category: "update" }
+      );
+      toast({
+        title: "Succes",
+        description: approve ? "De overname is goedgekeurd" : "De overname is afgewezen"
+      });
+    } catch (error) {
+      console.error("Error deciding on shift swap:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het verwerken van de overname"
+      });
+    }
+  };
+
+  const handleSwapCancel = async (swap: StoredSwap) => {
+    try {
+      await update(ref(db, `shift_swaps/${swap.id}`), { status: "cancelled" });
+      await logUserAction(UserActionTypes.PLANNING_SWAP_CANCEL, swapSummary(swap), {
+        type: "schedule",
+        id: swap.planningId,
+        category: "update"
+      });
+    } catch (error) {
+      console.error("Error cancelling shift swap:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het intrekken van het aanbod"
+      });
+    }
+  };
+
+  const handleBulkDelete = async (plannings: Planning[]) => {
+    try {
+      await update(ref(db), Object.assign({}, ...plannings.map(deleteUpdates)));
       toast({
         title: "Succes",
         description: "Planningen zijn verwijderd"
@@ -197,6 +632,94 @@ function PlanningPage() {
     }
   };
 
+  const openShiftSummary = (shift: OpenShift) => {
+    const room = rooms.find(r => r.id === shift.roomId);
+    return `${room?.name ?? "Onbekende ruimte"} op ${format(parseISO(shift.date), 'd MMM yyyy', { locale: nl })}`;
+  };
+
+  const handlePublishOpenShift = async (shift: OpenShift) => {
+    try {
+      const shiftRef = await push(ref(db, "open_shifts"), shift);
+      await logUserAction(
+        UserActionTypes.OPEN_SHIFT_PUBLISH,
+        `${openShiftSummary(shift)}, ${Object.keys(shift.places).length} plaatsen`,
+        { type: "open_shift", id: shiftRef.key!, category: "create" }
+      );
+      toast({
+        title: "Succes",
+        description: "De open dienst is gepubliceerd"
+      });
+    } catch (error) {
+      console.error("Error publishing open shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het publiceren van de open dienst"
+      });
+      throw error;
+    }
+  };
+
+  const handleCloseOpenShift = async (shift: StoredOpenShift) => {
+    try {
+      await update(ref(db, `open_shifts/${shift.id}`), { closed: true });
+      await logUserAction(UserActionTypes.OPEN_SHIFT_CLOSE, openShiftSummary(shift), {
+        type: "open_shift",
+        id: shift.id,
+        category: "update"
+      });
+    } catch (error) {
+      console.error("Error closing open shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het sluiten van de open dienst"
+      });
+    }
+  };
+
+  // Who signed up stays planned; only the shift itself goes
+  const handleDeleteOpenShift = async (shift: StoredOpenShift) => {
+    try {
+      await remove(ref(db, `open_shifts/${shift.id}`));
+      await logUserAction(UserActionTypes.OPEN_SHIFT_DELETE, openShiftSummary(shift), {
+        type: "open_shift",
+        id: shift.id,
+        category: "delete"
+      });
+    } catch (error) {
+      console.error("Error deleting open shift:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het verwijderen van de open dienst"
+      });
+    }
+  };
+
+  const handleReleasePlace = async (shift: StoredOpenShift, place: string, planningId?: string) => {
+    const volunteerId = shift.places[place]?.volunteerId;
+    try {
+      await update(ref(db), releaseUpdates(shift.id, place, planningId, volunteerId));
+      await logUserAction(
+        UserActionTypes.OPEN_SHIFT_RELEASE,
+        `${volunteerId ? volunteerName(volunteerId) : "Onbekende vrijwilliger"}, ${openShiftSummary(shift)}`,
+        { type: "open_shift", id: shift.id, category: "update" }
+      );
+      toast({
+        title: "Succes",
+        description: "De plaats is weer vrij"
+      });
+    } catch (error) {
+      console.error("Error releasing open shift place:", error);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden bij het vrijgeven van de plaats"
+      });
+    }
+  };
+
   const now = useMemo(() => {
     const date = new Date();
     date.setHours(0, 0, 0, 0);
@@ -291,20 +814,100 @@ function PlanningPage() {
         </Card>
       </div>
 
-      <div className="flex justify-end">
-        <PlanningDialog
-          key="planning-dialog"
-          open={dialogOpen}
-          onOpenChange={setDialogOpen}
-          editingPlanning={editingPlanning}
-          form={form}
-          onSubmit={handleSubmit}
+      {canWrite && (
+        <div className="flex justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setTemplatesOpen(true)}
+            className="gap-2 border-[#963E56]/30 text-[#963E56] hover:bg-[#963E56]/5 rounded-lg py-2.5"
+          >
+            <LayoutTemplate className="h-5 w-5" />
+            <span>Sjablonen</span>
+          </Button>
+          <PlanningTemplates
+            open={templatesOpen}
+            onOpenChange={setTemplatesOpen}
+            templates={templates}
+            volunteers={volunteers}
+            rooms={rooms}
+            plannings={plannings}
+            prayerTimes={prayerTimes}
+            canOverride={isAdmin}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+            onCommit={handleTemplateCommit}
+          />
+          <Button
+            variant="outline"
+            onClick={() => setRosterOpen(true)}
+            className="gap-2 border-[#963E56]/30 text-[#963E56] hover:bg-[#963E56]/5 rounded-lg py-2.5"
+          >
+            <Wand2 className="h-5 w-5" />
+            <span>Rooster genereren</span>
+          </Button>
+          <RosterGenerator
+            open={rosterOpen}
+            onOpenChange={setRosterOpen}
+            volunteers={volunteers}
+            rooms={rooms}
+            plannings={plannings}
+            prayerTimes={prayerTimes}
+            canOverride={isAdmin}
+            onCommit={handleRosterCommit}
+          />
+          <PlanningDialog
+            key="planning-dialog"
+            open={dialogOpen}
+            onOpenChange={setDialogOpen}
+            editingPlanning={editingPlanning}
+            form={form}
+            onSubmit={handleSubmit}
+            volunteers={volunteers}
+            rooms={rooms}
+            plannings={plannings}
+            prayerTimes={prayerTimes}
+          />
+          <SeriesDeleteDialog
+            planning={deletingSeries}
+            onClose={() => setDeletingSeries(null)}
+            onDelete={(scope, date) => handleSeriesDelete(deletingSeries!, scope, date)}
+          />
+          <OfferShiftDialog
+            planning={offeringPlanning}
+            volunteerName={offeringPlanning ? volunteerName(offeringPlanning.volunteerId) : ""}
+            onClose={() => setOfferingPlanning(null)}
+            onOffer={(offer) => handleOffer(offeringPlanning!, offer)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <ShiftSwaps
+          swaps={swaps}
+          plannings={plannings}
+          volunteers={volunteers}
+          rooms={rooms}
+          prayerTimes={prayerTimes}
+          canWrite={canWrite}
+          canApprove={isAdmin}
+          onClaim={handleClaim}
+          onApprove={(swap) => handleSwapDecision(swap, true)}
+          onReject={(swap) => handleSwapDecision(swap, false)}
+          onCancel={handleSwapCancel}
+        />
+
+        <OpenShifts
+          shifts={openShifts}
           volunteers={volunteers}
           rooms={rooms}
+          prayerTimes={prayerTimes}
+          canManage={isAdmin}
+          onPublish={handlePublishOpenShift}
+          onClose={handleCloseOpenShift}
+          onDelete={handleDeleteOpenShift}
+          onRelease={handleReleasePlace}
         />
-      </div>
 
-      <div className="space-y-4">
         <div className="rounded-lg border bg-card p-4">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-[#963E56]">Actieve Planningen</h2>
@@ -318,7 +921,7 @@ function PlanningPage() {
                   className="pl-9"
                 />
               </div>
-              {activePlannings.length > 0 && (
+              {canWrite && activePlannings.length > 0 && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -347,19 +950,10 @@ function PlanningPage() {
                   planning={planning}
                   volunteer={volunteers.find(v => v.id === planning.volunteerId)}
                   room={rooms.find(r => r.id === planning.roomId)}
-                  onEdit={() => {
-                    setEditingPlanning(planning);
-                    form.reset({
-                      isBulkPlanning: false,
-                      volunteerId: planning.volunteerId,
-                      roomId: planning.roomId,
-                      startDate: planning.startDate,
-                      endDate: planning.endDate,
-                      isResponsible: planning.isResponsible,
-                    });
-                    setDialogOpen(true);
-                  }}
-                  onDelete={() => handleDelete(planning.id)}
+                  prayerTimes={prayerTimes}
+                  onEdit={canWrite ? () => startEditing(planning) : undefined}
+                  onOffer={canWrite ? () => setOfferingPlanning(planning) : undefined}
+                  onDelete={canWrite ? () => confirmDelete(planning) : undefined}
                 />
               ))}
             </div>
@@ -379,7 +973,7 @@ function PlanningPage() {
                   className="pl-9"
                 />
               </div>
-              {upcomingPlannings.length > 0 && (
+              {canWrite && upcomingPlannings.length > 0 && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -408,19 +1002,10 @@ function PlanningPage() {
                   planning={planning}
                   volunteer={volunteers.find(v => v.id === planning.volunteerId)}
                   room={rooms.find(r => r.id === planning.roomId)}
-                  onEdit={() => {
-                    setEditingPlanning(planning);
-                    form.reset({
-                      isBulkPlanning: false,
-                      volunteerId: planning.volunteerId,
-                      roomId: planning.roomId,
-                      startDate: planning.startDate,
-                      endDate: planning.endDate,
-                      isResponsible: planning.isResponsible,
-                    });
-                    setDialogOpen(true);
-                  }}
-                  onDelete={() => handleDelete(planning.id)}
+                  prayerTimes={prayerTimes}
+                  onEdit={canWrite ? () => startEditing(planning) : undefined}
+                  onOffer={canWrite ? () => setOfferingPlanning(planning) : undefined}
+                  onDelete={canWrite ? () => confirmDelete(planning) : undefined}
                 />
               ))}
             </div>
@@ -440,7 +1025,7 @@ function PlanningPage() {
                   className="pl-9"
                 />
               </div>
-              {pastPlannings.length > 0 && (
+              {canWrite && pastPlannings.length > 0 && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -469,7 +1054,8 @@ function PlanningPage() {
                   planning={planning}
                   volunteer={volunteers.find(v => v.id === planning.volunteerId)}
                   room={rooms.find(r => r.id === planning.roomId)}
-                  onDelete={() => handleDelete(planning.id)}
+                  prayerTimes={prayerTimes}
+                  onDelete={canWrite ? () => confirmDelete(planning) : undefined}
                 />
               ))}
             </div>
@@ -484,17 +1070,27 @@ interface PlanningItemProps {
   planning: Planning;
   volunteer?: { firstName: string; lastName: string };
   room?: { name: string };
+  prayerTimes: PrayerTimeSettings;
   onEdit?: () => void;
-  onDelete: () => void;
+  // Lets another volunteer take over one of the days
+  onOffer?: () => void;
+  onDelete?: () => void;
 }
 
 const PlanningItem: React.FC<PlanningItemProps> = ({
   planning,
   volunteer,
   room,
+  prayerTimes,
   onEdit,
+  onOffer,
   onDelete
 }) => {
+  // The time of a prayer differs per day, so it is only shown for a single day
+  const timeLabel = planning.startTime || planning.startDate === planning.endDate
+    ? shiftLabel(planning, parseISO(planning.startDate), prayerTimes)
+    : planning.prayer ? PRAYER_LABELS[planning.prayer] : null;
+
   return (
     <div className="flex items-center justify-between p-4 border rounded-lg bg-background">
       <div className="space-y-1">
@@ -515,8 +1111,17 @@ const PlanningItem: React.FC<PlanningItemProps> = ({
           {room?.name || 'Onbekende ruimte'}
         </div>
         <div className="text-sm text-muted-foreground">
-          {format(parseISO(planning.startDate), 'd MMM yyyy', { locale: nl })} -&nbsp;
-          {format(parseISO(planning.endDate), 'd MMM yyyy', { locale: nl })}
+          {planning.recurrence ? (
+            describeRecurrence(planning.recurrence, date => format(parseISO(date), 'd MMM yyyy', { locale: nl }))
+          ) : (
+            <>
+              {format(parseISO(planning.startDate), 'd MMM yyyy', { locale: nl })} -&nbsp;
+              {format(parseISO(planning.endDate), 'd MMM yyyy', { locale: nl })}
+            </>
+          )}
+          {timeLabel && (
+            <span className="ml-2 text-[#963E56]">{timeLabel}</span>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-2">
@@ -529,13 +1134,25 @@ const PlanningItem: React.FC<PlanningItemProps> = ({
             <Edit2 className="h-4 w-4" />
           </Button>
         )}
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={onDelete}
-        >
-          <Trash2 className="h-4 w-4" />
-        </Button>
+        {onOffer && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onOffer}
+            title="Dienst aanbieden"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+        )}
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDelete}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
       </div>
     </div>
   );
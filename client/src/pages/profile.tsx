@@ -5,6 +5,7 @@ import { useToast } from "@/hooks/use-toast";
 import { auth } from "@/lib/firebase";
 import { updateProfile } from "firebase/auth";
 import { useRole } from "@/hooks/use-role";
+import { ROLE_LABELS } from "@/lib/roles";
 import {
   Card,
   CardContent,
@@ -17,7 +18,7 @@ import { User, Shield, Mail, Clock, Key, Save } from "lucide-react";
 export default function Profile() {
   const { toast } = useToast();
   const currentUser = auth.currentUser;
-  const { isAdmin } = useRole();
+  const { role } = useRole();
   const [displayName, setDisplayName] = useState(currentUser?.displayName || "");
 
   const handleUpdateProfile = async () => {
@@ -111,7 +112,7 @@ export default function Profile() {
               <div>
                 <h3 className="font-medium">Rol</h3>
                 <p className="text-sm text-gray-600">
-                  {isAdmin ? "Administrator" : "Gebruiker"}
+                  {role ? ROLE_LABELS[role] : "Gebruiker"}
                 </p>
               </div>
             </div>
@@ -1,11 +1,16 @@
 import { useState, useEffect } from "react";
-import { format, startOfWeek, addDays, parseISO, isSameDay, isWithinInterval } from "date-fns";
+import { format, startOfWeek, addDays } from "date-fns";
 import { nl } from "date-fns/locale";
 import { db } from "@/lib/firebase";
 import { ref, onValue } from "firebase/database";
 import { GiWalkieTalkie } from "react-icons/gi";
 import { UserCircle2 } from "lucide-react";
 import classNames from "classnames";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import type { Prayer } from "@shared/prayer-times";
+import { compareShifts, shiftLabel } from "@shared/shifts";
+import { occursOn, type Recurrence } from "@shared/recurrence";
+import type { PublicVolunteer } from "@/lib/public-volunteers";
 
 type Planning = {
   id: string;
@@ -13,7 +18,11 @@ type Planning = {
   roomId: string;
   startDate: string;
   endDate: string;
+  startTime?: string;
+  endTime?: string;
+  prayer?: Prayer;
   isResponsible?: boolean;
+  recurrence?: Recurrence;
 };
 
 type Room = {
@@ -22,10 +31,8 @@ type Room = {
   channel?: string;
 };
 
-type Volunteer = {
+type Volunteer = PublicVolunteer & {
   id: string;
-  firstName: string;
-  lastName: string;
 };
 
 export default function PublicCalendar() {
@@ -33,6 +40,7 @@ export default function PublicCalendar() {
   const [rooms, setRooms] = useState<Room[]>([]);
   const [volunteers, setVolunteers] = useState<Volunteer[]>([]);
   const [currentWeek] = useState(new Date());
+  const { prayerTimes } = useMosqueSettings();
 
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
   const weekDays = Array.from({ length: 7 }).map((_, i) => addDays(weekStart, i));
@@ -58,7 +66,7 @@ export default function PublicCalendar() {
       setRooms(roomsList);
     });
 
-    const volunteersRef = ref(db, "volunteers");
+    const volunteersRef = ref(db, "public_volunteers");
     onValue(volunteersRef, (snapshot) => {
       const data = snapshot.val();
       const volunteersList = data ? Object.entries(data).map(([id, volunteer]) => ({
@@ -70,15 +78,7 @@ export default function PublicCalendar() {
   }, []);
 
   const getPlanningsForDay = (day: Date) => {
-    return plannings.filter(planning => {
-      const planningStart = parseISO(planning.startDate);
-      const planningEnd = parseISO(planning.endDate);
-
-      return isWithinInterval(day, {
-        start: planningStart,
-        end: planningEnd
-      }) || isSameDay(day, planningStart) || isSameDay(day, planningEnd);
-    });
+    return plannings.filter(planning => occursOn(planning, day));
   };
 
   const getPlanningsByRoom = (day: Date) => {
@@ -88,13 +88,7 @@ export default function PublicCalendar() {
     rooms.forEach(room => {
       const roomPlannings = dayPlannings.filter(p => p.roomId === room.id);
       if (roomPlannings.length > 0) {
-        // Sort plannings to put responsible volunteer first
-        const sortedPlannings = [...roomPlannings].sort((a, b) => {
-          if (a.isResponsible) return -1;
-          if (b.isResponsible) return 1;
-          return 0;
-        });
-        planningsByRoom.set(room.id, sortedPlannings);
+        planningsByRoom.set(room.id, [...roomPlannings].sort(compareShifts(day, prayerTimes)));
       }
     });
 
@@ -158,6 +152,7 @@ export default function PublicCalendar() {
                         <div className="space-y-2 pl-2">
                           {roomPlannings.map(planning => {
                             const volunteer = volunteers.find(v => v.id === planning.volunteerId);
+                            const time = shiftLabel(planning, day, prayerTimes);
                             return (
                               <div
                                 key={planning.id}
@@ -169,7 +164,7 @@ export default function PublicCalendar() {
                                 <div className="font-medium flex items-center gap-1.5">
                                   <span>
                                     {volunteer
-                                      ? `${volunteer.firstName} ${volunteer.lastName[0]}.`
+                                      ? `${volunteer.firstName} ${volunteer.lastInitial}.`
                                       : 'Niet toegewezen'
                                     }
                                   </span>
@@ -177,6 +172,9 @@ export default function PublicCalendar() {
                                     <UserCircle2 className="h-4 w-4 shrink-0 text-[#963E56]" />
                                   )}
                                 </div>
+                                {time && (
+                                  <div className="text-xs text-gray-500 mt-0.5">{time}</div>
+                                )}
                               </div>
                             );
                           })}
@@ -240,6 +238,7 @@ export default function PublicCalendar() {
                         <div className="space-y-2 pl-2">
                           {roomPlannings.map(planning => {
                             const volunteer = volunteers.find(v => v.id === planning.volunteerId);
+                            const time = shiftLabel(planning, day, prayerTimes);
                             return (
                               <div
                                 key={planning.id}
@@ -251,7 +250,7 @@ export default function PublicCalendar() {
                                 <div className="font-medium flex items-center gap-1.5">
                                   <span>
                                     {volunteer
-                                      ? `${volunteer.firstName} ${volunteer.lastName[0]}.`
+                                      ? `${volunteer.firstName} ${volunteer.lastInitial}.`
                                       : 'Niet toegewezen'
                                     }
                                   </span>
@@ -259,6 +258,9 @@ export default function PublicCalendar() {
                                     <UserCircle2 className="h-4 w-4 shrink-0 text-[#963E56]" />
                                   )}
                                 </div>
+                                {time && (
+                                  <div className="text-xs text-gray-500 mt-0.5">{time}</div>
+                                )}
                               </div>
                             );
                           })}
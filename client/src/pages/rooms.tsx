@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -25,8 +27,10 @@ import { z } from "zod";
 import { db } from "@/lib/firebase";
 import { ref, push, remove, update, onValue } from "firebase/database";
 import { House, Settings2 } from "lucide-react"; 
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useRole } from "@/hooks/use-role";
+import { StaffingFields, staffingFormSchema, staffingFormValues, toStaffing } from "@/components/rooms/staffing-fields";
+import type { RoomStaffing } from "@shared/staffing";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Tooltip,
@@ -42,9 +46,31 @@ import {
 
 const roomSchema = z.object({
   name: z.string().min(1, "Ruimtenaam is verplicht"),
+  sufuf: z.boolean(),
+  sufufOrder: z.coerce.number().int().min(0, "Minimaal 0"),
+  imamLabel: z.string().max(64, "Maximaal 64 tekens").optional(),
+  staffing: staffingFormSchema,
 });
 
-type Room = z.infer<typeof roomSchema> & { id: string };
+type RoomFormData = z.infer<typeof roomSchema>;
+
+// Rooms created before the Sufuf settings existed lack those fields
+type Room = {
+  id: string;
+  name: string;
+  sufuf?: boolean;
+  sufufOrder?: number;
+  imamLabel?: string;
+  staffing?: RoomStaffing;
+};
+
+const emptyRoom: RoomFormData = {
+  name: "",
+  sufuf: false,
+  sufufOrder: 0,
+  imamLabel: "",
+  staffing: staffingFormValues(),
+};
 
 export default function Rooms() {
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -53,13 +79,12 @@ export default function Rooms() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const { toast } = useToast();
-  const { isAdmin } = useRole();
+  const { can } = useRole();
+  const canManage = can('rooms:manage');
 
-  const form = useForm<z.infer<typeof roomSchema>>({
+  const form = useForm<RoomFormData>({
     resolver: zodResolver(roomSchema),
-    defaultValues: {
-      name: "",
-    },
+    defaultValues: emptyRoom,
   });
 
   useEffect(() => {
@@ -76,7 +101,14 @@ export default function Rooms() {
     return () => unsubscribe();
   }, []);
 
-  const onSubmit = async (data: z.infer<typeof roomSchema>) => {
+  const onSubmit = async (formData: RoomFormData) => {
+    // An empty label is removed so the Sufuf page falls back to the room name
+    const data = {
+      ...formData,
+      imamLabel: formData.imamLabel?.trim() || null,
+      staffing: toStaffing(formData.staffing),
+    };
+
     try {
       if (editingRoom) {
         await update(ref(db, `rooms/${editingRoom.id}`), data);
@@ -94,7 +126,7 @@ export default function Rooms() {
           duration: 3000,
         });
       }
-      form.reset();
+      form.reset(emptyRoom);
       setDialogOpen(false);
     } catch (error) {
       toast({
@@ -108,7 +140,13 @@ export default function Rooms() {
 
   const handleEdit = (room: Room) => {
     setEditingRoom(room);
-    form.reset(room);
+    form.reset({
+      name: room.name,
+      sufuf: room.sufuf ?? false,
+      sufufOrder: room.sufufOrder ?? 0,
+      imamLabel: room.imamLabel ?? "",
+      staffing: staffingFormValues(room.staffing),
+    });
     setDialogOpen(true);
   };
 
@@ -139,7 +177,7 @@ export default function Rooms() {
           <h1 className="text-3xl font-bold text-[#963E56]">Ruimtes</h1>
         </div>
 
-        {isAdmin && (
+        {canManage && (
           <div className="flex items-center justify-end gap-2">
             <TooltipProvider>
               <Tooltip>
@@ -166,7 +204,7 @@ export default function Rooms() {
                   Ruimte Toevoegen
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>
                     {editingRoom ? "Ruimte Bewerken" : "Nieuwe Ruimte"}
@@ -187,6 +225,61 @@ export default function Rooms() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name="sufuf"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                          <div className="space-y-0.5">
+                            <FormLabel>Sufuf</FormLabel>
+                            <FormDescription>
+                              Toon deze ruimte op de Sufuf pagina
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="data-[state=checked]:bg-[#963E56]"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("sufuf") && (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name="sufufOrder"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Volgorde</FormLabel>
+                              <FormControl>
+                                <Input type="number" min={0} {...field} placeholder="Volgorde" />
+                              </FormControl>
+                              <FormDescription>
+                                Ruimtes met een lager getal staan eerst
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="imamLabel"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Naam voor de imam (optioneel)</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder={form.watch("name") || "Bijv. Moskee +1"} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
+                    )}
+                    <StaffingFields form={form} />
                     <Button type="submit" className="w-full bg-[#963E56] hover:bg-[#963E56]/90">
                       {editingRoom ? "Bijwerken" : "Toevoegen"}
                     </Button>
@@ -205,9 +298,21 @@ export default function Rooms() {
               <CardTitle className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <House className="h-8 w-8 text-[#963E56]/80" />
-                  <span className="text-lg font-semibold">{room.name}</span>
+                  <div className="flex flex-col">
+                    <span className="text-lg font-semibold">{room.name}</span>
+                    {room.sufuf && (
+                      <Badge variant="outline" className="w-fit mt-1 border-[#963E56]/30 text-[#963E56]">
+                        Sufuf{room.imamLabel ? `: ${room.imamLabel}` : ""}
+                      </Badge>
+                    )}
+                    {room.staffing && (
+                      <Badge variant="outline" className="w-fit mt-1 border-[#963E56]/30 text-[#963E56]">
+                        Bezetting ingesteld
+                      </Badge>
+                    )}
+                  </div>
                 </div>
-                {isEditMode && isAdmin && (
+                {isEditMode && canManage && (
                   <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     <Button
                       variant="ghost"
@@ -29,7 +29,8 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { updateUserRole } from "@/lib/roles";
+import { updateUserRole, ROLES, ROLE_LABELS, type UserRole } from "@/lib/roles";
+import { resolveRole } from "@shared/roles";
 import { db, auth } from "@/lib/firebase";
 import { ref, onValue, remove } from "firebase/database";
 import { createUserWithEmailAndPassword, sendPasswordResetEmail } from "firebase/auth";
@@ -47,13 +48,13 @@ import { logUserAction, UserActionTypes, UserAction, getUserLogs } from "@/lib/a
 type DatabaseUser = {
   uid: string;
   email: string;
-  admin: boolean;
+  role: UserRole;
 };
 
 const newUserSchema = z.object({
   email: z.string().email("Ongeldig e-mailadres"),
   password: z.string().min(6, "Wachtwoord moet minimaal 6 tekens bevatten"),
-  isAdmin: z.boolean().default(false),
+  role: z.enum(ROLES).default("medewerker"),
 });
 
 type NewUserFormData = z.infer<typeof newUserSchema>;
@@ -66,12 +67,12 @@ export default function Settings() {
   const [isLoadingLogs, setIsLoadingLogs] = useState(false);
   const [deletingUser, setDeletingUser] = useState<DatabaseUser | null>(null);
   const { toast } = useToast();
-  const { isAdmin } = useRole();
+  const { can } = useRole();
 
   const form = useForm<NewUserFormData>({
     resolver: zodResolver(newUserSchema),
     defaultValues: {
-      isAdmin: false,
+      role: "medewerker",
     },
   });
 
@@ -82,7 +83,8 @@ export default function Settings() {
       if (data) {
         const usersList = Object.entries(data).map(([uid, userData]: [string, any]) => ({
           uid,
-          ...userData
+          email: userData.email,
+          role: resolveRole(userData)
         }));
         setUsers(usersList);
       } else {
@@ -112,12 +114,14 @@ export default function Settings() {
     fetchLogs();
   }, [selectedDate, selectedUser]);
 
-  const handleRoleChange = async (uid: string, email: string, newIsAdmin: boolean) => {
+  const handleRoleChange = async (uid: string, email: string, newRole: UserRole) => {
     try {
-      await updateUserRole(uid, email, newIsAdmin);
+      if (!(await updateUserRole(uid, email, newRole))) {
+        throw new Error("Role update failed");
+      }
       await logUserAction(
         UserActionTypes.USER_ROLE_UPDATE,
-        `${email} is nu ${newIsAdmin ? 'administrator' : 'medewerker'}`,
+        `${email} is nu ${ROLE_LABELS[newRole].toLowerCase()}`,
         {
           type: "user",
           id: uid,
@@ -126,7 +130,7 @@ export default function Settings() {
       );
       toast({
         title: "Succes",
-        description: `Gebruiker ${email} is nu ${newIsAdmin ? 'admin' : 'medewerker'}`,
+        description: `Gebruiker ${email} is nu ${ROLE_LABELS[newRole].toLowerCase()}`,
         duration: 3000,
       });
     } catch (error) {
@@ -142,10 +146,10 @@ export default function Settings() {
   const onSubmit = async (data: NewUserFormData) => {
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, data.email, data.password);
-      await updateUserRole(userCredential.user.uid, data.email, data.isAdmin);
+      await updateUserRole(userCredential.user.uid, data.email, data.role);
       await logUserAction(
         UserActionTypes.USER_CREATE,
-        `Nieuwe gebruiker ${data.email} aangemaakt als ${data.isAdmin ? 'administrator' : 'medewerker'}`,
+        `Nieuwe gebruiker ${data.email} aangemaakt als ${ROLE_LABELS[data.role].toLowerCase()}`,
         {
           type: "user",
           id: userCredential.user.uid,
@@ -268,7 +272,7 @@ export default function Settings() {
     }
   };
 
-  if (!isAdmin) {
+  if (!can('users:manage')) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
         <p className="text-gray-500">Je hebt geen toegang tot deze pagina.</p>
@@ -336,18 +340,23 @@ export default function Settings() {
 
                   <FormField
                     control={form.control}
-                    name="isAdmin"
+                    name="role"
                     render={({ field }) => (
-                      <FormItem className="flex items-center space-x-2">
-                        <FormControl>
-                          <input
-                            type="checkbox"
-                            checked={field.value}
-                            onChange={field.onChange}
-                            className="h-4 w-4 rounded border-gray-300 text-[#963E56] focus:ring-[#963E56]"
-                          />
-                        </FormControl>
-                        <FormLabel className="!mt-0">Administrator rechten</FormLabel>
+                      <FormItem>
+                        <FormLabel>Rol</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white sm:w-[240px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
                       </FormItem>
                     )}
                   />
@@ -394,25 +403,29 @@ export default function Settings() {
                             <TableCell>{user.email}</TableCell>
                             <TableCell>
                               <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                user.admin
+                                user.role === 'admin'
                                   ? 'bg-[#963E56]/10 text-[#963E56]'
                                   : 'bg-blue-100 text-blue-800'
                               }`}>
-                                {user.admin ? 'Admin' : 'Medewerker'}
+                                {ROLE_LABELS[user.role]}
                               </span>
                             </TableCell>
                             <TableCell className="text-right">
                               <div className="flex justify-end gap-2">
-                                <Button
-                                  onClick={() => handleRoleChange(user.uid, user.email, !user.admin)}
-                                  variant="outline"
-                                  size="icon"
-                                  className="h-8 w-8 bg-[#963E56] text-white hover:bg-[#963E56]/90"
-                                  title={`Maak ${user.admin ? 'Medewerker' : 'Admin'}`}
+                                <Select
+                                  value={user.role}
+                                  onValueChange={(role) => handleRoleChange(user.uid, user.email, role as UserRole)}
                                 >
-                                  <Shield className="h-4 w-4" />
-                                  <span className="sr-only">{`Maak ${user.admin ? 'Medewerker' : 'Admin'}`}</span>
-                                </Button>
+                                  <SelectTrigger className="h-8 w-[170px]" title="Rol wijzigen">
+                                    <Shield className="h-4 w-4 mr-2 text-[#963E56]" />
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ROLES.map((role) => (
+                                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                                 <Button
                                   onClick={() => handlePasswordReset(user.email)}
                                   variant="outline"
@@ -449,24 +462,27 @@ export default function Settings() {
                           <div>
                             <div className="font-medium">{user.email}</div>
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-1 ${
-                              user.admin
+                              user.role === 'admin'
                                 ? 'bg-[#963E56]/10 text-[#963E56]'
                                 : 'bg-blue-100 text-blue-800'
                             }`}>
-                              {user.admin ? 'Admin' : 'Medewerker'}
+                              {ROLE_LABELS[user.role]}
                             </span>
                           </div>
                           <div className="flex gap-2">
-                            <Button
-                              onClick={() => handleRoleChange(user.uid, user.email, !user.admin)}
-                              variant="outline"
-                              size="icon"
-                              className="h-8 w-8 bg-[#963E56] text-white hover:bg-[#963E56]/90"
-                              title={`Maak ${user.admin ? 'Medewerker' : 'Admin'}`}
+                            <Select
+                              value={user.role}
+                              onValueChange={(role) => handleRoleChange(user.uid, user.email, role as UserRole)}
                             >
-                              <Shield className="h-4 w-4" />
-                              <span className="sr-only">{`Maak ${user.admin ? 'Medewerker' : 'Admin'}`}</span>
-                            </Button>
+                              <SelectTrigger className="h-8 w-[150px]" title="Rol wijzigen">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <Button
                               onClick={() => handlePasswordReset(user.email)}
                               variant="outline"
@@ -534,7 +550,7 @@ export default function Settings() {
                           <SelectItem value="all">Alle gebruikers</SelectItem>
                           {users.map(user => (
                             <SelectItem key={user.email} value={user.email}>
-                              {user.email} {user.admin ? '(Admin)' : ''}
+                              {user.email} ({ROLE_LABELS[user.role]})
                             </SelectItem>
                           ))}
                         </SelectContent>
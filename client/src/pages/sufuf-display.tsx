@@ -0,0 +1,174 @@
+import { useState, useEffect, useRef } from "react";
+import { Check, X, WifiOff, Volume2 } from "lucide-react";
+import { useSocket } from "@/hooks/use-socket";
+import { useSufufBoard } from "@/hooks/use-sufuf-board";
+import { SUFUF_STATE_LABELS, type StatusUpdatedPayload } from "@shared/sufuf";
+
+// Kiosk view for a tablet at the mihrab: only the area tiles, no login and no
+// navigation. Configured through the URL, e.g.
+// /sufuf/display?sound=on&pulse=off&reload=120
+//   sound   chime on every new report (default off)
+//   pulse   flash the tile of a room that changed (default on)
+//   reload  reload the page every this many minutes, 0 for never (default 360)
+const params = new URLSearchParams(window.location.search);
+const soundEnabled = params.get("sound") === "on";
+const pulseEnabled = params.get("pulse") !== "off";
+const reloadMinutes = Number(params.get("reload") ?? 360);
+
+const PULSE_MS = 4000;
+
+// Two short tones, loud enough for a quiet prayer hall
+function playChime(context: AudioContext) {
+  [880, 660].forEach((frequency, i) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + i * 0.25;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  });
+}
+
+export default function SufufDisplay() {
+  const { socket, connected } = useSocket();
+  const { rooms, areasLoaded } = useSufufBoard();
+  // Time the pulse of each room started, so a newer change keeps it going
+  const [pulsing, setPulsing] = useState<Record<string, number>>({});
+  const [audioLocked, setAudioLocked] = useState(soundEnabled);
+  const audioRef = useRef<AudioContext | null>(null);
+  const connectedRef = useRef(connected);
+  connectedRef.current = connected;
+
+  // Keep the screen on; the lock is released whenever the tab is hidden
+  useEffect(() => {
+    if (!("wakeLock" in navigator)) return;
+
+    let wakeLock: WakeLockSentinel | null = null;
+    const requestWakeLock = async () => {
+      try {
+        wakeLock = await navigator.wakeLock.request("screen");
+      } catch (error) {
+        console.error("Wake lock error:", error);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") requestWakeLock();
+    };
+
+    requestWakeLock();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      wakeLock?.release();
+    };
+  }, []);
+
+  // Reload now and then to pick up new versions, but never while offline:
+  // the page would not come back
+  useEffect(() => {
+    if (!(reloadMinutes > 0)) return;
+
+    const loadedAt = Date.now();
+    const interval = setInterval(() => {
+      if (connectedRef.current && Date.now() - loadedAt > reloadMinutes * 60 * 1000) {
+        window.location.reload();
+      }
+    }, 60 * 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Only live reports chime and pulse, not the board sent on (re)connect
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleStatusUpdated = (data: StatusUpdatedPayload) => {
+      if (data.report?.acknowledged) return;
+
+      if (soundEnabled && data.report && audioRef.current?.state === "running") {
+        playChime(audioRef.current);
+      }
+      if (pulseEnabled) {
+        const startedAt = Date.now();
+        setPulsing(prev => ({ ...prev, [data.room]: startedAt }));
+        setTimeout(() => {
+          setPulsing(prev => prev[data.room] === startedAt ? { ...prev, [data.room]: 0 } : prev);
+        }, PULSE_MS);
+      }
+    };
+
+    socket.on("statusUpdated", handleStatusUpdated);
+    return () => {
+      socket.off("statusUpdated", handleStatusUpdated);
+    };
+  }, [socket]);
+
+  // Browsers only allow sound after someone touched the page once
+  const unlockAudio = async () => {
+    audioRef.current ??= new AudioContext();
+    await audioRef.current.resume();
+    setAudioLocked(audioRef.current.state !== "running");
+  };
+
+  return (
+    <div className="h-[100dvh] w-full overflow-hidden bg-white flex flex-col select-none">
+      {!connected && (
+        <div className="flex items-center justify-center gap-3 bg-red-600 text-white text-2xl font-semibold py-3">
+          <WifiOff className="h-7 w-7" />
+          Verbinding verbroken – status kan verouderd zijn
+        </div>
+      )}
+
+      {areasLoaded && rooms.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-3xl text-muted-foreground">
+          Geen ruimtes voor Sufuf ingesteld
+        </div>
+      ) : (
+        <div
+          className={`flex-1 grid auto-rows-fr gap-4 p-4 transition-opacity ${connected ? '' : 'opacity-50'}`}
+          style={{ gridTemplateColumns: `repeat(${Math.min(Math.max(rooms.length, 1), 3)}, minmax(0, 1fr))` }}
+        >
+          {rooms.map((room) => (
+            <div
+              key={room.id}
+              className={`
+                rounded-3xl flex flex-col items-center justify-center gap-6 p-6 text-center transition-all duration-500
+                ${room.status === 'green' ? 'bg-green-500 text-white' :
+                  room.status === 'red' ? 'bg-red-500 text-white' :
+                  'bg-gray-200 text-gray-600'}
+                ${pulsing[room.id] ? 'animate-pulse ring-8 ring-[#963E56] ring-offset-4' : ''}
+              `}
+            >
+              <h2 className="text-4xl lg:text-6xl font-bold">{room.title}</h2>
+              <div className="flex items-center justify-center">
+                {room.status === 'green' && <Check className="h-24 w-24 lg:h-40 lg:w-40" strokeWidth={3} />}
+                {room.status === 'red' && <X className="h-24 w-24 lg:h-40 lg:w-40" strokeWidth={3} />}
+              </div>
+              {room.report?.state && (
+                <p className="text-3xl lg:text-5xl font-semibold">
+                  {SUFUF_STATE_LABELS[room.report.state]}
+                </p>
+              )}
+              {room.report?.message && (
+                <p className="text-2xl lg:text-4xl font-medium">{room.report.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {audioLocked && (
+        <button
+          className="fixed bottom-4 right-4 flex items-center gap-2 rounded-full bg-[#963E56] text-white px-5 py-3 text-lg shadow-lg"
+          onClick={unlockAudio}
+        >
+          <Volume2 className="h-5 w-5" />
+          Tik om geluid aan te zetten
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { nl } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Activity, ArrowLeft, ChevronDown, History } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { ref, onValue } from "firebase/database";
+import type { SufufSession, SufufStatusEvent } from "@shared/schema";
+import {
+  SUFUF_PRAYER_LABELS,
+  SUFUF_STATE_LABELS,
+  type SufufPrayer,
+  type SufufState,
+  type SufufStatus,
+} from "@shared/sufuf";
+
+// As returned by GET /api/sufuf/sessions, with the dates still serialized
+type TimelineEvent = Omit<SufufStatusEvent, "timestamp" | "acknowledgedAt"> & {
+  timestamp: string;
+  acknowledgedAt: string | null;
+};
+type TimelineSession = Omit<SufufSession, "startedAt" | "endedAt"> & {
+  startedAt: string;
+  endedAt: string | null;
+  events: TimelineEvent[];
+};
+
+type AreaSummary = {
+  room: string;
+  firstReportAfter: number;
+  okAfter: number | null;
+  nokCount: number;
+};
+
+const statusLabels: Record<SufufStatus, string> = {
+  green: "OK",
+  red: "NOK",
+  grey: "Uit",
+};
+
+const statusColors: Record<SufufStatus, string> = {
+  green: "bg-green-100 text-green-700 border-green-200",
+  red: "bg-red-100 text-red-700 border-red-200",
+  grey: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+// How long after the start of the prayer each area was first reported, and
+// first reported OK
+function summarizeSession(session: TimelineSession): AreaSummary[] {
+  const start = new Date(session.startedAt).getTime();
+  const byRoom = new Map<string, AreaSummary>();
+
+  for (const event of session.events) {
+    const after = new Date(event.timestamp).getTime() - start;
+    const summary = byRoom.get(event.room) ?? {
+      room: event.room,
+      firstReportAfter: after,
+      okAfter: null,
+      nokCount: 0,
+    };
+    if (event.status === "red") summary.nokCount++;
+    if (event.status === "green" && summary.okAfter === null) summary.okAfter = after;
+    byRoom.set(event.room, summary);
+  }
+
+  return Array.from(byRoom.values());
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export default function SufufHistory() {
+  const [roomNames, setRoomNames] = useState<Record<string, string>>({});
+  const [openSessionId, setOpenSessionId] = useState<number | null>(null);
+
+  const { data: sessions = [], isLoading, error } = useQuery<TimelineSession[]>({
+    queryKey: ["/api/sufuf/sessions"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    const roomsRef = ref(db, "rooms");
+    const unsubscribe = onValue(roomsRef, (snapshot) => {
+      const data = snapshot.val() || {};
+      setRoomNames(Object.fromEntries(
+        Object.entries(data).map(([id, room]: [string, any]) => [id, room.imamLabel || room.name]),
+      ));
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const roomName = (room: string) => roomNames[room] ?? "Verwijderde ruimte";
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <History className="h-8 w-8 text-[#963E56]" />
+          <h1 className="text-2xl md:text-3xl font-bold text-[#963E56]">
+            Sufuf Tijdlijn
+          </h1>
+        </div>
+        <Link href="/sufuf">
+          <Button variant="outline" className="text-[#963E56] border-[#963E56]/30 hover:bg-[#963E56]/5">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Sufuf
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <Activity className="h-8 w-8 animate-spin text-[#963E56]" />
+        </div>
+      )}
+
+      {error && (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            De tijdlijn kon niet worden geladen. Log opnieuw in en probeer het nogmaals.
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && sessions.length === 0 && (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            Er zijn nog geen gebeden met Sufuf meldingen.
+          </CardContent>
+        </Card>
+      )}
+
+      {sessions.map((session) => {
+        const summaries = summarizeSession(session);
+        const isOpen = openSessionId === session.id;
+
+        return (
+          <Card key={session.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex flex-wrap items-center gap-3 text-lg text-[#963E56]">
+                {session.prayer ? SUFUF_PRAYER_LABELS[session.prayer as SufufPrayer] : "Gebed"}
+                <span className="text-sm font-normal text-muted-foreground">
+                  {format(new Date(session.startedAt), "EEEE d MMMM yyyy, HH:mm", { locale: nl })}
+                  {session.endedAt && ` – ${format(new Date(session.endedAt), "HH:mm")}`}
+                </span>
+                {!session.endedAt && (
+                  <Badge variant="outline" className="border-green-200 text-green-700">Bezig</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {summaries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Geen meldingen</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="hover:bg-transparent">
+                      <TableHead className="font-semibold">Ruimte</TableHead>
+                      <TableHead className="font-semibold">Eerste melding</TableHead>
+                      <TableHead className="font-semibold">OK na</TableHead>
+                      <TableHead className="font-semibold">NOK meldingen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map((summary) => (
+                      <TableRow key={summary.room}>
+                        <TableCell className="font-medium">{roomName(summary.room)}</TableCell>
+                        <TableCell>{formatDuration(summary.firstReportAfter)}</TableCell>
+                        <TableCell>
+                          {summary.okAfter !== null ? formatDuration(summary.okAfter) : (
+                            <span className="text-muted-foreground">Niet OK gemeld</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{summary.nokCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {session.events.length > 0 && (
+                <div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-[#963E56] hover:bg-[#963E56]/5"
+                    onClick={() => setOpenSessionId(isOpen ? null : session.id)}
+                  >
+                    Alle meldingen ({session.events.length})
+                    <ChevronDown className={`h-4 w-4 ml-2 transition-transform duration-200 ${isOpen ? 'transform rotate-180' : ''}`} />
+                  </Button>
+                  {isOpen && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="hover:bg-transparent">
+                          <TableHead className="font-semibold">Tijd</TableHead>
+                          <TableHead className="font-semibold">Ruimte</TableHead>
+                          <TableHead className="font-semibold">Status</TableHead>
+                          <TableHead className="font-semibold">Bericht</TableHead>
+                          <TableHead className="font-semibold">Gemeld door</TableHead>
+                          <TableHead className="font-semibold">Gelezen</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {session.events.map((event) => (
+                          <TableRow key={event.id}>
+                            <TableCell>{format(new Date(event.timestamp), "HH:mm:ss")}</TableCell>
+                            <TableCell>{roomName(event.room)}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={statusColors[event.status as SufufStatus]}>
+                                {statusLabels[event.status as SufufStatus]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {event.state && (
+                                <span className="font-medium">{SUFUF_STATE_LABELS[event.state as SufufState]}</span>
+                              )}
+                              {event.state && event.message && " – "}
+                              {event.message}
+                            </TableCell>
+                            <TableCell>{event.reporterEmail}</TableCell>
+                            <TableCell>
+                              {event.acknowledgedAt ? format(new Date(event.acknowledgedAt), "HH:mm:ss") : "–"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
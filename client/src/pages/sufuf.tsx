@@ -1,8 +1,38 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Check, X, User, House, ChevronDown } from "lucide-react";
+import { Check, CheckCheck, X, User, House, ChevronDown, History, WifiOff, MessageSquare, Send, Monitor } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link } from "wouter";
+import { format } from "date-fns";
 import { useSocket } from "@/hooks/use-socket";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { useSufufBoard, type SufufRoom } from "@/hooks/use-sufuf-board";
+import { useMosqueSettings } from "@/hooks/use-mosque-settings";
+import { getNearestPrayer, getPrayerTime, type PrayerTimeSettings } from "@shared/prayer-times";
+import {
+  SUFUF_MESSAGE_MAX_LENGTH,
+  SUFUF_PRAYERS,
+  SUFUF_PRAYER_LABELS,
+  SUFUF_STATES,
+  SUFUF_STATE_COMMANDS,
+  SUFUF_STATE_LABELS,
+  type SessionPayload,
+  type SufufCommand,
+  type SufufPrayer,
+  type SufufState,
+  type SufufStatus,
+  type UpdateRejectedPayload,
+} from "@shared/sufuf";
 import { FaPray } from "react-icons/fa";
 import { PiUsersThree } from "react-icons/pi";
 
@@ -22,49 +52,79 @@ const HadiethCard = () => (
   </Card>
 );
 
-// Room type definitie
-type Room = {
-  id: string;
-  title: string;
-  status: 'green' | 'red' | 'grey';
+// Resending a message keeps the status the room already has
+const commandByStatus: Record<SufufStatus, SufufCommand> = {
+  green: 'OK',
+  red: 'NOK',
+  grey: 'OFF',
 };
 
+const rejectionMessages: Record<UpdateRejectedPayload['reason'], string> = {
+  unauthenticated: "Je sessie op de server is verlopen. Log opnieuw in om de status te wijzigen.",
+  forbidden: "Je rol mag de status van de rijen niet wijzigen.",
+  invalid: "De status of het bericht kon niet worden doorgegeven.",
+  unavailable: "Het gebed kon niet worden opgeslagen. Probeer het opnieuw.",
+};
+
+// The prayer closest to now, which on Friday at noon is Jumu'ah
+function suggestedPrayer(settings: PrayerTimeSettings): SufufPrayer {
+  const now = new Date();
+  const nearest = getNearestPrayer(now, settings);
+  if (!nearest) return 'dhuhr';
+  return nearest.prayer === 'dhuhr' && now.getDay() === 5 ? 'jumuah' : nearest.prayer;
+}
+
 // Main Component
 export default function SufufPage() {
-  const { socket } = useSocket();
-  const [rooms, setRooms] = useState<Record<string, Room>>({
-    'first-floor': { id: 'first-floor', title: 'Moskee +1', status: 'grey' },
-    'beneden': { id: 'beneden', title: 'Moskee +0', status: 'grey' },
-    'garage': { id: 'garage', title: 'Garage', status: 'grey' }
-  });
+  const { socket, connected } = useSocket();
+  const { toast } = useToast();
+  const { can } = useRole();
+  const { rooms, board, areasLoaded } = useSufufBoard();
   const [selectedRoom, setSelectedRoom] = useState<string | null>(null);
   const [okChecked, setOkChecked] = useState(false);
   const [nokChecked, setNokChecked] = useState(false);
   const [isVolunteerSectionOpen, setIsVolunteerSectionOpen] = useState(true);
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const { prayerTimes } = useMosqueSettings();
+  // Follows the prayer times until someone picks a prayer
+  const [pickedPrayer, setPickedPrayer] = useState<SufufPrayer | null>(null);
+  const prayer = pickedPrayer ?? suggestedPrayer(prayerTimes);
+  const [wasConnected, setWasConnected] = useState(false);
+  const [messageDraft, setMessageDraft] = useState('');
+  const [rejections, setRejections] = useState(0);
+
+  // Deselect an area that was removed from Sufuf on the Rooms page
+  useEffect(() => {
+    if (selectedRoom && areasLoaded && !rooms.some((room) => room.id === selectedRoom)) {
+      setSelectedRoom(null);
+    }
+  }, [rooms, areasLoaded, selectedRoom]);
+
+  useEffect(() => {
+    if (connected) setWasConnected(true);
+  }, [connected]);
 
   useEffect(() => {
     if (!socket) return;
 
-    socket.on('initialStatus', (data: any) => {
-      const updatedRooms = { ...rooms };
-      Object.entries(data).forEach(([key, value]) => {
-        if (updatedRooms[key]) {
-          updatedRooms[key].status = value as 'green' | 'red' | 'grey';
-        }
+    socket.on('updateRejected', (data) => {
+      // Resets the toggles to the status the server still has
+      setRejections(count => count + 1);
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: rejectionMessages[data.reason],
+        duration: 4000,
       });
-      setRooms(updatedRooms);
     });
 
-    socket.on('statusUpdated', (data: { room: string; status: 'green' | 'red' | 'grey' }) => {
-      setRooms(prev => ({
-        ...prev,
-        [data.room]: { ...prev[data.room], status: data.status }
-      }));
+    socket.on('sessionChanged', (data) => {
+      setSession(data);
     });
 
     return () => {
-      socket.off('initialStatus');
-      socket.off('statusUpdated');
+      socket.off('updateRejected');
+      socket.off('sessionChanged');
     };
   }, [socket]);
 
@@ -72,18 +132,37 @@ export default function SufufPage() {
     if (!socket || !selectedRoom) return;
 
     // Reset toggles when room changes
-    setOkChecked(rooms[selectedRoom].status === 'green');
-    setNokChecked(rooms[selectedRoom].status === 'red');
-  }, [selectedRoom, rooms]);
+    setOkChecked(board[selectedRoom]?.status === 'green');
+    setNokChecked(board[selectedRoom]?.status === 'red');
+  }, [selectedRoom, board, rejections]);
+
+  // A draft belongs to the room it was typed for
+  useEffect(() => {
+    setMessageDraft('');
+  }, [selectedRoom]);
+
+  // Every report carries the message that is being typed, if any
+  const sendReport = (status: SufufCommand, state?: SufufState) => {
+    if (!socket || !selectedRoom) return;
+
+    const message = messageDraft.trim();
+    socket.emit('updateStatus', {
+      room: selectedRoom,
+      status,
+      state,
+      message: message || undefined,
+    });
+    setMessageDraft('');
+  };
 
   const handleOkChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!socket || !selectedRoom) return;
 
     if (e.target.checked) {
       setNokChecked(false);
-      socket.emit('updateStatus', { room: selectedRoom, status: 'OK' });
+      sendReport('OK');
     } else if (!nokChecked) {
-      socket.emit('updateStatus', { room: selectedRoom, status: 'OFF' });
+      sendReport('OFF');
     }
     setOkChecked(e.target.checked);
   };
@@ -93,33 +172,96 @@ export default function SufufPage() {
 
     if (e.target.checked) {
       setOkChecked(false);
-      socket.emit('updateStatus', { room: selectedRoom, status: 'NOK' });
+      sendReport('NOK');
     } else if (!okChecked) {
-      socket.emit('updateStatus', { room: selectedRoom, status: 'OFF' });
+      sendReport('OFF');
     }
     setNokChecked(e.target.checked);
   };
 
+  const handleStateClick = (state: SufufState) => {
+    sendReport(SUFUF_STATE_COMMANDS[state], state);
+  };
+
+  const handleSendMessage = () => {
+    if (!selectedRoom || !messageDraft.trim()) return;
+
+    const report = board[selectedRoom];
+    sendReport(commandByStatus[report?.status ?? 'grey'], report?.state);
+  };
+
+  const handleAcknowledge = (room: SufufRoom) => {
+    if (!socket || !room.report) return;
+    socket.emit('acknowledge', { room: room.id, reportId: room.report.reportId });
+  };
+
+  const handleStartSession = () => {
+    socket?.emit('startSession', { prayer });
+    setPickedPrayer(null);
+  };
+
+  const handleEndSession = () => {
+    socket?.emit('endSession');
+  };
+
   return (
     <div className="container mx-auto px-4 py-6 space-y-6">
       {/* Header */}
-      <div className="flex items-center gap-4">
-        <PiUsersThree className="h-8 w-8 text-[#963E56]" />
-        <h1 className="text-2xl md:text-3xl font-bold text-[#963E56]">
-          Sufuf (Gebedsrijen)
-        </h1>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <PiUsersThree className="h-8 w-8 text-[#963E56]" />
+          <h1 className="text-2xl md:text-3xl font-bold text-[#963E56]">
+            Sufuf (Gebedsrijen)
+          </h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <a href="/sufuf/display" target="_blank" rel="noopener noreferrer">
+            <Button variant="outline" className="text-[#963E56] border-[#963E56]/30 hover:bg-[#963E56]/5">
+              <Monitor className="h-4 w-4 mr-2" />
+              Imam scherm
+            </Button>
+          </a>
+          {can('sufuf:history') && (
+            <Link href="/sufuf/history">
+              <Button variant="outline" className="text-[#963E56] border-[#963E56]/30 hover:bg-[#963E56]/5">
+                <History className="h-4 w-4 mr-2" />
+                Tijdlijn
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
       <HadiethCard />
 
+      {!connected && (
+        <Alert variant="destructive">
+          <WifiOff className="h-4 w-4" />
+          <AlertTitle>{wasConnected ? "Verbinding verbroken" : "Verbinden..."}</AlertTitle>
+          <AlertDescription>
+            {wasConnected
+              ? "De status kan verouderd zijn. Zodra de verbinding terug is, wordt alles opnieuw opgehaald."
+              : "De status wordt opgehaald."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {areasLoaded && rooms.length === 0 && (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            Er zijn nog geen ruimtes voor Sufuf ingesteld. Zet Sufuf aan bij een ruimte op de pagina Ruimtes.
+          </CardContent>
+        </Card>
+      )}
+
       {/* Imam Dashboard */}
       <div className="space-y-4">
         <h2 className="text-xl font-semibold text-[#963E56] flex items-center gap-2">
           <FaPray className="h-5 w-5" />
           Imam Dashboard
         </h2>
-        <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-          {Object.values(rooms).map((room) => (
+        <div className={`grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 transition-opacity ${connected ? '' : 'opacity-50'}`}>
+          {rooms.map((room) => (
             <Card
               key={room.id}
               className="overflow-hidden bg-white hover:shadow-lg transition-all duration-300"
@@ -141,6 +283,39 @@ export default function SufufPage() {
                 </div>
               </CardHeader>
               <CardContent className="p-6 pt-2">
+                {room.report && (room.report.state || room.report.message) && (
+                  <div className={`rounded-lg border p-3 space-y-1 ${
+                    room.report.acknowledged ? 'bg-gray-50 border-gray-100' : 'bg-[#963E56]/5 border-[#963E56]/20'
+                  }`}>
+                    {room.report.state && (
+                      <p className="text-xl font-bold text-[#963E56]">
+                        {SUFUF_STATE_LABELS[room.report.state]}
+                      </p>
+                    )}
+                    {room.report.message && (
+                      <p className="flex items-start gap-2 text-base font-medium text-gray-800">
+                        <MessageSquare className="h-4 w-4 mt-1 shrink-0 text-[#963E56]" />
+                        {room.report.message}
+                      </p>
+                    )}
+                    {room.report.acknowledged ? (
+                      <p className="flex items-center gap-1 text-xs text-gray-500">
+                        <CheckCheck className="h-4 w-4" />
+                        Gelezen
+                      </p>
+                    ) : can('sufuf:acknowledge') && (
+                      <Button
+                        size="sm"
+                        className="mt-2 bg-[#963E56] hover:bg-[#963E56]/90"
+                        onClick={() => handleAcknowledge(room)}
+                        disabled={!connected}
+                      >
+                        <CheckCheck className="h-4 w-4 mr-2" />
+                        Gelezen
+                      </Button>
+                    )}
+                  </div>
+                )}
                 <div className="mt-4 h-2 w-full bg-gray-100 rounded-full overflow-hidden">
                   <div
                     className={`h-full transition-all duration-500 ${
@@ -170,9 +345,51 @@ export default function SufufPage() {
           <ChevronDown className={`h-5 w-5 transition-transform duration-200 ${isVolunteerSectionOpen ? 'transform rotate-180' : ''}`} />
         </Button>
 
+        {isVolunteerSectionOpen && can('sufuf:update') && (
+          <Card>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-sm text-[#963E56]">
+                {session
+                  ? `${session.prayer ? SUFUF_PRAYER_LABELS[session.prayer] : 'Gebed'} gestart om ${format(new Date(session.startedAt), 'HH:mm')}`
+                  : 'Geen gebed gestart'}
+              </p>
+              <div className="flex items-center gap-2">
+                <Select value={prayer} onValueChange={(value) => setPickedPrayer(value as SufufPrayer)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUFUF_PRAYERS.map((value) => {
+                      const time = getPrayerTime(new Date(), value, prayerTimes);
+                      return (
+                        <SelectItem key={value} value={value}>
+                          {SUFUF_PRAYER_LABELS[value]}
+                          {time && <span className="ml-2 text-muted-foreground">{format(time, 'HH:mm')}</span>}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                <Button
+                  className="bg-[#963E56] hover:bg-[#963E56]/90"
+                  onClick={handleStartSession}
+                  disabled={!connected}
+                >
+                  Start gebed
+                </Button>
+                {session && (
+                  <Button variant="outline" onClick={handleEndSession} disabled={!connected}>
+                    Beëindigen
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {isVolunteerSectionOpen && (
           <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-            {Object.values(rooms).map((room) => (
+            {rooms.map((room) => (
               <Card
                 key={room.id}
                 className={`
@@ -201,6 +418,7 @@ export default function SufufPage() {
                             className="opacity-0 w-0 h-0"
                             checked={okChecked}
                             onChange={handleOkChange}
+                            disabled={!connected}
                           />
                           <span className={`
                             absolute cursor-pointer inset-0 rounded-full transition-all duration-300
@@ -223,6 +441,7 @@ export default function SufufPage() {
                             className="opacity-0 w-0 h-0"
                             checked={nokChecked}
                             onChange={handleNokChange}
+                            disabled={!connected}
                           />
                           <span className={`
                             absolute cursor-pointer inset-0 rounded-full transition-all duration-300
@@ -234,12 +453,57 @@ export default function SufufPage() {
                           `} />
                         </label>
                       </div>
-                      {(okChecked || nokChecked) && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {SUFUF_STATES.map((state) => (
+                          <Button
+                            key={state}
+                            variant="outline"
+                            size="sm"
+                            className={`h-auto py-2 whitespace-normal ${
+                              room.report?.state === state
+                                ? SUFUF_STATE_COMMANDS[state] === 'OK'
+                                  ? 'bg-green-50 border-green-300 text-green-700'
+                                  : 'bg-red-50 border-red-300 text-red-700'
+                                : ''
+                            }`}
+                            onClick={() => handleStateClick(state)}
+                            disabled={!connected}
+                          >
+                            {SUFUF_STATE_LABELS[state]}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={messageDraft}
+                          onChange={(e) => setMessageDraft(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+                          maxLength={SUFUF_MESSAGE_MAX_LENGTH}
+                          placeholder="Bericht aan de imam (optioneel)"
+                          disabled={!connected}
+                        />
+                        <Button
+                          size="icon"
+                          className="shrink-0 bg-[#963E56] hover:bg-[#963E56]/90"
+                          onClick={handleSendMessage}
+                          disabled={!connected || !messageDraft.trim()}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {room.report && (
                         <div className={`mt-4 p-3 rounded-lg border ${
-                          okChecked ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'
+                          room.status === 'green' ? 'bg-green-50 border-green-100' :
+                          room.status === 'red' ? 'bg-red-50 border-red-100' :
+                          'bg-gray-50 border-gray-100'
                         }`}>
-                          <p className={`text-sm ${okChecked ? 'text-green-700' : 'text-red-700'}`}>
-                            Doorgegeven aan imam
+                          <p className={`flex items-center gap-1 text-sm ${
+                            room.status === 'green' ? 'text-green-700' :
+                            room.status === 'red' ? 'text-red-700' :
+                            'text-gray-600'
+                          }`}>
+                            {room.report.acknowledged && <CheckCheck className="h-4 w-4" />}
+                            {room.report.acknowledged ? 'Gelezen door imam' : 'Doorgegeven aan imam'}
                           </p>
                         </div>
                       )}
@@ -5,19 +5,25 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { db } from "@/lib/firebase";
-import { ref, push, remove, update, onValue } from "firebase/database";
-import { UserPlus, Edit2, Trash2, Search, Users, CheckSquare, Square, Settings2, ChevronLeft, ChevronRight, ArrowUpDown, CheckCircle2, XCircle } from "lucide-react";
+import { ref, push, update, onValue } from "firebase/database";
+import { UserPlus, Edit2, Trash2, Search, Users, CheckSquare, Square, Settings2, ChevronLeft, ChevronRight, ArrowUpDown, CheckCircle2, XCircle, CalendarCheck, CalendarClock, Link2 } from "lucide-react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { logUserAction, UserActionTypes } from "@/lib/activity-logger";
-import { format, parseISO, isWithinInterval, startOfToday, endOfToday } from "date-fns";
+import { publicVolunteerRepairs, removeVolunteerUpdates, saveVolunteerUpdates, type PublicVolunteer } from "@/lib/public-volunteers";
+import { newSignUpToken, signUpLinkUpdates, signUpUrl } from "@/lib/sign-up-links";
+import { occursOn, type Recurrence } from "@shared/recurrence";
+import { freeVolunteers, type Availability } from "@shared/availability";
+import { AvailabilityDialog } from "@/components/volunteers/availability-dialog";
+import { format, parseISO } from "date-fns";
 
 const ITEMS_PER_PAGE = 10;
 
@@ -32,6 +38,9 @@ const volunteerSchema = z.object({
 type Volunteer = z.infer<typeof volunteerSchema> & { 
   id: string;
   isActive?: boolean;
+  availability?: Availability;
+  // Personal link for signing up for open shifts
+  signUpToken?: string;
 };
 
 type Planning = {
@@ -39,11 +48,14 @@ type Planning = {
   volunteerId: string;
   startDate: string;
   endDate: string;
+  recurrence?: Recurrence;
 };
 
 export default function Volunteers() {
   const [volunteers, setVolunteers] = useState<Volunteer[]>([]);
+  const [volunteersLoaded, setVolunteersLoaded] = useState(false);
   const [plannings, setPlannings] = useState<Planning[]>([]);
+  const [publishedNames, setPublishedNames] = useState<Record<string, PublicVolunteer> | null>(null);
   const [editingVolunteer, setEditingVolunteer] = useState<Volunteer | null>(null);
   const [deleteVolunteerId, setDeleteVolunteerId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
@@ -52,12 +64,16 @@ export default function Volunteers() {
   const [isEditMode, setIsEditMode] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [sortOrder, setSortOrder] = useState<SortOrder>("lastName-asc");
-  const [activeFilter, setActiveFilter] = useState<'all' | 'active' | 'inactive'>('all');
+  const [activeFilter, setActiveFilter] = useState<'all' | 'active' | 'inactive' | 'free'>('all');
+  const [freeDate, setFreeDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [availabilityVolunteer, setAvailabilityVolunteer] = useState<Volunteer | null>(null);
   const { toast } = useToast();
+  const { can } = useRole();
 
   useEffect(() => {
     const volunteersRef = ref(db, "volunteers");
     const planningsRef = ref(db, "plannings");
+    const publicVolunteersRef = ref(db, "public_volunteers");
 
     onValue(volunteersRef, (snapshot) => {
       const data = snapshot.val();
@@ -66,6 +82,7 @@ export default function Volunteers() {
         ...(volunteer as Omit<Volunteer, "id">),
       })) : [];
       setVolunteers(volunteersList);
+      setVolunteersLoaded(true);
     });
 
     onValue(planningsRef, (snapshot) => {
@@ -76,36 +93,42 @@ export default function Volunteers() {
       })) : [];
       setPlannings(planningsList);
     });
+
+    onValue(publicVolunteersRef, (snapshot) => {
+      setPublishedNames(snapshot.val() || {});
+    });
   }, []);
 
+  // Publishes the names of volunteers saved before the public calendar read
+  // them from `public_volunteers`
+  useEffect(() => {
+    if (!volunteersLoaded || !publishedNames || !can('volunteers:write')) return;
+    const repairs = publicVolunteerRepairs(volunteers, publishedNames);
+    if (Object.keys(repairs).length === 0) return;
+    update(ref(db), repairs).catch((error) => {
+      console.error("Error publishing volunteer names:", error);
+    });
+  }, [volunteers, volunteersLoaded, publishedNames, can]);
+
   // Get volunteers active today (have a planning for today)
   const activeVolunteers = volunteers.filter(volunteer => {
     const today = new Date();
-    return plannings.some(planning => {
-      const planningStart = parseISO(planning.startDate);
-      const planningEnd = parseISO(planning.endDate);
-      return planning.volunteerId === volunteer.id && 
-             isWithinInterval(today, { 
-               start: planningStart,
-               end: planningEnd 
-             });
-    });
+    return plannings.some(planning =>
+      planning.volunteerId === volunteer.id && occursOn(planning, today)
+    );
   });
 
   // Get inactive volunteers (not scheduled today)
   const inactiveVolunteers = volunteers.filter(volunteer => {
     const today = new Date();
-    return !plannings.some(planning => {
-      const planningStart = parseISO(planning.startDate);
-      const planningEnd = parseISO(planning.endDate);
-      return planning.volunteerId === volunteer.id && 
-             isWithinInterval(today, { 
-               start: planningStart,
-               end: planningEnd 
-             });
-    });
+    return !plannings.some(planning =>
+      planning.volunteerId === volunteer.id && occursOn(planning, today)
+    );
   });
 
+  // Available on the chosen day and not planned yet
+  const freeOnDate = freeDate ? freeVolunteers(volunteers, plannings, parseISO(freeDate)) : [];
+
   const resetForm = () => {
     form.reset();
     setEditingVolunteer(null);
@@ -124,7 +147,7 @@ export default function Volunteers() {
           return;
         }
 
-        await update(ref(db, `volunteers/${editingVolunteer.id}`), data);
+        await update(ref(db), saveVolunteerUpdates(editingVolunteer.id, data));
         await logUserAction(
           UserActionTypes.VOLUNTEER_UPDATE,
           `Vrijwilliger ${data.firstName} ${data.lastName} bijgewerkt`,
@@ -150,7 +173,8 @@ export default function Volunteers() {
           return;
         }
 
-        const newVolunteerRef = await push(ref(db, "volunteers"), data);
+        const newVolunteerRef = push(ref(db, "volunteers"));
+        await update(ref(db), saveVolunteerUpdates(newVolunteerRef.key!, data));
         await logUserAction(
           UserActionTypes.VOLUNTEER_CREATE,
           `Nieuwe vrijwilliger ${data.firstName} ${data.lastName} toegevoegd`,
@@ -192,7 +216,7 @@ export default function Volunteers() {
       const volunteersToDelete = volunteers.filter(v => ids.includes(v.id));
 
       for (const volunteer of volunteersToDelete) {
-        await remove(ref(db, `volunteers/${volunteer.id}`));
+        await update(ref(db), removeVolunteerUpdates(volunteer.id, volunteer.signUpToken));
         await logUserAction(
           UserActionTypes.VOLUNTEER_DELETE,
           `Vrijwilliger ${volunteer.firstName} ${volunteer.lastName} verwijderd`,
@@ -244,6 +268,71 @@ export default function Volunteers() {
     setDialogOpen(true);
   };
 
+  const handleSaveAvailability = async (availability: Availability | null) => {
+    if (!availabilityVolunteer) return;
+    const name = `${availabilityVolunteer.firstName} ${availabilityVolunteer.lastName}`;
+    try {
+      await update(ref(db, `volunteers/${availabilityVolunteer.id}`), { availability });
+      await logUserAction(
+        UserActionTypes.VOLUNTEER_UPDATE,
+        `Beschikbaarheid van ${name} bijgewerkt`,
+        {
+          type: "volunteer",
+          id: availabilityVolunteer.id,
+          name
+        }
+      );
+      toast({
+        title: "Succes",
+        description: "Beschikbaarheid succesvol bijgewerkt",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "Er is een fout opgetreden",
+        duration: 3000,
+      });
+      throw error;
+    }
+  };
+
+  // Volunteers sign up for open shifts with their own link; it is made the
+  // first time the coordinator needs it
+  const handleCopySignUpLink = async (volunteer: Volunteer) => {
+    const name = `${volunteer.firstName} ${volunteer.lastName}`;
+    try {
+      let token = volunteer.signUpToken;
+      if (!token) {
+        token = newSignUpToken();
+        await update(ref(db), signUpLinkUpdates(volunteer.id, token));
+        await logUserAction(
+          UserActionTypes.VOLUNTEER_UPDATE,
+          `Inschrijflink voor ${name} aangemaakt`,
+          {
+            type: "volunteer",
+            id: volunteer.id,
+            name
+          }
+        );
+      }
+      await navigator.clipboard.writeText(signUpUrl(token));
+      toast({
+        title: "Succes",
+        description: `De inschrijflink van ${name} is gekopieerd`,
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Fout",
+        description: "De inschrijflink kon niet worden gekopieerd",
+        duration: 3000,
+      });
+    }
+  };
+
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setSearchTerm(value);
@@ -266,6 +355,10 @@ export default function Volunteers() {
       if (!inactiveVolunteers.some(v => v.id === volunteer.id)) {
         return false;
       }
+    } else if (activeFilter === 'free') {
+      if (!freeOnDate.some(v => v.id === volunteer.id)) {
+        return false;
+      }
     }
 
     // Then apply search filter
@@ -310,7 +403,7 @@ export default function Volunteers() {
   };
 
   // Toggle filter function
-  const toggleFilter = (filter: 'all' | 'active' | 'inactive') => {
+  const toggleFilter = (filter: 'all' | 'active' | 'inactive' | 'free') => {
     setActiveFilter(current => current === filter ? 'all' : filter);
     setCurrentPage(1); // Reset to first page when changing filter
   };
@@ -333,7 +426,7 @@ export default function Volunteers() {
       </div>
 
       {/* Statistics Blocks */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-6 flex items-center justify-between">
             <div>
@@ -373,6 +466,31 @@ export default function Volunteers() {
             <XCircle className="h-8 w-8 text-[#963E56]" />
           </CardContent>
         </Card>
+
+        <Card 
+          className={`cursor-pointer transition-all hover:shadow-md ${
+            activeFilter === 'free' ? 'ring-2 ring-[#963E56] ring-offset-2' : ''
+          }`}
+          onClick={() => toggleFilter('free')}
+        >
+          <CardContent className="p-6 flex items-center justify-between gap-2">
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Vrij op</p>
+              <Input
+                type="date"
+                value={freeDate}
+                onChange={(e) => {
+                  setFreeDate(e.target.value);
+                  setCurrentPage(1);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="h-8 w-36 text-sm"
+              />
+              <p className="text-2xl font-bold text-[#963E56]">{freeOnDate.length}</p>
+            </div>
+            <CalendarCheck className="h-8 w-8 text-[#963E56]" />
+          </CardContent>
+        </Card>
       </div>
 
 
@@ -408,114 +526,116 @@ export default function Volunteers() {
           </Select>
         </div>
 
-        <div className="flex items-center gap-2 w-full sm:w-auto">
-          {selectedVolunteers.length > 0 ? (
-            <Button
-              className="bg-[#963E56] hover:bg-[#963E56]/90 flex-1 sm:flex-none"
-              onClick={handleBulkAction}
-            >
-              <UserPlus className="h-4 w-4 mr-2" />
-              Bulk Actie
-            </Button>
-          ) : (
-            <Dialog open={dialogOpen} onOpenChange={(open) => {
-              setDialogOpen(open);
-              if (!open) resetForm();
-            }}>
-              <DialogTrigger asChild>
-                <Button className="bg-[#963E56] hover:bg-[#963E56]/90 flex-1 sm:flex-none">
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  Vrijwilliger Toevoegen
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-[95vw] sm:max-w-[450px] p-4 sm:p-6 bg-white border-none shadow-lg mx-4">
-                <DialogHeader>
-                  <DialogTitle className="text-xl font-semibold text-[#963E56]">
-                    {editingVolunteer ? "Vrijwilliger Bewerken" : "Nieuwe Vrijwilliger"}
-                  </DialogTitle>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="firstName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Voornaam</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Voornaam" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="lastName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Achternaam</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Achternaam" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="phoneNumber"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Telefoonnummer</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Telefoonnummer" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="flex justify-end gap-3 pt-4">
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        onClick={() => {
-                          setDialogOpen(false);
-                          resetForm();
-                        }}
-                      >
-                        Annuleren
-                      </Button>
-                      <Button
-                        type="submit"
-                        className="bg-[#963E56] hover:bg-[#963E56]/90"
-                      >
-                        {editingVolunteer ? "Bijwerken" : "Toevoegen"}
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
-          )}
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() => setIsEditMode(!isEditMode)}
-                  className={`${isEditMode ? "bg-[#963E56]/10 text-[#963E56]" : ""}`}
-                >
-                  <Settings2 className="h-5 w-5" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                {isEditMode ? "Bewerken afsluiten" : "Lijst bewerken"}
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-        </div>
+        {can('volunteers:write') && (
+          <div className="flex items-center gap-2 w-full sm:w-auto">
+            {selectedVolunteers.length > 0 ? (
+              <Button
+                className="bg-[#963E56] hover:bg-[#963E56]/90 flex-1 sm:flex-none"
+                onClick={handleBulkAction}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Bulk Actie
+              </Button>
+            ) : (
+              <Dialog open={dialogOpen} onOpenChange={(open) => {
+                setDialogOpen(open);
+                if (!open) resetForm();
+              }}>
+                <DialogTrigger asChild>
+                  <Button className="bg-[#963E56] hover:bg-[#963E56]/90 flex-1 sm:flex-none">
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Vrijwilliger Toevoegen
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-[95vw] sm:max-w-[450px] p-4 sm:p-6 bg-white border-none shadow-lg mx-4">
+                  <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-[#963E56]">
+                      {editingVolunteer ? "Vrijwilliger Bewerken" : "Nieuwe Vrijwilliger"}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="firstName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Voornaam</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Voornaam" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="lastName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Achternaam</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Achternaam" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="phoneNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Telefoonnummer</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Telefoonnummer" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex justify-end gap-3 pt-4">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          onClick={() => {
+                            setDialogOpen(false);
+                            resetForm();
+                          }}
+                        >
+                          Annuleren
+                        </Button>
+                        <Button
+                          type="submit"
+                          className="bg-[#963E56] hover:bg-[#963E56]/90"
+                        >
+                          {editingVolunteer ? "Bijwerken" : "Toevoegen"}
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </DialogContent>
+              </Dialog>
+            )}
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsEditMode(!isEditMode)}
+                    className={`${isEditMode ? "bg-[#963E56]/10 text-[#963E56]" : ""}`}
+                  >
+                    <Settings2 className="h-5 w-5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {isEditMode ? "Bewerken afsluiten" : "Lijst bewerken"}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+        )}
       </div>
 
       <div className="rounded-lg border bg-card overflow-x-auto">
@@ -541,7 +661,7 @@ export default function Volunteers() {
               <TableHead>Voornaam</TableHead>
               <TableHead>Achternaam</TableHead>
               <TableHead>Telefoonnummer</TableHead>
-              {isEditMode && <TableHead className="w-[100px]">Acties</TableHead>}
+              {isEditMode && <TableHead className="w-[140px]">Acties</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -588,6 +708,24 @@ export default function Volunteers() {
                         >
                           <Edit2 className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAvailabilityVolunteer(volunteer)}
+                          className="text-[#963E56] hover:text-[#963E56] hover:bg-[#963E56]/10"
+                          title="Beschikbaarheid"
+                        >
+                          <CalendarClock className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleCopySignUpLink(volunteer)}
+                          className="text-[#963E56] hover:text-[#963E56] hover:bg-[#963E56]/10"
+                          title="Inschrijflink kopiëren"
+                        >
+                          <Link2 className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -647,6 +785,12 @@ export default function Volunteers() {
         </div>
       )}
 
+      <AvailabilityDialog
+        volunteer={availabilityVolunteer}
+        onOpenChange={(open) => !open && setAvailabilityVolunteer(null)}
+        onSave={handleSaveAvailability}
+      />
+
       <AlertDialog
         open={!!deleteVolunteerId}
         onOpenChange={() => setDeleteVolunteerId(null)}
@@ -0,0 +1,48 @@
+CREATE TABLE "activity_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"action" text NOT NULL,
+	"material_type_id" integer,
+	"material_number" integer NOT NULL,
+	"volunteer_id" integer,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"original_checkout_date" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "spaces" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"user_email" text NOT NULL,
+	"action" text NOT NULL,
+	"details" text,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"target_type" text,
+	"target_id" text,
+	"target_name" text,
+	"category" text
+);
+--> statement-breakpoint
+ALTER TABLE "materials" DROP CONSTRAINT "materials_type_id_material_types_id_fk";
+--> statement-breakpoint
+ALTER TABLE "materials" DROP CONSTRAINT "materials_assigned_to_id_volunteers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "schedules" DROP CONSTRAINT "schedules_volunteer_id_volunteers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "schedules" DROP CONSTRAINT "schedules_room_id_rooms_id_fk";
+--> statement-breakpoint
+ALTER TABLE "materials" RENAME COLUMN "assigned_to_id" TO "volunteer_id";--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "password" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "channel" text;--> statement-breakpoint
+ALTER TABLE "schedules" ADD COLUMN "is_responsible" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "admin" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_material_type_id_material_types_id_fk" FOREIGN KEY ("material_type_id") REFERENCES "public"."material_types"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_volunteer_id_volunteers_id_fk" FOREIGN KEY ("volunteer_id") REFERENCES "public"."volunteers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_logs" ADD CONSTRAINT "user_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "materials" ADD CONSTRAINT "materials_type_id_material_types_id_fk" FOREIGN KEY ("type_id") REFERENCES "public"."material_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "materials" ADD CONSTRAINT "materials_volunteer_id_volunteers_id_fk" FOREIGN KEY ("volunteer_id") REFERENCES "public"."volunteers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "schedules" ADD CONSTRAINT "schedules_volunteer_id_volunteers_id_fk" FOREIGN KEY ("volunteer_id") REFERENCES "public"."volunteers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "schedules" ADD CONSTRAINT "schedules_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "firebase_id_map" (
+	"collection" text NOT NULL,
+	"firebase_key" text NOT NULL,
+	"target_id" integer NOT NULL,
+	"imported_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "firebase_id_map_collection_firebase_key_pk" PRIMARY KEY("collection","firebase_key")
+);
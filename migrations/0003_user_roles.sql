@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'medewerker' NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "role" = 'admin' WHERE "admin" = true;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" DROP COLUMN "admin";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "rooms" ADD COLUMN "sufuf" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "sufuf_order" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "imam_label" text;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "sufuf_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prayer" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp,
+	"started_by" integer
+);
+--> statement-breakpoint
+CREATE TABLE "sufuf_status_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"room" text NOT NULL,
+	"status" text NOT NULL,
+	"reporter_id" integer,
+	"reporter_email" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sufuf_sessions" ADD CONSTRAINT "sufuf_sessions_started_by_users_id_fk" FOREIGN KEY ("started_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sufuf_status_events" ADD CONSTRAINT "sufuf_status_events_session_id_sufuf_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sufuf_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sufuf_status_events" ADD CONSTRAINT "sufuf_status_events_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "sufuf_status_events" ADD COLUMN "state" text;--> statement-breakpoint
+ALTER TABLE "sufuf_status_events" ADD COLUMN "message" text;--> statement-breakpoint
+ALTER TABLE "sufuf_status_events" ADD COLUMN "acknowledged_at" timestamp;
\ No newline at end of file
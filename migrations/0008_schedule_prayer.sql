@@ -0,0 +1 @@
+ALTER TABLE "schedules" ADD COLUMN "prayer" text;
\ No newline at end of file
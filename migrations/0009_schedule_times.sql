@@ -0,0 +1,2 @@
+ALTER TABLE "schedules" ADD COLUMN "start_time" text;--> statement-breakpoint
+ALTER TABLE "schedules" ADD COLUMN "end_time" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "schedules" ADD COLUMN "recurrence" jsonb;
\ No newline at end of file
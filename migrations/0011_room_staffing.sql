@@ -0,0 +1 @@
+ALTER TABLE "rooms" ADD COLUMN "staffing" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "volunteers" ADD COLUMN "availability" jsonb;
\ No newline at end of file
@@ -0,0 +1,184 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import { storage } from "./storage";
+import { comparePasswords, hashPassword } from "./password";
+import { firebaseProjectId, verifyFirebaseIdToken } from "./firebase-token";
+import { User as SelectUser } from "@shared/schema";
+import { ROLE_PERMISSIONS, hasPermission, resolveRole, type Permission, type UserRole } from "@shared/roles";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+export function getRole(user: SelectUser): UserRole {
+  return resolveRole(user);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser) {
+  const { password: _password, ...rest } = user;
+  const role = getRole(user);
+  return { ...rest, role, permissions: ROLE_PERMISSIONS[role] };
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!hasPermission(getRole(req.user), permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  };
+}
+
+// MemStorage starts empty on every boot, so without a database nobody could
+// log in: ADMIN_EMAIL and ADMIN_PASSWORD create an admin when that email has
+// no account yet. Existing accounts are left alone.
+export async function seedAdmin() {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) return;
+  if (password.length < 8) {
+    throw new Error("ADMIN_PASSWORD must be at least 8 characters");
+  }
+  if (await storage.getUserByEmail(email)) return;
+  await storage.createUser({ email, password: await hashPassword(password), role: "admin" });
+}
+
+// Returns the session middleware so the Sufuf socket can read the same sessions
+export function setupAuth(app: Express): RequestHandler {
+  const production = app.get("env") === "production";
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (production) {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    secret = "mefen-development-secret";
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge: 7 * 24 * 60 * 60 * 1000, // one week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email);
+        // Accounts imported from Firebase have no password until one is set
+        if (!user?.password || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Opens a session for someone already signed in with Firebase Auth, such as
+  // a user whose Firebase login outlived the server session: the ID token
+  // stands in for the password. The account is found by its email, so only
+  // an email Firebase has verified counts: anyone can create a Firebase
+  // account with someone else's address.
+  app.post("/api/session", async (req, res, next) => {
+    const projectId = firebaseProjectId();
+    if (!projectId) {
+      return res.status(501).json({ message: "FIREBASE_PROJECT_ID is not set" });
+    }
+    const idToken = req.body?.idToken;
+    if (typeof idToken !== "string") {
+      return res.status(400).json({ message: "Expected an idToken" });
+    }
+
+    let email: string | undefined;
+    try {
+      const token = await verifyFirebaseIdToken(idToken, projectId);
+      if (!token.emailVerified) {
+        return res.status(401).json({ message: "Email address not verified" });
+      }
+      email = token.email;
+    } catch (error) {
+      return res.status(401).json({ message: error instanceof Error ? error.message : "Invalid ID token" });
+    }
+
+    try {
+      const user = email ? await storage.getUserByEmail(email) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "No account for this user" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  return sessionMiddleware;
+}
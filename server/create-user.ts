@@ -0,0 +1,60 @@
+// Creates a login for the server-side session auth, or sets the password of
+// an existing user (e.g. one carried over from Firebase Auth).
+//
+//   npm run users:create -- <email> <password> [--role=<role>]
+//
+// Without a database (STORAGE_DRIVER=memory) there is nothing to write to:
+// the server creates an admin from ADMIN_EMAIL and ADMIN_PASSWORD instead.
+import { eq } from "drizzle-orm";
+import { connectDatabase } from "./db";
+import { hashPassword } from "./password";
+import { users } from "@shared/schema";
+import { ROLES, isRole } from "@shared/roles";
+
+if (process.env.STORAGE_DRIVER === "memory") {
+  console.error("STORAGE_DRIVER=memory keeps users in the server process; set ADMIN_EMAIL and ADMIN_PASSWORD instead");
+  process.exit(1);
+}
+
+const { db, pool } = connectDatabase();
+
+const usage = `Usage: npm run users:create -- <email> <password> [--role=${ROLES.join("|")}]`;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const roleArg = args.find((arg) => arg.startsWith("--role="))?.slice("--role=".length);
+  const [email, password] = args.filter((arg) => !arg.startsWith("--"));
+  if (!email || !password || (roleArg !== undefined && !isRole(roleArg))) {
+    console.error(usage);
+    process.exitCode = 1;
+    return;
+  }
+  if (password.length < 8) {
+    console.error("Password must be at least 8 characters");
+    process.exitCode = 1;
+    return;
+  }
+
+  const hashed = await hashPassword(password);
+  const [existing] = await db.select().from(users).where(eq(users.email, email));
+
+  if (existing) {
+    // Without --role the current role is kept
+    await db
+      .update(users)
+      .set({ password: hashed, ...(roleArg && { role: roleArg }) })
+      .where(eq(users.id, existing.id));
+    console.log(`Password set for ${email}`);
+  } else {
+    const role = roleArg ?? "medewerker";
+    await db.insert(users).values({ email, password: hashed, role });
+    console.log(`Created ${role} ${email}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Could not create user:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -5,11 +5,18 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Connecting is deferred to the caller so modules importing this file can be
+// loaded without a database, e.g. when the server runs on MemStorage.
+export function connectDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export type Database = ReturnType<typeof connectDatabase>["db"];
@@ -0,0 +1,31 @@
+import {
+  DEFAULT_PRAYER_TIME_SETTINGS,
+  prayerTimeSettingsSchema,
+  type PrayerTimeSettings,
+} from "@shared/prayer-times";
+
+// Reads the parts of the Realtime Database that the rules let anyone read,
+// such as `rooms` and `mosque`, through its REST API without credentials.
+
+function firebaseDatabaseUrl(): string {
+  return process.env.FIREBASE_DATABASE_URL
+    // The database of client/src/lib/firebase.ts
+    ?? "https://mefen-6da3c-default-rtdb.europe-west1.firebasedatabase.app";
+}
+
+/** The value at `path`, or null when there is none; throws when it cannot be read. */
+export async function readPublic<T>(path: string): Promise<T | null> {
+  const res = await fetch(`${firebaseDatabaseUrl()}/${path}.json`);
+  if (!res.ok) throw new Error(`Could not read ${path} from Firebase: ${res.status}`);
+  return (await res.json()) as T | null;
+}
+
+/**
+ * The prayer time settings of the Mijn Moskee page. As in the app, a missing
+ * or outdated record falls back to the defaults.
+ */
+export async function mosquePrayerTimes(): Promise<PrayerTimeSettings> {
+  const saved = await readPublic<Record<string, unknown>>("mosque/prayerTimes");
+  const parsed = prayerTimeSettingsSchema.safeParse({ ...DEFAULT_PRAYER_TIME_SETTINGS, ...saved });
+  return parsed.success ? parsed.data : DEFAULT_PRAYER_TIME_SETTINGS;
+}
@@ -0,0 +1,61 @@
+// Imports a Firebase Realtime Database JSON export into Postgres; see
+// server/firebase-mapping.ts for how records are mapped and matched.
+//
+//   npm run db:import-firebase -- <export.json> [--dry-run]
+import fs from "fs";
+import { connectDatabase } from "./db";
+import { importFirebaseData, imports, type CollectionReport } from "./firebase-mapping";
+
+class DryRunRollback extends Error {}
+
+function printReport(collection: string, report: CollectionReport) {
+  console.log(
+    `${collection}: ${report.inserted} inserted, ${report.updated} updated, ` +
+    `${report.rejected.length} rejected, ${report.orphans.length} orphans, ` +
+    `${report.missing.length} missing`,
+  );
+  for (const line of report.rejected) console.log(`  rejected ${line}`);
+  for (const line of report.orphans) console.log(`  orphan   ${line}`);
+  for (const line of report.missing) console.log(`  missing  ${line}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const file = args.find((arg) => !arg.startsWith("--"));
+  if (!file) {
+    console.error("Usage: npm run db:import-firebase -- <export.json> [--dry-run]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const data = JSON.parse(await fs.promises.readFile(file, "utf-8")) as Record<string, any>;
+  const { db, pool } = connectDatabase();
+
+  try {
+    await db.transaction(async (tx) => {
+      const reports = await importFirebaseData(tx, data);
+      for (const spec of imports) {
+        const report = reports.get(spec.collection);
+        if (report) {
+          printReport(spec.collection, report);
+        } else {
+          console.log(`${spec.collection}: not in export, skipped`);
+        }
+      }
+
+      if (dryRun) throw new DryRunRollback();
+    });
+    console.log("Import committed");
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+    console.log("Dry run: all changes rolled back");
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Import failed, nothing was written:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { IdResolver, importFirebaseData, imports, type CollectionImport } from "./firebase-mapping";
+
+const spec = (collection: string) => imports.find((spec) => spec.collection === collection) as CollectionImport;
+
+function resolver(known: Record<string, Record<string, number>>): IdResolver {
+  const ids = new IdResolver();
+  for (const [collection, keys] of Object.entries(known)) {
+    for (const [key, id] of Object.entries(keys)) ids.set(collection, key, id);
+  }
+  return ids;
+}
+
+const exported = {
+  users: { u1: { email: "admin@example.com", admin: true } },
+  volunteers: {
+    v1: { firstName: "Amina", lastName: "Peeters", phoneNumber: "0470123456" },
+    v2: { firstName: "Youssef", lastName: "Janssens", phoneNumber: "0470654321" },
+  },
+  rooms: { r1: { name: "Hal", sufuf: true } },
+  materialTypes: { t1: { name: "Hesje", maxCount: 10 } },
+  materials: { m1: { typeId: "t1", number: 3, volunteerId: "v1", isCheckedOut: true } },
+  plannings: {
+    p1: { volunteerId: "v1", roomId: "r1", startDate: "2024-01-05", endDate: "2024-01-05", prayer: "jumuah" },
+    p2: { volunteerId: "gone", roomId: "r1", startDate: "2024-01-05", endDate: "2024-01-05" },
+  },
+};
+
+async function migratedDatabase() {
+  const db = drizzle({ client: new PGlite(), schema });
+  await migrate(db, { migrationsFolder: "migrations" });
+  return db;
+}
+
+test("a planning keeps its whole last day and its prayer", () => {
+  const mapped = spec("plannings").map(exported.plannings.p1, "p1", resolver({ volunteers: { v1: 1 }, rooms: { r1: 2 } }));
+  assert.ok("values" in mapped);
+  assert.equal(mapped.values.volunteerId, 1);
+  assert.equal(mapped.values.roomId, 2);
+  assert.equal((mapped.values.endDate as Date).getHours(), 23);
+  assert.equal(mapped.values.prayer, "jumuah");
+});
+
+test("missing required references skip the record, missing optional ones are cleared", () => {
+  const ids = resolver({ rooms: { r1: 2 }, materialTypes: { t1: 5 } });
+  assert.deepEqual(spec("plannings").map(exported.plannings.p2, "p2", ids), { orphan: "unknown volunteer gone" });
+
+  const material = spec("materials").map(exported.materials.m1, "m1", ids);
+  assert.ok("values" in material);
+  assert.equal(material.values.volunteerId, null);
+  assert.deepEqual(material.orphans, ["borrower v1 cleared"]);
+});
+
+test("invalid nested data is rejected", () => {
+  const ids = resolver({ volunteers: { v1: 1 }, rooms: { r1: 2 } });
+  const planning = { ...exported.plannings.p1, recurrence: { frequency: "hourly" } };
+  assert.deepEqual(spec("plannings").map(planning, "p1", ids), { reject: "invalid recurrence" });
+  assert.deepEqual(spec("plannings").map({ ...exported.plannings.p1, endDate: "soon" }, "p1", ids), {
+    reject: "invalid start or end date",
+  });
+});
+
+test("importing the same export twice creates nothing new", async () => {
+  const db = await migratedDatabase();
+
+  const first = await db.transaction((tx) => importFirebaseData(tx, exported));
+  assert.equal(first.get("volunteers")!.inserted, 2);
+  assert.equal(first.get("plannings")!.inserted, 1);
+  assert.deepEqual(first.get("plannings")!.orphans, ["p2: unknown volunteer gone (skipped)"]);
+
+  const second = await db.transaction((tx) => importFirebaseData(tx, exported));
+  for (const [collection, report] of Array.from(second)) {
+    assert.equal(report.inserted, 0, collection);
+    assert.equal(report.updated, first.get(collection)!.inserted, collection);
+  }
+  assert.equal((await db.select().from(schema.volunteers)).length, 2);
+  assert.equal((await db.select().from(schema.schedules)).length, 1);
+  assert.equal((await db.select().from(schema.users))[0].role, "admin");
+});
+
+test("records deleted from Firebase are reported and their rows kept", async () => {
+  const db = await migratedDatabase();
+  await db.transaction((tx) => importFirebaseData(tx, exported));
+
+  const { v2: _deleted, ...remaining } = exported.volunteers;
+  const again = await db.transaction((tx) => importFirebaseData(tx, { ...exported, volunteers: remaining }));
+  assert.equal(again.get("volunteers")!.missing.length, 1);
+  assert.match(again.get("volunteers")!.missing[0], /^v2: row \d+ kept$/);
+  assert.equal((await db.select().from(schema.volunteers)).length, 2);
+});
@@ -0,0 +1,384 @@
+// Maps a Firebase Realtime Database JSON export onto the Postgres tables;
+// server/firebase-import.ts is the command that runs it.
+//
+// Every imported record is remembered in `firebase_id_map`, so running the
+// import again updates the rows it created earlier instead of duplicating
+// them. Records whose required references (a planning's volunteer or room, a
+// material's type) cannot be resolved are skipped and reported as orphans;
+// unresolved optional references (a material's borrower, a log's user) are
+// cleared and reported as well. Records that fail validation are rejected.
+// Records deleted from Firebase after an earlier import are not deleted here:
+// their rows may have been changed or referenced since, so they are only
+// reported as missing for someone to remove by hand.
+import { parseISO, endOfDay, isValid } from "date-fns";
+import { and, eq } from "drizzle-orm";
+import type { PgColumn, PgDatabase, PgQueryResultHKT, PgTable } from "drizzle-orm/pg-core";
+import type { z } from "zod";
+import * as schema from "@shared/schema";
+import {
+  users, volunteers, pendingVolunteers, rooms, spaces, materialTypes, materials,
+  schedules, userLogs, activityLogs, firebaseIdMap,
+  insertUserSchema, insertVolunteerSchema, insertPendingVolunteerSchema, insertRoomSchema,
+  insertSpaceSchema, insertMaterialTypeSchema, insertMaterialSchema, insertScheduleSchema,
+  insertUserLogSchema, insertActivityLogSchema,
+} from "@shared/schema";
+import { resolveRole } from "@shared/roles";
+import { isPrayer } from "@shared/prayer-times";
+import { recurrenceSchema } from "@shared/recurrence";
+import { roomStaffingSchema } from "@shared/staffing";
+import { availabilitySchema } from "@shared/availability";
+
+// A transaction on Neon in production, on PGlite in the tests
+export type Tx = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type FirebaseRecord = Record<string, any>;
+type ImportTable = PgTable & { id: PgColumn };
+
+export type MapResult =
+  | { values: Record<string, unknown>; orphans?: string[] }
+  | { orphan: string }
+  | { reject: string };
+
+export interface CollectionImport {
+  collection: string;
+  table: ImportTable;
+  schema: z.ZodTypeAny;
+  map(record: FirebaseRecord, key: string, ids: IdResolver): MapResult;
+  // Links a record to an existing row that was not created by a previous
+  // import, e.g. a user that already has an account with the same email
+  findExisting?(tx: Tx, values: Record<string, any>): Promise<number | undefined>;
+}
+
+export interface CollectionReport {
+  inserted: number;
+  updated: number;
+  rejected: string[];
+  orphans: string[];
+  // Imported earlier but no longer in the export; their rows are kept
+  missing: string[];
+}
+
+export class IdResolver {
+  private ids = new Map<string, Map<string, number>>();
+
+  async load(tx: Tx) {
+    for (const row of await tx.select().from(firebaseIdMap)) {
+      this.set(row.collection, row.firebaseKey, row.targetId);
+    }
+  }
+
+  keys(collection: string): string[] {
+    return Array.from(this.ids.get(collection)?.keys() ?? []);
+  }
+
+  get(collection: string, key: unknown): number | undefined {
+    if (typeof key !== "string" || !key) return undefined;
+    return this.ids.get(collection)?.get(key);
+  }
+
+  set(collection: string, key: string, id: number) {
+    if (!this.ids.has(collection)) this.ids.set(collection, new Map());
+    this.ids.get(collection)!.set(key, id);
+  }
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = typeof value === "number" ? new Date(value) : parseISO(value);
+  return isValid(date) ? date : undefined;
+}
+
+// Plannings store whole days as yyyy-MM-dd; the end date is inclusive
+function parsePlanningEnd(value: unknown): Date | undefined {
+  const date = parseDate(value);
+  if (!date) return undefined;
+  return typeof value === "string" && value.length === 10 ? endOfDay(date) : date;
+}
+
+export const imports: CollectionImport[] = [
+  {
+    collection: "users",
+    table: users,
+    schema: insertUserSchema,
+    map: (user) => ({ values: { email: user.email, role: resolveRole(user) } }),
+    findExisting: async (tx, values) => {
+      const [existing] = await tx.select({ id: users.id }).from(users).where(eq(users.email, values.email));
+      return existing?.id;
+    },
+  },
+  {
+    collection: "volunteers",
+    table: volunteers,
+    schema: insertVolunteerSchema,
+    map: (volunteer) => {
+      const availability = availabilitySchema.safeParse(volunteer.availability);
+      if (volunteer.availability && !availability.success) return { reject: "invalid availability" };
+
+      return {
+        values: {
+          firstName: volunteer.firstName,
+          lastName: volunteer.lastName,
+          phoneNumber: volunteer.phoneNumber,
+          availability: availability.success ? availability.data : null,
+        },
+      };
+    },
+  },
+  {
+    collection: "pending_volunteers",
+    table: pendingVolunteers,
+    schema: insertPendingVolunteerSchema,
+    map: (volunteer) => ({
+      values: {
+        firstName: volunteer.firstName,
+        lastName: volunteer.lastName,
+        phoneNumber: volunteer.phoneNumber,
+        submittedAt: parseDate(volunteer.submittedAt) ?? new Date(),
+        status: volunteer.status ?? "pending",
+      },
+    }),
+  },
+  {
+    collection: "rooms",
+    table: rooms,
+    schema: insertRoomSchema,
+    map: (room) => {
+      const staffing = roomStaffingSchema.safeParse(room.staffing);
+      if (room.staffing && !staffing.success) return { reject: "invalid staffing requirements" };
+
+      return {
+        values: {
+          name: room.name,
+          channel: room.channel || null,
+          sufuf: room.sufuf === true,
+          sufufOrder: typeof room.sufufOrder === "number" ? room.sufufOrder : 0,
+          imamLabel: room.imamLabel || null,
+          staffing: staffing.success ? staffing.data : null,
+        },
+      };
+    },
+  },
+  {
+    collection: "spaces",
+    table: spaces,
+    schema: insertSpaceSchema,
+    map: (space) => ({ values: { name: space.name } }),
+  },
+  {
+    collection: "materialTypes",
+    table: materialTypes,
+    schema: insertMaterialTypeSchema,
+    map: (type) => ({ values: { name: type.name, maxCount: Number(type.maxCount) } }),
+  },
+  {
+    collection: "materials",
+    table: materials,
+    schema: insertMaterialSchema,
+    map: (material, _key, ids) => {
+      const typeId = ids.get("materialTypes", material.typeId);
+      if (!typeId) return { orphan: `unknown material type ${material.typeId}` };
+
+      const orphans: string[] = [];
+      const volunteerId = ids.get("volunteers", material.volunteerId);
+      if (material.volunteerId && !volunteerId) {
+        orphans.push(`borrower ${material.volunteerId} cleared`);
+      }
+
+      return {
+        values: {
+          typeId,
+          number: Number(material.number),
+          volunteerId: volunteerId ?? null,
+          isCheckedOut: material.isCheckedOut === true,
+        },
+        orphans,
+      };
+    },
+  },
+  {
+    collection: "plannings",
+    table: schedules,
+    schema: insertScheduleSchema,
+    map: (planning, _key, ids) => {
+      const volunteerId = ids.get("volunteers", planning.volunteerId);
+      if (!volunteerId) return { orphan: `unknown volunteer ${planning.volunteerId}` };
+      const roomId = ids.get("rooms", planning.roomId);
+      if (!roomId) return { orphan: `unknown room ${planning.roomId}` };
+
+      const startDate = parseDate(planning.startDate);
+      const endDate = parsePlanningEnd(planning.endDate);
+      if (!startDate || !endDate) return { reject: "invalid start or end date" };
+
+      const recurrence = recurrenceSchema.safeParse(planning.recurrence);
+      if (planning.recurrence && !recurrence.success) return { reject: "invalid recurrence" };
+
+      return {
+        values: {
+          volunteerId,
+          roomId,
+          startDate,
+          endDate,
+          isResponsible: planning.isResponsible === true,
+          startTime: planning.startTime || null,
+          endTime: planning.endTime || null,
+          prayer: isPrayer(planning.prayer) ? planning.prayer : null,
+          recurrence: recurrence.success ? recurrence.data : null,
+        },
+      };
+    },
+  },
+  {
+    collection: "user_logs",
+    table: userLogs,
+    schema: insertUserLogSchema,
+    map: (entry, _key, ids) => {
+      const orphans: string[] = [];
+      const userId = ids.get("users", entry.userId);
+      if (entry.userId && !userId) orphans.push(`user ${entry.userId} cleared`);
+
+      const timestamp = parseDate(entry.timestamp);
+      if (!timestamp) return { reject: "invalid timestamp" };
+
+      return {
+        values: {
+          userId: userId ?? null,
+          userEmail: entry.userEmail ?? "unknown",
+          action: entry.action,
+          details: entry.details ?? null,
+          timestamp,
+          targetType: entry.targetType ?? null,
+          targetId: entry.targetId ?? null,
+          targetName: entry.targetName ?? null,
+          category: entry.category ?? null,
+        },
+        orphans,
+      };
+    },
+  },
+  {
+    collection: "activityLogs",
+    table: activityLogs,
+    schema: insertActivityLogSchema,
+    map: (entry, _key, ids) => {
+      const orphans: string[] = [];
+      const materialTypeId = ids.get("materialTypes", entry.materialTypeId);
+      if (entry.materialTypeId && !materialTypeId) orphans.push(`material type ${entry.materialTypeId} cleared`);
+      const volunteerId = ids.get("volunteers", entry.volunteerId);
+      if (entry.volunteerId && !volunteerId) orphans.push(`volunteer ${entry.volunteerId} cleared`);
+
+      const timestamp = parseDate(entry.timestamp);
+      if (!timestamp) return { reject: "invalid timestamp" };
+
+      return {
+        values: {
+          action: entry.action,
+          materialTypeId: materialTypeId ?? null,
+          materialNumber: Number(entry.materialNumber),
+          volunteerId: volunteerId ?? null,
+          timestamp,
+          originalCheckoutDate: parseDate(entry.originalCheckoutDate) ?? null,
+        },
+        orphans,
+      };
+    },
+  },
+];
+
+export async function importCollection(
+  tx: Tx,
+  spec: CollectionImport,
+  records: Record<string, FirebaseRecord>,
+  ids: IdResolver,
+): Promise<CollectionReport> {
+  const report: CollectionReport = { inserted: 0, updated: 0, rejected: [], orphans: [], missing: [] };
+  for (const key of ids.keys(spec.collection)) {
+    if (!(key in records)) report.missing.push(`${key}: row ${ids.get(spec.collection, key)} kept`);
+  }
+
+  for (const [key, record] of Object.entries(records)) {
+    if (!record || typeof record !== "object") {
+      report.rejected.push(`${key}: not an object`);
+      continue;
+    }
+
+    const mapped = spec.map(record, key, ids);
+    if ("orphan" in mapped) {
+      report.orphans.push(`${key}: ${mapped.orphan} (skipped)`);
+      continue;
+    }
+    if ("reject" in mapped) {
+      report.rejected.push(`${key}: ${mapped.reject}`);
+      continue;
+    }
+
+    const parsed = spec.schema.safeParse(mapped.values);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      report.rejected.push(`${key}: ${issue.path.join(".")} ${issue.message}`);
+      continue;
+    }
+    for (const orphan of mapped.orphans ?? []) {
+      report.orphans.push(`${key}: ${orphan}`);
+    }
+
+    const values = parsed.data;
+    const existingId = ids.get(spec.collection, key) ?? (await spec.findExisting?.(tx, values));
+
+    if (existingId) {
+      const [updated] = await tx
+        .update(spec.table)
+        .set(values)
+        .where(eq(spec.table.id, existingId))
+        .returning({ id: spec.table.id });
+      if (updated) {
+        await recordMapping(tx, spec.collection, key, existingId);
+        ids.set(spec.collection, key, existingId);
+        report.updated++;
+        continue;
+      }
+      // The row was deleted after an earlier import; create it again
+    }
+
+    const [created] = await tx.insert(spec.table).values(values).returning({ id: spec.table.id });
+    const id = created.id as number;
+    await recordMapping(tx, spec.collection, key, id);
+    ids.set(spec.collection, key, id);
+    report.inserted++;
+  }
+
+  return report;
+}
+
+async function recordMapping(tx: Tx, collection: string, firebaseKey: string, targetId: number) {
+  const [existing] = await tx
+    .select()
+    .from(firebaseIdMap)
+    .where(and(eq(firebaseIdMap.collection, collection), eq(firebaseIdMap.firebaseKey, firebaseKey)));
+
+  if (existing) {
+    await tx
+      .update(firebaseIdMap)
+      .set({ targetId, importedAt: new Date() })
+      .where(and(eq(firebaseIdMap.collection, collection), eq(firebaseIdMap.firebaseKey, firebaseKey)));
+  } else {
+    await tx.insert(firebaseIdMap).values({ collection, firebaseKey, targetId });
+  }
+}
+
+/**
+ * Imports every collection of the export in dependency order; collections
+ * the export does not have are left out of the result.
+ */
+export async function importFirebaseData(
+  tx: Tx,
+  data: Record<string, any>,
+): Promise<Map<string, CollectionReport>> {
+  const ids = new IdResolver();
+  await ids.load(tx);
+
+  const reports = new Map<string, CollectionReport>();
+  for (const spec of imports) {
+    const records = data[spec.collection];
+    if (records) reports.set(spec.collection, await importCollection(tx, spec, records, ids));
+  }
+  return reports;
+}
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createSign, generateKeyPairSync } from "crypto";
+import { verifyFirebaseIdToken } from "./firebase-token";
+
+const PROJECT = "mefen-test";
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+// Stands in for Google's key endpoint
+globalThis.fetch = async () => new Response(
+  JSON.stringify({ key1: publicKey.export({ type: "spki", format: "pem" }) }),
+  { headers: { "Cache-Control": "max-age=3600" } },
+);
+
+function idToken(claims: Record<string, unknown>): string {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+  const body = `${encode({ alg: "RS256", kid: "key1" })}.${encode({
+    aud: PROJECT,
+    iss: `https://securetoken.google.com/${PROJECT}`,
+    sub: "uid-1",
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  })}`;
+  return `${body}.${createSign("RSA-SHA256").update(body).sign(privateKey, "base64url")}`;
+}
+
+test("only an email Firebase verified is reported as verified", async () => {
+  const verified = await verifyFirebaseIdToken(idToken({ email: "a@example.com", email_verified: true }), PROJECT);
+  assert.deepEqual(verified, { uid: "uid-1", email: "a@example.com", emailVerified: true });
+
+  const unverified = await verifyFirebaseIdToken(idToken({ email: "a@example.com" }), PROJECT);
+  assert.equal(unverified.emailVerified, false);
+});
+
+test("tokens for another project or with a bad signature are refused", async () => {
+  await assert.rejects(verifyFirebaseIdToken(idToken({ aud: "other" }), PROJECT), /another project/);
+
+  const [header, payload] = idToken({}).split(".");
+  await assert.rejects(verifyFirebaseIdToken(`${header}.${payload}.AAAA`, PROJECT), /signature/);
+});
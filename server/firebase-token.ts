@@ -0,0 +1,69 @@
+import { createVerify } from "crypto";
+
+// Verifies Firebase Auth ID tokens without the Admin SDK, following
+// https://firebase.google.com/docs/auth/admin/verify-id-tokens: an RS256 JWT
+// signed by one of Google's rotating keys, issued for our project.
+
+const CERTS_URL = "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+
+// Allowed difference between our clock and Google's
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface FirebaseIdToken {
+  uid: string;
+  email?: string;
+  // Whether Firebase checked that the user owns `email`
+  emailVerified: boolean;
+}
+
+let certs: { keys: Record<string, string>; expires: number } | null = null;
+
+// Google says how long the keys may be cached in Cache-Control
+async function publicKeys(): Promise<Record<string, string>> {
+  if (certs && certs.expires > Date.now()) return certs.keys;
+  const res = await fetch(CERTS_URL);
+  if (!res.ok) throw new Error(`Could not fetch the Firebase signing keys: ${res.status}`);
+  const maxAge = Number(/max-age=(\d+)/.exec(res.headers.get("cache-control") ?? "")?.[1] ?? 0);
+  certs = { keys: (await res.json()) as Record<string, string>, expires: Date.now() + maxAge * 1000 };
+  return certs.keys;
+}
+
+function decodePart(part: string): Record<string, any> {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+}
+
+// The project the client signs in to; the same value the frontend gets as
+// VITE_FIREBASE_PROJECT_ID
+export function firebaseProjectId(): string | undefined {
+  return process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+}
+
+/** The user the token was issued to; throws when it is not a valid token for `projectId`. */
+export async function verifyFirebaseIdToken(idToken: string, projectId: string): Promise<FirebaseIdToken> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  const [headerPart, payloadPart, signature] = parts;
+  const header = decodePart(headerPart);
+  const payload = decodePart(payloadPart);
+
+  if (header.alg !== "RS256") throw new Error("Unexpected ID token algorithm");
+  const cert = (await publicKeys())[header.kid];
+  if (!cert) throw new Error("ID token signed with an unknown key");
+  const verifier = createVerify("RSA-SHA256");
+  verifier.update(`${headerPart}.${payloadPart}`);
+  if (!verifier.verify(cert, signature, "base64url")) throw new Error("Invalid ID token signature");
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error("ID token issued for another project");
+  }
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_SECONDS < now) throw new Error("ID token expired");
+  if (typeof payload.iat !== "number" || payload.iat - CLOCK_SKEW_SECONDS > now) throw new Error("ID token issued in the future");
+  if (typeof payload.sub !== "string" || !payload.sub) throw new Error("ID token without a user");
+
+  return {
+    uid: payload.sub,
+    email: typeof payload.email === "string" ? payload.email : undefined,
+    emailVerified: payload.email_verified === true,
+  };
+}
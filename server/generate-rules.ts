@@ -0,0 +1,8 @@
+// Writes database.rules.json from the roles in shared/roles.ts.
+//
+//   npm run rules:generate
+import { writeFileSync } from "fs";
+import { rulesFile } from "@shared/firebase-rules";
+
+writeFileSync("database.rules.json", rulesFile());
+console.log("Wrote database.rules.json");
@@ -0,0 +1,131 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes, errorHandler } from "./routes";
+import { storage } from "./storage";
+import { hashPassword } from "./password";
+import type { UserRole } from "@shared/roles";
+
+// The test script runs with STORAGE_DRIVER=memory, so `storage` is a
+// MemStorage shared with the routes
+
+// The routes read public records from the Realtime Database, which has none
+// here: the mosque settings fall back to the defaults
+const serverFetch = globalThis.fetch;
+globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) =>
+  String(input).endsWith(".json") ? new Response("null") : serverFetch(input, init)) as typeof fetch;
+
+let server: Server;
+let baseUrl: string;
+let admin: string;
+let imam: string;
+
+async function logIn(email: string, role: UserRole): Promise<string> {
+  await storage.createUser({ email, password: await hashPassword("secret123"), role });
+  const res = await fetch(`${baseUrl}/api/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password: "secret123" }),
+  });
+  assert.equal(res.status, 200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+function request(method: string, path: string, cookie?: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(cookie ? { Cookie: cookie } : {}),
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  admin = await logIn("admin@example.com", "admin");
+  imam = await logIn("imam@example.com", "imam");
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test("the API needs a session, except the public sign-up form", async () => {
+  assert.equal((await request("GET", "/api/volunteers")).status, 401);
+
+  const signUp = await request("POST", "/api/pending-volunteers", undefined, {
+    firstName: "Amina", lastName: "Peeters", phoneNumber: "0470123456", submittedAt: new Date().toISOString(),
+  });
+  assert.equal(signUp.status, 201);
+});
+
+test("a role without the permission is forbidden", async () => {
+  assert.equal((await request("GET", "/api/volunteers", imam)).status, 403);
+  const create = await request("POST", "/api/rooms", imam, { name: "Hal" });
+  assert.equal(create.status, 403);
+  assert.deepEqual(await storage.listRooms(), []);
+});
+
+test("invalid ids and bodies are bad requests", async () => {
+  const badId = await request("GET", "/api/volunteers/abc", admin);
+  assert.equal(badId.status, 400);
+  assert.match((await badId.json()).message, /Invalid id/);
+
+  const invalid = await request("POST", "/api/volunteers", admin, { firstName: "Amina" });
+  assert.equal(invalid.status, 400);
+});
+
+test("unknown ids are not found", async () => {
+  assert.equal((await request("GET", "/api/rooms/999", admin)).status, 404);
+  assert.equal((await request("PATCH", "/api/rooms/999", admin, { name: "Hal" })).status, 404);
+  assert.equal((await request("DELETE", "/api/rooms/999", admin)).status, 404);
+  assert.equal((await request("POST", "/api/pending-volunteers/999/approve", admin)).status, 404);
+});
+
+test("deleting checked out material is a conflict", async () => {
+  const volunteer = await storage.createVolunteer({ firstName: "Youssef", lastName: "Janssens", phoneNumber: "0470654321" });
+  const material = await storage.createMaterial({ number: 7 });
+  const checkout = await request("POST", `/api/materials/${material.id}/checkout`, admin, { volunteerId: volunteer.id });
+  assert.equal(checkout.status, 200);
+
+  const remove = await request("DELETE", `/api/materials/${material.id}`, admin);
+  assert.equal(remove.status, 409);
+  assert.ok(await storage.getMaterial(material.id));
+});
+
+test("a schedule that double-books a volunteer is a conflict", async () => {
+  const volunteer = await storage.createVolunteer({ firstName: "Sara", lastName: "Wouters", phoneNumber: "0470111222" });
+  const room = await storage.createRoom({ name: "Boven" });
+  const schedule = (overrides: object) => ({
+    volunteerId: volunteer.id,
+    roomId: room.id,
+    startDate: "2024-01-05T00:00:00",
+    endDate: "2024-01-05T23:59:59",
+    ...overrides,
+  });
+
+  const morning = await request("POST", "/api/schedules", admin, schedule({ startTime: "09:00", endTime: "12:00" }));
+  assert.equal(morning.status, 201);
+  const { id } = await morning.json();
+
+  const overlapping = await request("POST", "/api/schedules", admin, schedule({ startTime: "11:00", endTime: "13:00" }));
+  assert.equal(overlapping.status, 409);
+  const wholeDay = await request("POST", "/api/schedules", admin, schedule({}));
+  assert.equal(wholeDay.status, 409);
+
+  const afternoon = await request("POST", "/api/schedules", admin, schedule({ startTime: "14:00", endTime: "16:00" }));
+  assert.equal(afternoon.status, 201);
+  assert.equal((await request("PATCH", `/api/schedules/${id}`, admin, { endTime: "11:00" })).status, 200);
+  assert.equal((await request("PATCH", `/api/schedules/${id}`, admin, { endTime: "15:00" })).status, 409);
+});
@@ -1,15 +1,317 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { setupAuth, seedAdmin, requireAuth, requirePermission } from "./auth";
+import { setupSufuf } from "./sufuf";
+import {
+  insertVolunteerSchema,
+  insertPendingVolunteerSchema,
+  insertRoomSchema,
+  insertMaterialTypeSchema,
+  insertMaterialSchema,
+  insertScheduleSchema,
+  type Schedule,
+} from "@shared/schema";
+import type { Permission } from "@shared/roles";
+import { freeVolunteers } from "@shared/availability";
+import { shiftTimesIssue } from "@shared/shifts";
+import { findConflicts, type ConflictPlanning } from "@shared/conflicts";
+import type { Prayer } from "@shared/prayer-times";
+import type { Recurrence } from "@shared/recurrence";
+import { mosquePrayerTimes } from "./firebase-database";
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Answers with the error's status. HttpError, StorageConflictError and the
+ * body parser's errors are expected and end there; anything else is a bug
+ * and is rethrown so it gets logged with its stack.
+ */
+export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
+  const status = err.status || err.statusCode || 500;
+  const message = err.message || "Internal Server Error";
+
+  res.status(status).json({ message });
+  if (status >= 500) throw err;
+}
+
+// Express 4 does not forward rejected promises to the error handler
+function handle(fn: (req: Request, res: Response) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
+
+function parseId(req: Request): number {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, `Invalid id: ${req.params.id}`);
+  }
+  return id;
+}
+
+function validate<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new HttpError(400, fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+interface CrudResource<T, I> {
+  list(): Promise<T[]>;
+  get(id: number): Promise<T | undefined>;
+  create(data: I): Promise<T>;
+  update(id: number, data: Partial<I>): Promise<T | undefined>;
+  remove(id: number): Promise<void>;
+}
+
+interface CrudOptions<I> {
+  readPermission: Permission;
+  writePermission: Permission;
+  // Lets anonymous visitors create, e.g. the public volunteer sign-up form
+  publicCreate?: boolean;
+  // Rules across fields, checked on the whole item after an update too;
+  // returns what is wrong or null
+  check?: (item: I) => string | null;
+  // Clashes with other items, answered with 409; returns the clash or null.
+  // `id` is the item being updated, which cannot clash with itself.
+  conflict?: (item: I, id?: number) => Promise<string | null>;
+}
+
+function registerCrudRoutes<T, S extends z.AnyZodObject>(
+  app: Express,
+  path: string,
+  schema: S,
+  resource: CrudResource<T, z.infer<S>>,
+  options: CrudOptions<z.infer<S>>,
+) {
+  const createSchema = schema.omit({ id: true });
+  const updateSchema = createSchema.partial();
+  const canRead = requirePermission(options.readPermission);
+  const canWrite = requirePermission(options.writePermission);
+
+  app.get(path, canRead, handle(async (_req, res) => {
+    res.json(await resource.list());
+  }));
+
+  app.get(`${path}/:id`, canRead, handle(async (req, res) => {
+    const item = await resource.get(parseId(req));
+    if (!item) throw new HttpError(404, "Not found");
+    res.json(item);
+  }));
+
+  const check = async (item: z.infer<S>, id?: number) => {
+    const problem = options.check?.(item);
+    if (problem) throw new HttpError(400, problem);
+    const conflict = await options.conflict?.(item, id);
+    if (conflict) throw new HttpError(409, conflict);
+  };
+
+  app.post(path, ...(options.publicCreate ? [] : [canWrite]), handle(async (req, res) => {
+    const data = validate(createSchema, req.body);
+    await check(data);
+    res.status(201).json(await resource.create(data));
+  }));
+
+  app.patch(`${path}/:id`, canWrite, handle(async (req, res) => {
+    const id = parseId(req);
+    const data = validate(updateSchema, req.body);
+    if (options.check || options.conflict) {
+      const existing = await resource.get(id);
+      if (!existing) throw new HttpError(404, "Not found");
+      await check({ ...existing, ...data } as z.infer<S>, id);
+    }
+    const item = await resource.update(id, data);
+    if (!item) throw new HttpError(404, "Not found");
+    res.json(item);
+  }));
+
+  app.delete(`${path}/:id`, canWrite, handle(async (req, res) => {
+    const id = parseId(req);
+    if (!(await resource.get(id))) throw new HttpError(404, "Not found");
+    await resource.remove(id);
+    res.status(204).end();
+  }));
+}
+
+const checkoutSchema = z.object({
+  volunteerId: z.number().int().positive(),
+});
+
+const freeVolunteersQuery = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as yyyy-MM-dd"),
+});
+
+// A stored schedule or one about to be saved
+type ScheduleFields = Pick<Schedule, "startDate" | "endDate"> & {
+  volunteerId?: number | null;
+  roomId?: number | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  prayer?: string | null;
+  recurrence?: Recurrence | null;
+};
+
+function toConflictPlanning(schedule: ScheduleFields): ConflictPlanning {
+  return {
+    volunteerId: String(schedule.volunteerId),
+    roomId: String(schedule.roomId),
+    startDate: format(schedule.startDate, "yyyy-MM-dd"),
+    endDate: format(schedule.endDate, "yyyy-MM-dd"),
+    startTime: schedule.startTime,
+    endTime: schedule.endTime,
+    prayer: schedule.prayer as Prayer | null | undefined,
+    recurrence: schedule.recurrence,
+  };
+}
+
+// The same double-booking check as the planning form, which only an admin
+// with a reason can override there; the API has no override
+async function scheduleConflict(schedule: ScheduleFields, id?: number): Promise<string | null> {
+  if (schedule.volunteerId == null) return null;
+  const others = (await storage.listSchedules()).filter((other) => other.id !== id);
+  const [conflict] = findConflicts(
+    toConflictPlanning(schedule),
+    others.map((other) => ({ ...toConflictPlanning(other), id: other.id })),
+    await mosquePrayerTimes(),
+  );
+  return conflict
+    ? `Volunteer is already planned in schedule ${conflict.planning.id} on ${conflict.date}`
+    : null;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  const sessionMiddleware = setupAuth(app);
+  await seedAdmin();
+
+  // Everything below needs a session, except the public volunteer sign-up form
+  app.use("/api", (req, res, next) => {
+    if (req.method === "POST" && req.path === "/pending-volunteers") return next();
+    requireAuth(req, res, next);
+  });
+
+  // Who can still be planned on a day: available and not planned yet.
+  // Registered before the CRUD routes so "free" is not parsed as an id
+  app.get("/api/volunteers/free", requirePermission("planning:read"), handle(async (req, res) => {
+    const { date } = validate(freeVolunteersQuery, req.query);
+    const [volunteers, schedules] = await Promise.all([storage.listVolunteers(), storage.listSchedules()]);
+    const plannings = schedules.map((schedule) => ({
+      volunteerId: schedule.volunteerId,
+      startDate: format(schedule.startDate, "yyyy-MM-dd"),
+      endDate: format(schedule.endDate, "yyyy-MM-dd"),
+      recurrence: schedule.recurrence,
+    }));
+    res.json(freeVolunteers(volunteers, plannings, parseISO(date)));
+  }));
+
+  registerCrudRoutes(app, "/api/volunteers", insertVolunteerSchema, {
+    list: () => storage.listVolunteers(),
+    get: (id) => storage.getVolunteer(id),
+    create: (data) => storage.createVolunteer(data),
+    update: (id, data) => storage.updateVolunteer(id, data),
+    remove: (id) => storage.deleteVolunteer(id),
+  }, { readPermission: "volunteers:read", writePermission: "volunteers:write" });
+
+  registerCrudRoutes(app, "/api/pending-volunteers", insertPendingVolunteerSchema, {
+    list: () => storage.listPendingVolunteers(),
+    get: (id) => storage.getPendingVolunteer(id),
+    create: (data) => storage.createPendingVolunteer(data),
+    update: (id, data) => storage.updatePendingVolunteer(id, data),
+    remove: (id) => storage.deletePendingVolunteer(id),
+  }, {
+    readPermission: "volunteers:read",
+    writePermission: "volunteers:write",
+    publicCreate: true,
+  });
+
+  app.post("/api/pending-volunteers/:id/approve", requirePermission("volunteers:write"), handle(async (req, res) => {
+    const volunteer = await storage.approvePendingVolunteer(parseId(req));
+    if (!volunteer) throw new HttpError(404, "Not found");
+    res.status(201).json(volunteer);
+  }));
+
+  registerCrudRoutes(app, "/api/rooms", insertRoomSchema, {
+    list: () => storage.listRooms(),
+    get: (id) => storage.getRoom(id),
+    create: (data) => storage.createRoom(data),
+    update: (id, data) => storage.updateRoom(id, data),
+    remove: (id) => storage.deleteRoom(id),
+  }, { readPermission: "planning:read", writePermission: "rooms:manage" });
+
+  registerCrudRoutes(app, "/api/material-types", insertMaterialTypeSchema, {
+    list: () => storage.listMaterialTypes(),
+    get: (id) => storage.getMaterialType(id),
+    create: (data) => storage.createMaterialType(data),
+    update: (id, data) => storage.updateMaterialType(id, data),
+    remove: (id) => storage.deleteMaterialType(id),
+  }, { readPermission: "materials:read", writePermission: "materials:manage" });
+
+  registerCrudRoutes(app, "/api/materials", insertMaterialSchema, {
+    list: () => storage.listMaterials(),
+    get: (id) => storage.getMaterial(id),
+    create: (data) => storage.createMaterial(data),
+    update: (id, data) => storage.updateMaterial(id, data),
+    remove: (id) => storage.deleteMaterial(id),
+  }, { readPermission: "materials:read", writePermission: "materials:checkout" });
+
+  app.post("/api/materials/:id/checkout", requirePermission("materials:checkout"), handle(async (req, res) => {
+    const id = parseId(req);
+    const { volunteerId } = validate(checkoutSchema, req.body);
+    if (!(await storage.getMaterial(id))) throw new HttpError(404, "Not found");
+    if (!(await storage.getVolunteer(volunteerId))) throw new HttpError(400, "Unknown volunteer");
+    res.json(await storage.updateMaterialCheckout(id, true, volunteerId));
+  }));
+
+  app.post("/api/materials/:id/return", requirePermission("materials:checkout"), handle(async (req, res) => {
+    const id = parseId(req);
+    if (!(await storage.getMaterial(id))) throw new HttpError(404, "Not found");
+    res.json(await storage.updateMaterialCheckout(id, false));
+  }));
+
+  // Registered before the CRUD routes so "active" is not parsed as an id
+  app.get("/api/schedules/active", requirePermission("planning:read"), handle(async (_req, res) => {
+    res.json(await storage.listActiveSchedules());
+  }));
+
+  registerCrudRoutes(app, "/api/schedules", insertScheduleSchema, {
+    list: () => storage.listSchedules(),
+    get: (id) => storage.getSchedule(id),
+    create: (data) => storage.createSchedule(data),
+    update: (id, data) => storage.updateSchedule(id, data),
+    remove: (id) => storage.deleteSchedule(id),
+  }, {
+    readPermission: "planning:read",
+    writePermission: "planning:write",
+    check: (schedule) => shiftTimesIssue(schedule)?.message ?? null,
+    conflict: scheduleConflict,
+  });
+
+  // Timeline of the Sufuf board: the latest prayer sessions, newest first,
+  // each with its status changes in the order they were reported
+  const sufufSessionsQuery = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  });
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.get("/api/sufuf/sessions", requirePermission("sufuf:history"), handle(async (req, res) => {
+    const { limit } = validate(sufufSessionsQuery, req.query);
+    const sessions = await storage.listSufufSessions(limit);
+    const events = await storage.listSufufStatusEvents(sessions.map((session) => session.id));
+    res.json(sessions.map((session) => ({
+      ...session,
+      events: events.filter((event) => event.sessionId === session.id),
+    })));
+  }));
 
   const httpServer = createServer(app);
+  setupSufuf(httpServer, sessionMiddleware);
 
   return httpServer;
 }
@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, StorageConflictError } from "./storage";
+
+const volunteer = { firstName: "Amina", lastName: "Peeters", phoneNumber: "0470123456" };
+
+function schedule(volunteerId: number, roomId: number) {
+  return {
+    volunteerId,
+    roomId,
+    startDate: new Date(2024, 0, 5),
+    endDate: new Date(2024, 0, 5, 23, 59),
+  };
+}
+
+test("creates, reads, updates and deletes a room", async () => {
+  const storage = new MemStorage();
+  const room = await storage.createRoom({ name: "Hal" });
+  assert.equal(room.sufuf, false);
+  assert.deepEqual(await storage.getRoom(room.id), room);
+
+  const updated = await storage.updateRoom(room.id, { name: "Grote hal", channel: undefined });
+  assert.equal(updated?.name, "Grote hal");
+  assert.equal(updated?.channel, null);
+  assert.equal(await storage.updateRoom(999, { name: "Nergens" }), undefined);
+
+  await storage.deleteRoom(room.id);
+  assert.deepEqual(await storage.listRooms(), []);
+});
+
+test("a second user with the same email is a conflict", async () => {
+  const storage = new MemStorage();
+  await storage.createUser({ email: "a@example.com", role: "admin" });
+  await assert.rejects(
+    storage.createUser({ email: "a@example.com", role: "medewerker" }),
+    StorageConflictError,
+  );
+});
+
+test("approving a pending volunteer turns it into a volunteer", async () => {
+  const storage = new MemStorage();
+  const pending = await storage.createPendingVolunteer(volunteer);
+  assert.equal(pending.status, "pending");
+
+  const approved = await storage.approvePendingVolunteer(pending.id);
+  assert.deepEqual(
+    { firstName: approved?.firstName, lastName: approved?.lastName, phoneNumber: approved?.phoneNumber },
+    volunteer,
+  );
+  assert.equal(await storage.getPendingVolunteer(pending.id), undefined);
+  assert.equal((await storage.listVolunteers()).length, 1);
+  assert.equal(await storage.approvePendingVolunteer(pending.id), undefined);
+});
+
+test("deleting a volunteer deletes their plannings and frees returned material", async () => {
+  const storage = new MemStorage();
+  const { id: volunteerId } = await storage.createVolunteer(volunteer);
+  const { id: roomId } = await storage.createRoom({ name: "Hal" });
+  await storage.createSchedule(schedule(volunteerId, roomId));
+  const material = await storage.createMaterial({ number: 1, volunteerId });
+
+  await storage.deleteVolunteer(volunteerId);
+  assert.deepEqual(await storage.listSchedules(), []);
+  assert.equal((await storage.getMaterial(material.id))?.volunteerId, null);
+});
+
+test("a volunteer or material with checked out material is not deleted", async () => {
+  const storage = new MemStorage();
+  const { id: volunteerId } = await storage.createVolunteer(volunteer);
+  const { id: typeId } = await storage.createMaterialType({ name: "Hesje", maxCount: 10 });
+  const material = await storage.createMaterial({ typeId, number: 1 });
+  await storage.updateMaterialCheckout(material.id, true, volunteerId);
+
+  await assert.rejects(storage.deleteVolunteer(volunteerId), StorageConflictError);
+  await assert.rejects(storage.deleteMaterial(material.id), StorageConflictError);
+  await assert.rejects(storage.deleteMaterialType(typeId), StorageConflictError);
+  assert.ok(await storage.getVolunteer(volunteerId));
+
+  await storage.updateMaterialCheckout(material.id, false);
+  await storage.deleteMaterialType(typeId);
+  assert.deepEqual(await storage.listMaterials(), []);
+});
+
+test("deleting a room deletes its plannings", async () => {
+  const storage = new MemStorage();
+  const { id: volunteerId } = await storage.createVolunteer(volunteer);
+  const hall = await storage.createRoom({ name: "Hal" });
+  const upstairs = await storage.createRoom({ name: "Boven" });
+  await storage.createSchedule(schedule(volunteerId, hall.id));
+  const kept = await storage.createSchedule(schedule(volunteerId, upstairs.id));
+
+  await storage.deleteRoom(hall.id);
+  assert.deepEqual(await storage.listSchedules(), [kept]);
+});
@@ -1,49 +1,86 @@
 import { 
-  volunteers, rooms, materials, schedules, materialTypes, pendingVolunteers,
-  type Volunteer, type Room, type Material, type Schedule, type MaterialType, type PendingVolunteer,
-  type InsertVolunteer, type InsertRoom, type InsertMaterial, type InsertSchedule, type InsertMaterialType, type InsertPendingVolunteer
+  users, volunteers, rooms, materials, schedules, materialTypes, pendingVolunteers, sufufSessions, sufufStatusEvents,
+  type User, type Volunteer, type Room, type Material, type Schedule, type MaterialType, type PendingVolunteer,
+  type SufufSession, type SufufStatusEvent,
+  type InsertUser, type InsertVolunteer, type InsertRoom, type InsertMaterial, type InsertSchedule, type InsertMaterialType, type InsertPendingVolunteer,
+  type InsertSufufSession, type InsertSufufStatusEvent
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte } from "drizzle-orm";
+import { connectDatabase, type Database } from "./db";
+import { eq, and, gte, isNull, desc, asc, inArray } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { pool } from "./db";
+import createMemoryStore from "memorystore";
 
 const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Thrown when a mutation would leave dangling references; carries the HTTP
+// status picked up by the error handler in routes.ts.
+export class StorageConflictError extends Error {
+  status = 409;
+}
 
 export interface IStorage {
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+
   // Volunteer operations
   getVolunteer(id: number): Promise<Volunteer | undefined>;
   listVolunteers(): Promise<Volunteer[]>;
   createVolunteer(volunteer: InsertVolunteer): Promise<Volunteer>;
+  updateVolunteer(id: number, volunteer: Partial<InsertVolunteer>): Promise<Volunteer | undefined>;
+  deleteVolunteer(id: number): Promise<void>;
 
   // Pending volunteer operations
   getPendingVolunteer(id: number): Promise<PendingVolunteer | undefined>;
   listPendingVolunteers(): Promise<PendingVolunteer[]>;
   createPendingVolunteer(volunteer: InsertPendingVolunteer): Promise<PendingVolunteer>;
+  updatePendingVolunteer(id: number, volunteer: Partial<InsertPendingVolunteer>): Promise<PendingVolunteer | undefined>;
   deletePendingVolunteer(id: number): Promise<void>;
+  approvePendingVolunteer(id: number): Promise<Volunteer | undefined>;
 
   // Room operations
   getRoom(id: number): Promise<Room | undefined>;
   listRooms(): Promise<Room[]>;
   createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined>;
+  deleteRoom(id: number): Promise<void>;
 
   // Material operations
   getMaterial(id: number): Promise<Material | undefined>;
   listMaterials(): Promise<Material[]>;
   createMaterial(material: InsertMaterial): Promise<Material>;
+  updateMaterial(id: number, material: Partial<InsertMaterial>): Promise<Material | undefined>;
   updateMaterialCheckout(id: number, isCheckedOut: boolean, volunteerId?: number): Promise<Material>;
+  deleteMaterial(id: number): Promise<void>;
 
   // Schedule operations
   getSchedule(id: number): Promise<Schedule | undefined>;
   listSchedules(): Promise<Schedule[]>;
   createSchedule(schedule: InsertSchedule): Promise<Schedule>;
+  updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined>;
+  deleteSchedule(id: number): Promise<void>;
   listActiveSchedules(): Promise<Schedule[]>;
 
   // MaterialType operations
   getMaterialType(id: number): Promise<MaterialType | undefined>;
   listMaterialTypes(): Promise<MaterialType[]>;
   createMaterialType(materialType: InsertMaterialType): Promise<MaterialType>;
+  updateMaterialType(id: number, materialType: Partial<InsertMaterialType>): Promise<MaterialType | undefined>;
+  deleteMaterialType(id: number): Promise<void>;
+
+  // Sufuf history operations
+  getOpenSufufSession(): Promise<SufufSession | undefined>;
+  // Ends the open session, if any, before starting the new one
+  startSufufSession(session: InsertSufufSession): Promise<SufufSession>;
+  endSufufSession(id: number): Promise<SufufSession | undefined>;
+  listSufufSessions(limit: number): Promise<SufufSession[]>;
+  createSufufStatusEvent(event: InsertSufufStatusEvent): Promise<SufufStatusEvent>;
+  acknowledgeSufufStatusEvent(id: number): Promise<SufufStatusEvent | undefined>;
+  listSufufStatusEvents(sessionIds: number[]): Promise<SufufStatusEvent[]>;
 
   // Session store for authentication
   sessionStore: session.Store;
@@ -51,104 +88,233 @@ export interface IStorage {
 
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
+  private db: Database;
 
   constructor() {
+    const { pool, db } = connectDatabase();
+    this.db = db;
     this.sessionStore = new PostgresSessionStore({
       pool,
       createTableIfMissing: true,
     });
   }
 
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await this.db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await this.db
+      .update(users)
+      .set(user)
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
   // Pending volunteer operations
   async getPendingVolunteer(id: number): Promise<PendingVolunteer | undefined> {
-    const [volunteer] = await db.select().from(pendingVolunteers).where(eq(pendingVolunteers.id, id));
+    const [volunteer] = await this.db.select().from(pendingVolunteers).where(eq(pendingVolunteers.id, id));
     return volunteer;
   }
 
   async listPendingVolunteers(): Promise<PendingVolunteer[]> {
-    return await db.select().from(pendingVolunteers);
+    return await this.db.select().from(pendingVolunteers);
   }
 
   async createPendingVolunteer(volunteer: InsertPendingVolunteer): Promise<PendingVolunteer> {
-    const [created] = await db.insert(pendingVolunteers).values(volunteer).returning();
+    const [created] = await this.db.insert(pendingVolunteers).values(volunteer).returning();
     return created;
   }
 
+  async updatePendingVolunteer(id: number, volunteer: Partial<InsertPendingVolunteer>): Promise<PendingVolunteer | undefined> {
+    const [updated] = await this.db
+      .update(pendingVolunteers)
+      .set(volunteer)
+      .where(eq(pendingVolunteers.id, id))
+      .returning();
+    return updated;
+  }
+
   async deletePendingVolunteer(id: number): Promise<void> {
-    await db.delete(pendingVolunteers).where(eq(pendingVolunteers.id, id));
+    await this.db.delete(pendingVolunteers).where(eq(pendingVolunteers.id, id));
+  }
+
+  async approvePendingVolunteer(id: number): Promise<Volunteer | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [pending] = await tx.delete(pendingVolunteers).where(eq(pendingVolunteers.id, id)).returning();
+      if (!pending) return undefined;
+
+      const [created] = await tx
+        .insert(volunteers)
+        .values({
+          firstName: pending.firstName,
+          lastName: pending.lastName,
+          phoneNumber: pending.phoneNumber,
+        })
+        .returning();
+      return created;
+    });
   }
 
   // Volunteer operations
   async getVolunteer(id: number): Promise<Volunteer | undefined> {
-    const [volunteer] = await db.select().from(volunteers).where(eq(volunteers.id, id));
+    const [volunteer] = await this.db.select().from(volunteers).where(eq(volunteers.id, id));
     return volunteer;
   }
 
   async listVolunteers(): Promise<Volunteer[]> {
-    return await db.select().from(volunteers);
+    return await this.db.select().from(volunteers);
   }
 
   async createVolunteer(volunteer: InsertVolunteer): Promise<Volunteer> {
-    const [created] = await db.insert(volunteers).values(volunteer).returning();
+    const [created] = await this.db.insert(volunteers).values(volunteer).returning();
     return created;
   }
 
+  async updateVolunteer(id: number, volunteer: Partial<InsertVolunteer>): Promise<Volunteer | undefined> {
+    const [updated] = await this.db
+      .update(volunteers)
+      .set(volunteer)
+      .where(eq(volunteers.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Plannings of the volunteer are removed with them; checked out materials
+  // have to be returned first.
+  async deleteVolunteer(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [checkedOut] = await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(and(eq(materials.volunteerId, id), eq(materials.isCheckedOut, true)))
+        .limit(1);
+      if (checkedOut) {
+        throw new StorageConflictError("Volunteer still has checked out materials");
+      }
+
+      await tx.update(materials).set({ volunteerId: null }).where(eq(materials.volunteerId, id));
+      await tx.delete(schedules).where(eq(schedules.volunteerId, id));
+      await tx.delete(volunteers).where(eq(volunteers.id, id));
+    });
+  }
+
   // Room operations
   async getRoom(id: number): Promise<Room | undefined> {
-    const [room] = await db.select().from(rooms).where(eq(rooms.id, id));
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
     return room;
   }
 
   async listRooms(): Promise<Room[]> {
-    return await db.select().from(rooms);
+    return await this.db.select().from(rooms);
   }
 
   async createRoom(room: InsertRoom): Promise<Room> {
-    const [created] = await db.insert(rooms).values(room).returning();
+    const [created] = await this.db.insert(rooms).values(room).returning();
     return created;
   }
 
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    const [updated] = await this.db
+      .update(rooms)
+      .set(room)
+      .where(eq(rooms.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Plannings in the room are removed with it.
+  async deleteRoom(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(schedules).where(eq(schedules.roomId, id));
+      await tx.delete(rooms).where(eq(rooms.id, id));
+    });
+  }
+
   // Material operations
   async getMaterial(id: number): Promise<Material | undefined> {
-    const [material] = await db.select().from(materials).where(eq(materials.id, id));
+    const [material] = await this.db.select().from(materials).where(eq(materials.id, id));
     return material;
   }
 
   async listMaterials(): Promise<Material[]> {
-    return await db.select().from(materials);
+    return await this.db.select().from(materials);
   }
 
   async createMaterial(material: InsertMaterial): Promise<Material> {
-    const [created] = await db.insert(materials).values(material).returning();
+    const [created] = await this.db.insert(materials).values(material).returning();
     return created;
   }
 
+  async updateMaterial(id: number, material: Partial<InsertMaterial>): Promise<Material | undefined> {
+    const [updated] = await this.db
+      .update(materials)
+      .set(material)
+      .where(eq(materials.id, id))
+      .returning();
+    return updated;
+  }
+
   async updateMaterialCheckout(id: number, isCheckedOut: boolean, volunteerId?: number): Promise<Material> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(materials)
-      .set({ isCheckedOut, assignedToId: volunteerId ?? null })
+      .set({ isCheckedOut, volunteerId: volunteerId ?? null })
       .where(eq(materials.id, id))
       .returning();
     return updated;
   }
 
+  async deleteMaterial(id: number): Promise<void> {
+    const [material] = await this.db.select().from(materials).where(eq(materials.id, id));
+    if (material?.isCheckedOut) {
+      throw new StorageConflictError("Material is checked out");
+    }
+    await this.db.delete(materials).where(eq(materials.id, id));
+  }
+
   // Schedule operations
   async getSchedule(id: number): Promise<Schedule | undefined> {
-    const [schedule] = await db.select().from(schedules).where(eq(schedules.id, id));
+    const [schedule] = await this.db.select().from(schedules).where(eq(schedules.id, id));
     return schedule;
   }
 
   async listSchedules(): Promise<Schedule[]> {
-    return await db.select().from(schedules);
+    return await this.db.select().from(schedules);
   }
 
   async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
-    const [created] = await db.insert(schedules).values(schedule).returning();
+    const [created] = await this.db.insert(schedules).values(schedule).returning();
     return created;
   }
 
+  async updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    const [updated] = await this.db
+      .update(schedules)
+      .set(schedule)
+      .where(eq(schedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSchedule(id: number): Promise<void> {
+    await this.db.delete(schedules).where(eq(schedules.id, id));
+  }
+
   async listActiveSchedules(): Promise<Schedule[]> {
-    return await db
+    return await this.db
       .select()
       .from(schedules)
       .where(gte(schedules.endDate, new Date()));
@@ -156,18 +322,456 @@ export class DatabaseStorage implements IStorage {
 
   // MaterialType operations
   async getMaterialType(id: number): Promise<MaterialType | undefined> {
-    const [materialType] = await db.select().from(materialTypes).where(eq(materialTypes.id, id));
+    const [materialType] = await this.db.select().from(materialTypes).where(eq(materialTypes.id, id));
     return materialType;
   }
 
   async listMaterialTypes(): Promise<MaterialType[]> {
-    return await db.select().from(materialTypes);
+    return await this.db.select().from(materialTypes);
   }
 
   async createMaterialType(materialType: InsertMaterialType): Promise<MaterialType> {
-    const [created] = await db.insert(materialTypes).values(materialType).returning();
+    const [created] = await this.db.insert(materialTypes).values(materialType).returning();
+    return created;
+  }
+
+  async updateMaterialType(id: number, materialType: Partial<InsertMaterialType>): Promise<MaterialType | undefined> {
+    const [updated] = await this.db
+      .update(materialTypes)
+      .set(materialType)
+      .where(eq(materialTypes.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Materials of the type are removed with it, unless one is checked out.
+  async deleteMaterialType(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [checkedOut] = await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(and(eq(materials.typeId, id), eq(materials.isCheckedOut, true)))
+        .limit(1);
+      if (checkedOut) {
+        throw new StorageConflictError("Material type still has checked out materials");
+      }
+
+      await tx.delete(materials).where(eq(materials.typeId, id));
+      await tx.delete(materialTypes).where(eq(materialTypes.id, id));
+    });
+  }
+
+  // Sufuf history operations
+  async getOpenSufufSession(): Promise<SufufSession | undefined> {
+    const [open] = await this.db
+      .select()
+      .from(sufufSessions)
+      .where(isNull(sufufSessions.endedAt))
+      .orderBy(desc(sufufSessions.startedAt))
+      .limit(1);
+    return open;
+  }
+
+  async startSufufSession(session: InsertSufufSession): Promise<SufufSession> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(sufufSessions)
+        .set({ endedAt: new Date() })
+        .where(isNull(sufufSessions.endedAt));
+      const [created] = await tx.insert(sufufSessions).values(session).returning();
+      return created;
+    });
+  }
+
+  async endSufufSession(id: number): Promise<SufufSession | undefined> {
+    const [ended] = await this.db
+      .update(sufufSessions)
+      .set({ endedAt: new Date() })
+      .where(and(eq(sufufSessions.id, id), isNull(sufufSessions.endedAt)))
+      .returning();
+    return ended;
+  }
+
+  async listSufufSessions(limit: number): Promise<SufufSession[]> {
+    return await this.db
+      .select()
+      .from(sufufSessions)
+      .orderBy(desc(sufufSessions.startedAt))
+      .limit(limit);
+  }
+
+  async createSufufStatusEvent(event: InsertSufufStatusEvent): Promise<SufufStatusEvent> {
+    const [created] = await this.db.insert(sufufStatusEvents).values(event).returning();
     return created;
   }
+
+  async acknowledgeSufufStatusEvent(id: number): Promise<SufufStatusEvent | undefined> {
+    const [acknowledged] = await this.db
+      .update(sufufStatusEvents)
+      .set({ acknowledgedAt: new Date() })
+      .where(and(eq(sufufStatusEvents.id, id), isNull(sufufStatusEvents.acknowledgedAt)))
+      .returning();
+    return acknowledged;
+  }
+
+  async listSufufStatusEvents(sessionIds: number[]): Promise<SufufStatusEvent[]> {
+    if (sessionIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(sufufStatusEvents)
+      .where(inArray(sufufStatusEvents.sessionId, sessionIds))
+      .orderBy(asc(sufufStatusEvents.timestamp), asc(sufufStatusEvents.id));
+  }
+}
+
+// Keeps everything in process memory, so the API can run without a database.
+// Data is lost on restart. Applies the same referential rules as
+// DatabaseStorage.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users = new Map<number, User>();
+  private volunteers = new Map<number, Volunteer>();
+  private pendingVolunteers = new Map<number, PendingVolunteer>();
+  private rooms = new Map<number, Room>();
+  private materials = new Map<number, Material>();
+  private schedules = new Map<number, Schedule>();
+  private materialTypes = new Map<number, MaterialType>();
+  private sufufSessions = new Map<number, SufufSession>();
+  private sufufStatusEvents = new Map<number, SufufStatusEvent>();
+  private currentId = 1;
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
+  }
+
+  private nextId(): number {
+    return this.currentId++;
+  }
+
+  // Returns the merged row, or undefined when the id is unknown; undefined
+  // fields in the patch leave the stored value untouched.
+  private patch<T extends { id: number }>(map: Map<number, T>, id: number, data: object): T | undefined {
+    const existing = map.get(id);
+    if (!existing) return undefined;
+
+    const defined = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined),
+    ) as Partial<T>;
+    const updated = { ...existing, ...defined, id };
+    map.set(id, updated);
+    return updated;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.email === email);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (await this.getUserByEmail(user.email)) {
+      throw new StorageConflictError("A user with this email already exists");
+    }
+    const created: User = { password: null, ...user, id: this.nextId() };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    return this.patch(this.users, id, user);
+  }
+
+  // Pending volunteer operations
+  async getPendingVolunteer(id: number): Promise<PendingVolunteer | undefined> {
+    return this.pendingVolunteers.get(id);
+  }
+
+  async listPendingVolunteers(): Promise<PendingVolunteer[]> {
+    return Array.from(this.pendingVolunteers.values());
+  }
+
+  async createPendingVolunteer(volunteer: InsertPendingVolunteer): Promise<PendingVolunteer> {
+    const created: PendingVolunteer = {
+      status: "pending",
+      ...volunteer,
+      id: this.nextId(),
+    };
+    this.pendingVolunteers.set(created.id, created);
+    return created;
+  }
+
+  async updatePendingVolunteer(id: number, volunteer: Partial<InsertPendingVolunteer>): Promise<PendingVolunteer | undefined> {
+    return this.patch(this.pendingVolunteers, id, volunteer);
+  }
+
+  async deletePendingVolunteer(id: number): Promise<void> {
+    this.pendingVolunteers.delete(id);
+  }
+
+  async approvePendingVolunteer(id: number): Promise<Volunteer | undefined> {
+    const pending = this.pendingVolunteers.get(id);
+    if (!pending) return undefined;
+
+    this.pendingVolunteers.delete(id);
+    return this.createVolunteer({
+      firstName: pending.firstName,
+      lastName: pending.lastName,
+      phoneNumber: pending.phoneNumber,
+    });
+  }
+
+  // Volunteer operations
+  async getVolunteer(id: number): Promise<Volunteer | undefined> {
+    return this.volunteers.get(id);
+  }
+
+  async listVolunteers(): Promise<Volunteer[]> {
+    return Array.from(this.volunteers.values());
+  }
+
+  async createVolunteer(volunteer: InsertVolunteer): Promise<Volunteer> {
+    const created: Volunteer = { availability: null, ...volunteer, id: this.nextId() };
+    this.volunteers.set(created.id, created);
+    return created;
+  }
+
+  async updateVolunteer(id: number, volunteer: Partial<InsertVolunteer>): Promise<Volunteer | undefined> {
+    return this.patch(this.volunteers, id, volunteer);
+  }
+
+  async deleteVolunteer(id: number): Promise<void> {
+    const materials = Array.from(this.materials.values()).filter((m) => m.volunteerId === id);
+    if (materials.some((m) => m.isCheckedOut)) {
+      throw new StorageConflictError("Volunteer still has checked out materials");
+    }
+
+    for (const material of materials) {
+      this.materials.set(material.id, { ...material, volunteerId: null });
+    }
+    for (const schedule of Array.from(this.schedules.values())) {
+      if (schedule.volunteerId === id) this.schedules.delete(schedule.id);
+    }
+    this.volunteers.delete(id);
+  }
+
+  // Room operations
+  async getRoom(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const created: Room = {
+      channel: null,
+      sufuf: false,
+      sufufOrder: 0,
+      imamLabel: null,
+      staffing: null,
+      ...room,
+      id: this.nextId(),
+    };
+    this.rooms.set(created.id, created);
+    return created;
+  }
+
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    return this.patch(this.rooms, id, room);
+  }
+
+  async deleteRoom(id: number): Promise<void> {
+    for (const schedule of Array.from(this.schedules.values())) {
+      if (schedule.roomId === id) this.schedules.delete(schedule.id);
+    }
+    this.rooms.delete(id);
+  }
+
+  // Material operations
+  async getMaterial(id: number): Promise<Material | undefined> {
+    return this.materials.get(id);
+  }
+
+  async listMaterials(): Promise<Material[]> {
+    return Array.from(this.materials.values());
+  }
+
+  async createMaterial(material: InsertMaterial): Promise<Material> {
+    const created: Material = {
+      typeId: null,
+      volunteerId: null,
+      isCheckedOut: false,
+      ...material,
+      id: this.nextId(),
+    };
+    this.materials.set(created.id, created);
+    return created;
+  }
+
+  async updateMaterial(id: number, material: Partial<InsertMaterial>): Promise<Material | undefined> {
+    return this.patch(this.materials, id, material);
+  }
+
+  async updateMaterialCheckout(id: number, isCheckedOut: boolean, volunteerId?: number): Promise<Material> {
+    return this.patch(this.materials, id, { isCheckedOut, volunteerId: volunteerId ?? null })!;
+  }
+
+  async deleteMaterial(id: number): Promise<void> {
+    if (this.materials.get(id)?.isCheckedOut) {
+      throw new StorageConflictError("Material is checked out");
+    }
+    this.materials.delete(id);
+  }
+
+  // Schedule operations
+  async getSchedule(id: number): Promise<Schedule | undefined> {
+    return this.schedules.get(id);
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    return Array.from(this.schedules.values());
+  }
+
+  async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
+    const created: Schedule = {
+      volunteerId: null,
+      roomId: null,
+      isResponsible: false,
+      startTime: null,
+      endTime: null,
+      prayer: null,
+      recurrence: null,
+      ...schedule,
+      id: this.nextId(),
+    };
+    this.schedules.set(created.id, created);
+    return created;
+  }
+
+  async updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    return this.patch(this.schedules, id, schedule);
+  }
+
+  async deleteSchedule(id: number): Promise<void> {
+    this.schedules.delete(id);
+  }
+
+  async listActiveSchedules(): Promise<Schedule[]> {
+    const now = new Date();
+    return Array.from(this.schedules.values()).filter((schedule) => schedule.endDate >= now);
+  }
+
+  // MaterialType operations
+  async getMaterialType(id: number): Promise<MaterialType | undefined> {
+    return this.materialTypes.get(id);
+  }
+
+  async listMaterialTypes(): Promise<MaterialType[]> {
+    return Array.from(this.materialTypes.values());
+  }
+
+  async createMaterialType(materialType: InsertMaterialType): Promise<MaterialType> {
+    const created: MaterialType = { ...materialType, id: this.nextId() };
+    this.materialTypes.set(created.id, created);
+    return created;
+  }
+
+  async updateMaterialType(id: number, materialType: Partial<InsertMaterialType>): Promise<MaterialType | undefined> {
+    return this.patch(this.materialTypes, id, materialType);
+  }
+
+  async deleteMaterialType(id: number): Promise<void> {
+    const materials = Array.from(this.materials.values()).filter((m) => m.typeId === id);
+    if (materials.some((m) => m.isCheckedOut)) {
+      throw new StorageConflictError("Material type still has checked out materials");
+    }
+
+    for (const material of materials) {
+      this.materials.delete(material.id);
+    }
+    this.materialTypes.delete(id);
+  }
+
+  // Sufuf history operations
+  async getOpenSufufSession(): Promise<SufufSession | undefined> {
+    return Array.from(this.sufufSessions.values())
+      .filter((session) => session.endedAt === null)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)[0];
+  }
+
+  async startSufufSession(session: InsertSufufSession): Promise<SufufSession> {
+    const now = new Date();
+    for (const open of Array.from(this.sufufSessions.values())) {
+      if (open.endedAt === null) this.patch(this.sufufSessions, open.id, { endedAt: now });
+    }
+    const created: SufufSession = {
+      prayer: null,
+      startedAt: now,
+      endedAt: null,
+      startedBy: null,
+      ...session,
+      id: this.nextId(),
+    };
+    this.sufufSessions.set(created.id, created);
+    return created;
+  }
+
+  async endSufufSession(id: number): Promise<SufufSession | undefined> {
+    const session = this.sufufSessions.get(id);
+    if (!session || session.endedAt !== null) return undefined;
+    return this.patch(this.sufufSessions, id, { endedAt: new Date() });
+  }
+
+  async listSufufSessions(limit: number): Promise<SufufSession[]> {
+    return Array.from(this.sufufSessions.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createSufufStatusEvent(event: InsertSufufStatusEvent): Promise<SufufStatusEvent> {
+    const created: SufufStatusEvent = {
+      reporterId: null,
+      state: null,
+      message: null,
+      acknowledgedAt: null,
+      timestamp: new Date(),
+      ...event,
+      id: this.nextId(),
+    };
+    this.sufufStatusEvents.set(created.id, created);
+    return created;
+  }
+
+  async acknowledgeSufufStatusEvent(id: number): Promise<SufufStatusEvent | undefined> {
+    const event = this.sufufStatusEvents.get(id);
+    if (!event || event.acknowledgedAt !== null) return undefined;
+    return this.patch(this.sufufStatusEvents, id, { acknowledgedAt: new Date() });
+  }
+
+  async listSufufStatusEvents(sessionIds: number[]): Promise<SufufStatusEvent[]> {
+    return Array.from(this.sufufStatusEvents.values())
+      .filter((event) => sessionIds.includes(event.sessionId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id);
+  }
+}
+
+// STORAGE_DRIVER=memory runs the server without a database
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? "database";
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "database":
+      return new DatabaseStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "database"`);
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
@@ -0,0 +1,310 @@
+import type { IncomingMessage, Server as HttpServer } from "http";
+import type { RequestHandler } from "express";
+import passport from "passport";
+import { Server } from "socket.io";
+import { log } from "./vite";
+import { getRole } from "./auth";
+import { storage } from "./storage";
+import { readPublic } from "./firebase-database";
+import { hasPermission, type Permission } from "@shared/roles";
+import type { SufufSession } from "@shared/schema";
+import {
+  SUFUF_STATUS_BY_COMMAND,
+  acknowledgeSchema,
+  startSessionSchema,
+  updateStatusSchema,
+  type AreaStatus,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type SessionPayload,
+  type SufufPrayer,
+  type UpdateRejectedPayload,
+} from "@shared/sufuf";
+
+// The last report per room, with the history event it was stored as once the
+// history has caught up
+type BoardEntry = { report: AreaStatus; eventId?: number };
+
+// Keyed by the id of a room in the rooms collection; rooms without an entry
+// are grey. Kept in memory: a restart resets every room to grey, which is also
+// what the imam expects at the start of a prayer
+const board = new Map<string, BoardEntry>();
+let lastReportId = 0;
+
+// Pending resets of reported rooms back to grey, see SUFUF_RESET_MINUTES
+const resetTimers = new Map<string, NodeJS.Timeout>();
+
+// The open prayer session; undefined until it is read from storage
+let openSession: SufufSession | null | undefined;
+
+// History writes run one after the other, so two reports at the same moment
+// cannot both open a session and events are stored in the order received
+let historyQueue: Promise<void> = Promise.resolve();
+
+function inOrder(task: () => Promise<void>) {
+  historyQueue = historyQueue.then(task).catch((error) => {
+    log(`history not saved: ${error instanceof Error ? error.message : error}`, "sufuf");
+  });
+}
+
+async function getOpenSession(): Promise<SufufSession | null> {
+  if (openSession === undefined) {
+    openSession = (await storage.getOpenSufufSession()) ?? null;
+  }
+  return openSession;
+}
+
+function toSessionPayload(session: SufufSession | null): SessionPayload | null {
+  if (!session) return null;
+  return {
+    id: session.id,
+    prayer: session.prayer as SufufPrayer | null,
+    startedAt: session.startedAt.toISOString(),
+  };
+}
+
+type SessionRequest = IncomingMessage & { user?: Express.User; sessionID?: string; _query?: { sid?: string } };
+
+// The session only has to be read once, when the connection is opened
+function onlyForHandshake(middleware: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    const isHandshake = (req as SessionRequest)._query?.sid === undefined;
+    if (isHandshake) {
+      middleware(req, res, next);
+    } else {
+      next();
+    }
+  };
+}
+
+// The user behind the socket's session as it is now. The session is only read
+// at the handshake, so without this a user who logged out or lost their role
+// could keep reporting until they reconnect.
+async function currentUser(request: SessionRequest): Promise<Express.User | undefined> {
+  const sid = request.sessionID;
+  if (!request.user || !sid) return undefined;
+  const session = await new Promise<{ passport?: { user?: number } } | null | undefined>((resolve, reject) => {
+    storage.sessionStore.get(sid, (error, data) => (error ? reject(error) : resolve(data as { passport?: { user?: number } })));
+  });
+  if (session?.passport?.user !== request.user.id) return undefined;
+  return storage.getUser(request.user.id);
+}
+
+// Sufuf rooms are switched on in Firebase on the Rooms page. Read again at
+// most once a minute, so a room that was just switched on can report soon
+// after.
+const SUFUF_ROOMS_MAX_AGE_MS = 60 * 1000;
+let sufufRooms: { ids: Set<string>; expires: number } | null = null;
+
+async function sufufRoomIds(): Promise<Set<string>> {
+  if (sufufRooms && sufufRooms.expires > Date.now()) return sufufRooms.ids;
+  const rooms = (await readPublic<Record<string, { sufuf?: unknown } | null>>("rooms")) ?? {};
+  const ids = new Set(Object.keys(rooms).filter((id) => rooms[id]?.sufuf === true));
+  sufufRooms = { ids, expires: Date.now() + SUFUF_ROOMS_MAX_AGE_MS };
+  return ids;
+}
+
+function resetAfterMs(): number {
+  const minutes = Number(process.env.SUFUF_RESET_MINUTES ?? 20);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`SUFUF_RESET_MINUTES must be a number of minutes, got "${process.env.SUFUF_RESET_MINUTES}"`);
+  }
+  return minutes * 60 * 1000;
+}
+
+function boardSnapshot(): Record<string, AreaStatus> {
+  return Object.fromEntries(Array.from(board, ([room, entry]) => [room, entry.report]));
+}
+
+// Why the user may not do this on the board, or null when they may
+function rejectionReason(
+  user: Express.User | undefined,
+  permission: Permission,
+): UpdateRejectedPayload["reason"] | null {
+  if (!user) return "unauthenticated";
+  if (!hasPermission(getRole(user), permission)) return "forbidden";
+  return null;
+}
+
+export function setupSufuf(httpServer: HttpServer, sessionMiddleware: RequestHandler) {
+  const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+    // Same origin by default; VITE_SOCKET_URL deployments set SOCKET_CORS_ORIGIN
+    cors: process.env.SOCKET_CORS_ORIGIN
+      ? { origin: process.env.SOCKET_CORS_ORIGIN.split(","), credentials: true }
+      : undefined,
+  });
+
+  io.engine.use(onlyForHandshake(sessionMiddleware));
+  io.engine.use(onlyForHandshake(passport.session()));
+
+  // A reported room left alone goes back to grey, so the imam never prays on
+  // a status or message from an earlier prayer
+  const resetAfter = resetAfterMs();
+
+  const setEntry = (room: string, entry: BoardEntry | null) => {
+    clearTimeout(resetTimers.get(room));
+    resetTimers.delete(room);
+
+    if (!entry) {
+      board.delete(room);
+    } else {
+      board.set(room, entry);
+      if (resetAfter > 0) {
+        const timer = setTimeout(() => {
+          log(`reset ${room} to grey after ${resetAfter / 60000} minutes`, "sufuf");
+          setEntry(room, null);
+        }, resetAfter);
+        timer.unref();
+        resetTimers.set(room, timer);
+      }
+    }
+    io.emit("statusUpdated", { room, report: entry?.report ?? null });
+  };
+
+  // At the end of a prayer every room starts over as grey
+  const resetAll = () => {
+    for (const timer of Array.from(resetTimers.values())) clearTimeout(timer);
+    resetTimers.clear();
+    board.clear();
+    io.emit("initialStatus", {});
+  };
+
+  io.on("connection", (socket) => {
+    // Anyone may watch the statuses; only changing them needs a session. Every
+    // (re)connect gets the full state, so a client that was offline resyncs.
+    const request = socket.request as SessionRequest;
+    const who = request.user ? request.user.email : `anonymous (${socket.id})`;
+    socket.emit("initialStatus", boardSnapshot());
+    inOrder(async () => {
+      socket.emit("sessionChanged", toSessionPayload(await getOpenSession()));
+    });
+
+    const reject = (event: string, rejection: UpdateRejectedPayload) => {
+      log(`rejected ${event}${rejection.room ? ` for ${rejection.room}` : ""} from ${who}: ${rejection.reason}`, "sufuf");
+      socket.emit("updateRejected", rejection);
+    };
+
+    // Checking the session waits for the store, so the commands of a socket
+    // are queued to be handled in the order they were sent
+    let commands: Promise<void> = Promise.resolve();
+    const command = <A extends unknown[]>(event: string, handler: (...args: A) => Promise<void>) => (...args: A) => {
+      commands = commands.then(() => handler(...args)).catch((error) => {
+        log(`${event} from ${who} failed: ${error instanceof Error ? error.message : error}`, "sufuf");
+        socket.emit("updateRejected", { reason: "unavailable" });
+      });
+    };
+
+    // The user when they may do this now, after telling them why not otherwise
+    const authorize = async (event: string, permission: Permission, room?: string) => {
+      const user = await currentUser(request);
+      const reason = rejectionReason(user, permission);
+      if (reason) {
+        reject(event, { room, reason });
+        return undefined;
+      }
+      return user;
+    };
+
+    socket.on("updateStatus", command("updateStatus", async (data) => {
+      const parsed = updateStatusSchema.safeParse(data);
+      const room = parsed.success ? parsed.data.room : undefined;
+
+      const user = await authorize("updateStatus", "sufuf:update", room);
+      if (!user) return;
+      if (!parsed.success) return reject("updateStatus", { reason: "invalid" });
+      if (!(await sufufRoomIds()).has(parsed.data.room)) return reject("updateStatus", { room, reason: "invalid" });
+
+      const { state } = parsed.data;
+      const message = parsed.data.message || undefined;
+      const status = SUFUF_STATUS_BY_COMMAND[parsed.data.status];
+      const reportedAt = new Date();
+      const entry: BoardEntry | null = status === "grey" && !message ? null : {
+        report: {
+          status,
+          state,
+          message,
+          reportId: ++lastReportId,
+          reportedAt: reportedAt.toISOString(),
+          acknowledged: false,
+        },
+      };
+      setEntry(parsed.data.room, entry);
+
+      // The imam sees the change right away; the history follows. A report
+      // outside a started prayer opens a session without a prayer.
+      inOrder(async () => {
+        let session = await getOpenSession();
+        if (!session) {
+          session = openSession = await storage.startSufufSession({ prayer: null, startedBy: user.id });
+          io.emit("sessionChanged", toSessionPayload(session));
+        }
+        const event = await storage.createSufufStatusEvent({
+          sessionId: session.id,
+          room: parsed.data.room,
+          status,
+          state: state ?? null,
+          message: message ?? null,
+          reporterId: user.id,
+          reporterEmail: user.email,
+          timestamp: reportedAt,
+        });
+        if (entry) entry.eventId = event.id;
+      });
+    }));
+
+    socket.on("acknowledge", command("acknowledge", async (data) => {
+      const parsed = acknowledgeSchema.safeParse(data);
+      const room = parsed.success ? parsed.data.room : undefined;
+
+      if (!(await authorize("acknowledge", "sufuf:acknowledge", room))) return;
+      if (!parsed.success) return reject("acknowledge", { reason: "invalid" });
+
+      // Ignored when a newer report came in, which the imam still has to read
+      const entry = board.get(parsed.data.room);
+      if (!entry || entry.report.reportId !== parsed.data.reportId || entry.report.acknowledged) return;
+
+      entry.report = { ...entry.report, acknowledged: true };
+      io.emit("statusUpdated", { room: parsed.data.room, report: entry.report });
+      inOrder(async () => {
+        if (entry.eventId) await storage.acknowledgeSufufStatusEvent(entry.eventId);
+      });
+    }));
+
+    socket.on("startSession", command("startSession", async (data) => {
+      const parsed = startSessionSchema.safeParse(data);
+
+      const user = await authorize("startSession", "sufuf:update");
+      if (!user) return;
+      if (!parsed.success) return reject("startSession", { reason: "invalid" });
+
+      // Reset before the history catches up, so a report made right after the
+      // start is not wiped
+      resetAll();
+      inOrder(async () => {
+        try {
+          openSession = await storage.startSufufSession({ prayer: parsed.data.prayer, startedBy: user.id });
+        } catch (error) {
+          socket.emit("updateRejected", { reason: "unavailable" });
+          throw error;
+        }
+        log(`${who} started ${parsed.data.prayer}`, "sufuf");
+        io.emit("sessionChanged", toSessionPayload(openSession));
+      });
+    }));
+
+    socket.on("endSession", command("endSession", async () => {
+      if (!(await authorize("endSession", "sufuf:update"))) return;
+
+      resetAll();
+      inOrder(async () => {
+        const session = await getOpenSession();
+        if (!session) return;
+        await storage.endSufufSession(session.id);
+        openSession = null;
+        io.emit("sessionChanged", null);
+      });
+    }));
+  });
+
+  return io;
+}
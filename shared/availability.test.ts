@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseISO } from "date-fns";
+import { firstUnavailableDay, freeVolunteers, unavailabilityOn, type Availability } from "./availability";
+
+const fridaysOnly: Availability = { weekdays: ["fri"] };
+const away: Availability = { absences: [{ from: "2024-01-10", to: "2024-01-20", reason: "vakantie" }] };
+
+test("a volunteer without availability can always serve", () => {
+  assert.equal(unavailabilityOn(undefined, parseISO("2024-01-01")), null);
+});
+
+test("unavailability names the absence or the weekdays", () => {
+  assert.equal(unavailabilityOn(away, parseISO("2024-01-15"))?.kind, "absence");
+  assert.equal(unavailabilityOn(away, parseISO("2024-01-21")), null);
+  assert.equal(unavailabilityOn(fridaysOnly, parseISO("2024-01-04"))?.kind, "weekday");
+  assert.equal(unavailabilityOn(fridaysOnly, parseISO("2024-01-05")), null);
+});
+
+test("firstUnavailableDay finds the first day of a series the volunteer is away", () => {
+  // Mondays from 1 January; 15 January is the first one in the absence
+  const series = {
+    startDate: "2024-01-01",
+    endDate: "2024-03-04",
+    recurrence: { weekdays: [1], interval: 1, count: 10 },
+  };
+  assert.equal(firstUnavailableDay(away, series)?.date, "2024-01-15");
+  assert.equal(firstUnavailableDay(fridaysOnly, series)?.date, "2024-01-01");
+  assert.equal(firstUnavailableDay({ weekdays: ["mon"] }, series), null);
+});
+
+test("freeVolunteers leaves out planned and unavailable volunteers", () => {
+  const volunteers = [
+    { id: "a" },
+    { id: "b", availability: fridaysOnly },
+    { id: "c" },
+  ];
+  const plannings = [{ volunteerId: "c", startDate: "2024-01-01", endDate: "2024-01-07" }];
+  assert.deepEqual(freeVolunteers(volunteers, plannings, parseISO("2024-01-04")).map(v => v.id), ["a"]);
+  assert.deepEqual(freeVolunteers(volunteers, plannings, parseISO("2024-01-12")).map(v => v.id), ["a", "b", "c"]);
+});
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { addDays, format, parseISO } from "date-fns";
+import { WEEKDAY_KEYS, listWeekdays, occursOn, type RecurringPlanning, type WeekdayKey } from "./recurrence";
+
+// When a volunteer can serve, stored on the volunteer as `availability`: the
+// weekdays they are available on, and periods they are away. A volunteer
+// without availability can serve on any day. Unavailability is advice for the
+// coordinator; it never blocks a planning.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const absenceSchema = z
+  .object({
+    from: z.string().regex(DATE_PATTERN),
+    to: z.string().regex(DATE_PATTERN),
+    reason: z.string().max(64).optional(),
+  })
+  .refine((absence) => absence.to >= absence.from, {
+    message: "De einddatum ligt voor de begindatum",
+    path: ["to"],
+  });
+
+export type Absence = z.infer<typeof absenceSchema>;
+
+export const availabilitySchema = z.object({
+  // Every day when absent
+  weekdays: z.array(z.enum(WEEKDAY_KEYS)).min(1).optional(),
+  absences: z.array(absenceSchema).optional(),
+});
+
+export type Availability = z.infer<typeof availabilitySchema>;
+
+export type Unavailability =
+  | { kind: "absence"; absence: Absence }
+  | { kind: "weekday"; weekdays: WeekdayKey[] };
+
+const toDateString = (day: Date) => format(day, "yyyy-MM-dd");
+
+/** Why the volunteer cannot serve on `day`, or null when they can. */
+export function unavailabilityOn(availability: Availability | null | undefined, day: Date): Unavailability | null {
+  if (!availability) return null;
+  const date = toDateString(day);
+  const absence = availability.absences?.find((absence) => absence.from <= date && date <= absence.to);
+  if (absence) return { kind: "absence", absence };
+  const { weekdays } = availability;
+  if (weekdays && !weekdays.includes(WEEKDAY_KEYS[day.getDay()])) return { kind: "weekday", weekdays };
+  return null;
+}
+
+export function isAvailableOn(availability: Availability | null | undefined, day: Date): boolean {
+  return !unavailabilityOn(availability, day);
+}
+
+/**
+ * The first day of the planning on which the volunteer cannot serve. Only
+ * absences and the first weeks of the planning are walked, so long series
+ * stay cheap: a weekday the volunteer is not available on shows up there.
+ */
+export function firstUnavailableDay(
+  availability: Availability | null | undefined,
+  planning: RecurringPlanning,
+): { date: string; reason: Unavailability } | null {
+  if (!availability) return null;
+  const candidates: string[] = [];
+
+  for (const absence of availability.absences ?? []) {
+    const from = absence.from > planning.startDate ? absence.from : planning.startDate;
+    const to = absence.to < planning.endDate ? absence.to : planning.endDate;
+    for (let day = parseISO(from); toDateString(day) <= to; day = addDays(day, 1)) {
+      if (occursOn(planning, day)) {
+        candidates.push(toDateString(day));
+        break;
+      }
+    }
+  }
+
+  if (availability.weekdays) {
+    const weeks = planning.recurrence?.interval ?? 1;
+    const last = toDateString(addDays(parseISO(planning.startDate), 7 * weeks - 1));
+    const end = last < planning.endDate ? last : planning.endDate;
+    for (let day = parseISO(planning.startDate); toDateString(day) <= end; day = addDays(day, 1)) {
+      if (occursOn(planning, day) && !availability.weekdays.includes(WEEKDAY_KEYS[day.getDay()])) {
+        candidates.push(toDateString(day));
+        break;
+      }
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  const date = candidates.sort()[0];
+  return { date, reason: unavailabilityOn(availability, parseISO(date))! };
+}
+
+/** e.g. "Afwezig van 1 juli tot 15 juli (vakantie)" or "Alleen beschikbaar op vrijdag" */
+export function describeUnavailability(reason: Unavailability, formatDate: (date: string) => string): string {
+  if (reason.kind === "weekday") {
+    return `Alleen beschikbaar op ${listWeekdays(reason.weekdays.map((key) => WEEKDAY_KEYS.indexOf(key)))}`;
+  }
+  const { from, to, reason: note } = reason.absence;
+  const period = from === to ? `Afwezig op ${formatDate(from)}` : `Afwezig van ${formatDate(from)} tot ${formatDate(to)}`;
+  return note ? `${period} (${note})` : period;
+}
+
+/** The volunteers who can serve on `day` and are not planned yet. */
+export function freeVolunteers<Id, V extends { id: Id; availability?: Availability | null }>(
+  volunteers: V[],
+  plannings: (RecurringPlanning & { volunteerId: Id | null })[],
+  day: Date,
+): V[] {
+  const planned = new Set(
+    plannings.filter((planning) => occursOn(planning, day)).map((planning) => planning.volunteerId),
+  );
+  return volunteers.filter((volunteer) => !planned.has(volunteer.id) && isAvailableOn(volunteer.availability, day));
+}
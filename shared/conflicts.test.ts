@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseISO } from "date-fns";
+import { clashingDays, findConflicts, shiftsOverlap, type ConflictPlanning } from "./conflicts";
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from "./prayer-times";
+
+const day = parseISO("2024-01-01");
+
+const planning = (overrides: Partial<ConflictPlanning>): ConflictPlanning => ({
+  volunteerId: "v1",
+  roomId: "r1",
+  startDate: "2024-01-01",
+  endDate: "2024-01-01",
+  ...overrides,
+});
+
+test("shifts overlap when their time windows do", () => {
+  assert.equal(shiftsOverlap({ startTime: "09:00", endTime: "12:00" }, { startTime: "11:00", endTime: "13:00" }, day, settings), true);
+  assert.equal(shiftsOverlap({ startTime: "09:00", endTime: "12:00" }, { startTime: "10:00", endTime: "11:00" }, day, settings), true);
+});
+
+test("shifts that only touch do not overlap", () => {
+  assert.equal(shiftsOverlap({ startTime: "09:00", endTime: "11:00" }, { startTime: "11:00", endTime: "13:00" }, day, settings), false);
+});
+
+test("a whole-day shift overlaps every shift", () => {
+  assert.equal(shiftsOverlap({}, { startTime: "11:00", endTime: "13:00" }, day, settings), true);
+  assert.equal(shiftsOverlap({}, {}, day, settings), true);
+});
+
+test("a prayer shift overlaps a time window around that prayer", () => {
+  // Dhuhr in Hoboken falls between 12:30 and 13:00 (CET) in early January
+  const around = { startTime: "11:00", endTime: "14:30" };
+  assert.equal(shiftsOverlap({ prayer: "dhuhr" }, around, day, settings), true);
+  assert.equal(shiftsOverlap({ prayer: "dhuhr" }, { prayer: "fajr" }, day, settings), false);
+});
+
+test("clashingDays only reports days both plannings occur on", () => {
+  const series = planning({
+    endDate: "2024-01-29",
+    recurrence: { weekdays: [1], interval: 1, count: 5, exceptions: { "2024-01-15": true } },
+  });
+  const range = planning({ startDate: "2024-01-06", endDate: "2024-01-20" });
+  assert.deepEqual(clashingDays(series, range, settings), ["2024-01-08"]);
+  assert.deepEqual(clashingDays(range, series, settings), ["2024-01-08"]);
+});
+
+test("clashingDays ignores other volunteers and non-overlapping shifts", () => {
+  const a = planning({ startTime: "09:00", endTime: "11:00" });
+  assert.deepEqual(clashingDays(a, planning({ volunteerId: "v2" }), settings), []);
+  assert.deepEqual(clashingDays(a, planning({ startTime: "11:00", endTime: "12:00" }), settings), []);
+  assert.deepEqual(clashingDays(a, planning({ startDate: "2024-01-02", endDate: "2024-01-05" }), settings), []);
+});
+
+test("findConflicts reports the first clashing day and how many there are", () => {
+  const candidate = planning({ startDate: "2024-01-01", endDate: "2024-01-07" });
+  const existing = [
+    { id: "a", ...planning({ startDate: "2024-01-03", endDate: "2024-01-10" }) },
+    { id: "b", ...planning({ volunteerId: "v2", endDate: "2024-01-07" }) },
+  ];
+  const conflicts = findConflicts(candidate, existing, settings);
+  assert.equal(conflicts.length, 1);
+  assert.equal(conflicts[0].planning.id, "a");
+  assert.equal(conflicts[0].date, "2024-01-03");
+  assert.equal(conflicts[0].days, 5);
+});
+
+test("series on different weekdays or in separate time windows never clash", () => {
+  const mondays = planning({ endDate: "2034-01-01", recurrence: { weekdays: [1], interval: 1, until: "2034-01-01" } });
+  const fridays = planning({ endDate: "2034-01-01", recurrence: { weekdays: [5], interval: 1, until: "2034-01-01" } });
+  assert.deepEqual(clashingDays(mondays, fridays, settings), []);
+  const morning = { ...mondays, startTime: "09:00", endTime: "11:00" };
+  const evening = { ...mondays, startTime: "18:00", endTime: "20:00" };
+  assert.deepEqual(clashingDays(morning, evening, settings), []);
+  assert.equal(clashingDays(morning, mondays, settings).length, 522);
+});
+
+test("isha after midnight on a summer night only overlaps the late evening", () => {
+  // Isha falls at 00:08 the next night with the default MWL settings
+  const summer = parseISO("2024-06-21");
+  assert.equal(shiftsOverlap({ prayer: "isha" }, { startTime: "00:00", endTime: "01:00" }, summer, settings), false);
+  assert.equal(shiftsOverlap({ prayer: "isha" }, { startTime: "22:00", endTime: "23:59" }, summer, settings), false);
+  assert.equal(shiftsOverlap({ prayer: "isha" }, { prayer: "isha" }, summer, settings), true);
+  assert.equal(shiftsOverlap({ prayer: "isha" }, { prayer: "fajr" }, summer, settings), false);
+});
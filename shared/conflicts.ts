@@ -0,0 +1,92 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { PrayerTimeSettings } from "./prayer-times";
+import { occursOn, type RecurringPlanning } from "./recurrence";
+import { prayerStartMinutes, timeToMinutes, type ShiftTiming } from "./shifts";
+
+// A volunteer cannot be in two places at once: two plannings of the same
+// volunteer conflict when they share a day and their shifts on that day
+// overlap. A whole-day shift overlaps every other shift of that day.
+
+// How long a shift that only names a prayer is taken to last
+const PRAYER_SHIFT_MINUTES = 30;
+
+export interface ConflictPlanning extends RecurringPlanning, ShiftTiming {
+  volunteerId: string;
+  roomId: string;
+}
+
+export interface PlanningConflict<T> {
+  planning: T;
+  // First day both plannings have the volunteer on duty (yyyy-MM-dd)
+  date: string;
+  // Number of days on which they clash
+  days: number;
+}
+
+// [start, end) in minutes after midnight of `day`, or null for the whole day.
+// A prayer after midnight lies past 24:00, after the rest of the day.
+function shiftWindow(shift: ShiftTiming, day: Date, settings: PrayerTimeSettings): [number, number] | null {
+  if (shift.startTime && shift.endTime) {
+    return [timeToMinutes(shift.startTime), timeToMinutes(shift.endTime)];
+  }
+  if (!shift.prayer) return null;
+  const start = prayerStartMinutes(shift.prayer, day, settings);
+  if (start === null) return null;
+  return [start, start + PRAYER_SHIFT_MINUTES];
+}
+
+export function shiftsOverlap(a: ShiftTiming, b: ShiftTiming, day: Date, settings: PrayerTimeSettings): boolean {
+  const windowA = shiftWindow(a, day, settings);
+  const windowB = shiftWindow(b, day, settings);
+  if (!windowA || !windowB) return true;
+  return windowA[0] < windowB[1] && windowB[0] < windowA[1];
+}
+
+/** The days on which both plannings have the volunteer on duty in overlapping shifts. */
+export function clashingDays(
+  a: ConflictPlanning,
+  b: ConflictPlanning,
+  settings: PrayerTimeSettings,
+): string[] {
+  if (a.volunteerId !== b.volunteerId) return [];
+  return overlappingDays(a, b, settings);
+}
+
+/** The days on which both plannings are on duty in overlapping shifts, whoever they plan. */
+export function overlappingDays(
+  a: RecurringPlanning & ShiftTiming,
+  b: RecurringPlanning & ShiftTiming,
+  settings: PrayerTimeSettings,
+): string[] {
+  // Cheap checks first: series can run for years, walking them is not
+  const from = a.startDate > b.startDate ? a.startDate : b.startDate;
+  const to = a.endDate < b.endDate ? a.endDate : b.endDate;
+  if (from > to) return [];
+  if (a.recurrence && b.recurrence && !a.recurrence.weekdays.some((day) => b.recurrence!.weekdays.includes(day))) {
+    return [];
+  }
+  // Fixed time windows overlap on every day or on none
+  if (a.startTime && a.endTime && b.startTime && b.endTime && !shiftsOverlap(a, b, parseISO(from), settings)) {
+    return [];
+  }
+
+  const days: string[] = [];
+  for (let day = parseISO(from); format(day, "yyyy-MM-dd") <= to; day = addDays(day, 1)) {
+    if (occursOn(a, day) && occursOn(b, day) && shiftsOverlap(a, b, day, settings)) {
+      days.push(format(day, "yyyy-MM-dd"));
+    }
+  }
+  return days;
+}
+
+/** The existing plannings `candidate` would double-book its volunteer with. */
+export function findConflicts<T extends ConflictPlanning>(
+  candidate: ConflictPlanning,
+  existing: T[],
+  settings: PrayerTimeSettings,
+): PlanningConflict<T>[] {
+  return existing.flatMap((planning) => {
+    const days = clashingDays(candidate, planning, settings);
+    return days.length > 0 ? [{ planning, date: days[0], days: days.length }] : [];
+  });
+}
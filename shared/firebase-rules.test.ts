@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { allow, allowRoles, rulesFile } from "./firebase-rules";
+
+test("database.rules.json is generated from the roles", () => {
+  assert.equal(readFileSync("database.rules.json", "utf8"), rulesFile(), "run npm run rules:generate");
+});
+
+test("a permission allows exactly the roles that carry it", () => {
+  assert.match(allow("logs:read"), /\^\(admin\|board\)\$/);
+  assert.match(allow("sufuf:update"), /\^\(admin\|coordinator\|imam\|medewerker\)\$/);
+});
+
+test("users without a role count as admin with the admin flag and as medewerker without", () => {
+  assert.match(allowRoles(["admin"]), /child\('admin'\)\.val\(\) === true\)$/);
+  assert.match(allowRoles(["admin", "medewerker"]), /!root\.child\('users'\)\.child\(auth\.uid\)\.child\('role'\)\.exists\(\) && root\.child\('users'\)\.child\(auth\.uid\)\.exists\(\)\)$/);
+  assert.match(allowRoles(["medewerker"]), /child\('admin'\)\.val\(\) !== true\)$/);
+  assert.match(allowRoles(["board"]), /exists\(\) && false\)$/);
+});
@@ -0,0 +1,232 @@
+import { ROLES, hasPermission, type Permission, type UserRole } from "./roles";
+
+// The Realtime Database security rules, built from the roles and permissions
+// so that database.rules.json cannot drift from ROLE_PERMISSIONS. Run
+// `npm run rules:generate` after changing either; a test fails while the
+// committed file is out of date.
+
+export type RuleNode = { [key: string]: string | boolean | string[] | RuleNode };
+
+const USER = "root.child('users').child(auth.uid)";
+const ROLE = `${USER}.child('role')`;
+
+const all = (...conditions: string[]) => conditions.join(" && ");
+const any = (...conditions: string[]) => conditions.join(" || ");
+
+/**
+ * Signed-in users with one of `roles`. Users created before roles existed
+ * have no `role` and count as admin with the `admin` flag and as medewerker
+ * without it, as in resolveRole.
+ */
+export function allowRoles(roles: UserRole[]): string {
+  const legacy = roles.includes("admin")
+    ? roles.includes("medewerker") ? `${USER}.exists()` : `${USER}.child('admin').val() === true`
+    : roles.includes("medewerker") ? `${USER}.exists() && ${USER}.child('admin').val() !== true` : "false";
+  return `auth != null && (${ROLE}.isString() && ${ROLE}.val().matches(/^(${roles.join("|")})$/) || !${ROLE}.exists() && ${legacy})`;
+}
+
+/** Signed-in users whose role carries any of `permissions`. */
+export function allow(...permissions: Permission[]): string {
+  return allowRoles(ROLES.filter((role) => permissions.some((permission) => hasPermission(role, permission))));
+}
+
+// Open shifts are signed up for without an account, through a personal link
+// whose token only the volunteer knows. The place, the planning it creates,
+// the volunteer's entry in `volunteerPlaces` and a private proof with the
+// token are written together and check each other.
+const newPlanningShift = "root.child('open_shifts').child(newData.child('openShiftId').val())";
+const newPlanningPlace = ".child('places').child(newData.child('openShiftPlace').val())";
+const claimedPlanning = (field: string) =>
+  `newData.parent().parent().parent().parent().child('plannings').child(newData.child('planningId').val()).child('${field}').val()`;
+
+const openShiftPlanning = all(
+  "!data.exists()",
+  "newData.child('openShiftId').isString()",
+  "newData.child('openShiftPlace').isString()",
+  `${newPlanningShift}${newPlanningPlace}.child('open').val() === true`,
+  `newData.parent().parent().child('open_shifts').child(newData.child('openShiftId').val())${newPlanningPlace}.child('planningId').val() === $planningId`,
+  `newData.child('roomId').val() === ${newPlanningShift}.child('roomId').val()`,
+  `newData.child('startDate').val() === ${newPlanningShift}.child('date').val()`,
+  `newData.child('endDate').val() === ${newPlanningShift}.child('date').val()`,
+  `newData.child('startTime').val() === ${newPlanningShift}.child('startTime').val()`,
+  `newData.child('endTime').val() === ${newPlanningShift}.child('endTime').val()`,
+  `newData.child('prayer').val() === ${newPlanningShift}.child('prayer').val()`,
+  "newData.child('isResponsible').val() === false",
+  "!newData.child('recurrence').exists()",
+  "newData.child('volunteerId').val() === newData.parent().parent().child('open_shift_claims').child($planningId).child('volunteerId').val()",
+);
+
+const openShiftClaim = all(
+  "data.child('open').val() === true",
+  "root.child('open_shifts').child($shiftId).child('closed').val() !== true",
+  "!newData.child('open').exists()",
+  "newData.child('volunteerId').isString()",
+  "newData.child('planningId').isString()",
+  `${claimedPlanning("openShiftId")} === $shiftId`,
+  `${claimedPlanning("openShiftPlace")} === $place`,
+  "newData.parent().parent().parent().parent().child('open_shift_claims').child(newData.child('planningId').val()).child('volunteerId').val() === newData.child('volunteerId').val()",
+  "newData.parent().parent().child('volunteerPlaces').child(newData.child('volunteerId').val()).val() === $place",
+);
+
+// Written once per volunteer, so a second place in the same shift is refused
+const openShiftVolunteerPlace = all(
+  "!data.exists()",
+  "newData.isString()",
+  "newData.parent().parent().child('places').child(newData.val()).child('volunteerId').val() === $volunteerId",
+);
+
+const openShiftProof = all(
+  "!data.exists()",
+  "newData.child('token').isString()",
+  "root.child('sign_up_links').child(newData.child('token').val()).child('volunteerId').val() === newData.child('volunteerId').val()",
+);
+
+// Deciding on a claim is for an admin: approving it, or rejecting it back to
+// open. Others may offer, claim and cancel, and approve a claim themselves
+// only where autoApproves in shared/swaps.ts allows it: a drop of a shift
+// that is not the responsible's. The plannings that change hands are written
+// in the same update under the `plannings` rules.
+const swapAutoApproves = all(
+  "newData.val() === 'approved'",
+  "data.val() === 'open'",
+  "newData.parent().child('kind').val() === 'drop'",
+  "root.child('plannings').child(newData.parent().child('planningId').val()).child('isResponsible').val() !== true",
+);
+
+const swapStatus = any(
+  "newData.val() === data.val()",
+  allowRoles(["admin"]),
+  all("newData.val() !== 'approved'", any("!data.exists()", "data.val() === 'open'")),
+  "data.val() === 'claimed' && newData.val() === 'cancelled'",
+  swapAutoApproves,
+);
+
+export function buildRules(): { rules: RuleNode } {
+  const admin = allowRoles(["admin"]);
+  return {
+    rules: {
+      users: {
+        ".read": allow("users:manage"),
+        ".write": allow("users:manage"),
+        $uid: {
+          ".read": "auth != null && auth.uid === $uid",
+          // A new user may create its own record, as medewerker only
+          ".write": "auth != null && auth.uid === $uid && !data.exists() && newData.child('role').val() === 'medewerker' && !newData.child('admin').exists()",
+        },
+      },
+      volunteers: {
+        ".read": allow("volunteers:read"),
+        ".write": allow("volunteers:write"),
+      },
+      sign_up_links: {
+        ".read": allow("volunteers:read"),
+        ".write": allow("volunteers:write"),
+        $token: {
+          // Only whoever has the link can look the token up
+          ".read": true,
+          ".validate": "newData.child('volunteerId').isString()",
+        },
+      },
+      public_volunteers: {
+        ".read": true,
+        ".write": allow("volunteers:write"),
+        $volunteerId: {
+          ".validate": "newData.hasChildren(['firstName', 'lastInitial'])",
+        },
+      },
+      pending_volunteers: {
+        ".read": allow("volunteers:read"),
+        ".write": allow("volunteers:write"),
+        $volunteerId: {
+          // The public registration form
+          ".write": "!data.exists() && newData.child('status').val() === 'pending'",
+          ".validate": "newData.hasChildren(['firstName', 'lastName', 'phoneNumber', 'submittedAt', 'status'])",
+        },
+      },
+      rooms: {
+        ".read": true,
+        ".write": allow("rooms:manage"),
+      },
+      mosque: {
+        ".read": true,
+        ".write": allow("mosque:edit"),
+      },
+      spaces: {
+        ".read": allow("materials:read"),
+        ".write": allow("rooms:manage"),
+      },
+      materialTypes: {
+        ".read": allow("materials:read"),
+        ".write": allow("materials:manage"),
+      },
+      materials: {
+        ".read": allow("materials:read"),
+        ".write": allow("materials:checkout"),
+      },
+      equipment: {
+        ".read": allow("materials:read"),
+        ".write": allow("materials:checkout"),
+      },
+      plannings: {
+        ".read": true,
+        ".write": allow("planning:write"),
+        $planningId: {
+          ".write": openShiftPlanning,
+        },
+      },
+      open_shifts: {
+        ".read": true,
+        ".write": admin,
+        $shiftId: {
+          places: {
+            $place: {
+              ".write": any(allow("planning:write"), openShiftClaim),
+            },
+          },
+          volunteerPlaces: {
+            $volunteerId: {
+              ".write": any(allow("planning:write"), openShiftVolunteerPlace),
+            },
+          },
+        },
+      },
+      open_shift_claims: {
+        ".read": allow("planning:read"),
+        ".write": allow("planning:write"),
+        $planningId: {
+          ".write": openShiftProof,
+        },
+      },
+      planning_templates: {
+        ".read": allow("planning:read"),
+        ".write": allow("planning:write"),
+      },
+      shift_swaps: {
+        ".read": allow("planning:read"),
+        ".write": allow("planning:write"),
+        $swapId: {
+          status: {
+            ".validate": swapStatus,
+          },
+        },
+      },
+      activityLogs: {
+        ".read": allow("dashboard:read"),
+        // Everyone who can change something logs it
+        ".write": allow("volunteers:write", "planning:write", "materials:checkout", "materials:manage"),
+      },
+      user_logs: {
+        ".read": allow("logs:read"),
+        ".write": allow("users:manage"),
+        ".indexOn": ["timestamp"],
+        $logId: {
+          ".write": "auth != null && !data.exists() && newData.child('userId').val() === auth.uid",
+        },
+      },
+    },
+  };
+}
+
+export function rulesFile(): string {
+  return `${JSON.stringify(buildRules(), null, 2)}\n`;
+}
@@ -0,0 +1,58 @@
+import type { Prayer } from "./prayer-times";
+
+// A shift an admin publishes under `open_shifts` for volunteers to sign up
+// for themselves. Each place is a child of its own, so two volunteers who
+// sign up at the same moment cannot take the same place: the database rules
+// only let a place be taken while it is open. The shift is full once no place
+// is open. Every place taken becomes an ordinary planning of that day.
+// Volunteers have no account: they sign up through a personal link, whose
+// secret token the rules check for every place taken.
+
+export const MAX_OPEN_SHIFT_PLACES = 20;
+
+export interface OpenShiftPlace {
+  // Present while the place is free
+  open?: true;
+  volunteerId?: string;
+  // The planning created for the volunteer
+  planningId?: string;
+  claimedAt?: string;
+}
+
+export interface OpenShift {
+  roomId: string;
+  // yyyy-MM-dd
+  date: string;
+  // As on a planning: a time window, a prayer, or neither for the whole day
+  startTime?: string | null;
+  endTime?: string | null;
+  prayer?: Prayer | null;
+  note?: string;
+  createdAt: string;
+  // Set when an admin stops sign-ups before the shift is full
+  closed?: boolean;
+  places: Record<string, OpenShiftPlace>;
+  // The place each volunteer took, so that nobody takes two
+  volunteerPlaces?: Record<string, string>;
+}
+
+// "p1", "p2", ...: Firebase turns objects with numeric keys into arrays
+export function emptyPlaces(count: number): Record<string, OpenShiftPlace> {
+  return Object.fromEntries(Array.from({ length: count }, (_, i) => [`p${i + 1}`, { open: true as const }]));
+}
+
+export function freePlaces(shift: OpenShift): string[] {
+  return Object.keys(shift.places ?? {}).filter((key) => shift.places[key].open).sort();
+}
+
+/** The volunteers who took a place. */
+export function signedUp(shift: OpenShift): { place: string; volunteerId: string; planningId?: string }[] {
+  return Object.entries(shift.places ?? {})
+    .filter(([, place]) => place.volunteerId)
+    .map(([key, place]) => ({ place: key, volunteerId: place.volunteerId!, planningId: place.planningId }));
+}
+
+/** Whether volunteers can still sign up; `today` as yyyy-MM-dd. */
+export function acceptsSignUps(shift: OpenShift, today: string): boolean {
+  return !shift.closed && shift.date >= today && freePlaces(shift).length > 0;
+}
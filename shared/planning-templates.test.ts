@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { templateDrafts, type PlanningTemplate } from "./planning-templates";
+
+// Jumu'ah: every Friday at dhuhr, two in the hall with a responsible and one
+// at the entrance
+const jumuah: PlanningTemplate = {
+  name: "Jumu'ah",
+  prayer: "dhuhr",
+  weekdays: ["fri"],
+  rooms: [
+    { roomId: "hall", headcount: 2, responsible: true },
+    { roomId: "entrance", headcount: 1, responsible: false },
+  ],
+};
+
+test("a template gives a draft per place on each of its weekdays", () => {
+  // Monday 1 to Sunday 14 January 2024
+  const drafts = templateDrafts(jumuah, "2024-01-01", "2024-01-14");
+  assert.deepEqual(
+    drafts.map(d => [d.date, d.roomId, d.isResponsible]),
+    [
+      ["2024-01-05", "hall", true],
+      ["2024-01-05", "hall", false],
+      ["2024-01-05", "entrance", false],
+      ["2024-01-12", "hall", true],
+      ["2024-01-12", "hall", false],
+      ["2024-01-12", "entrance", false],
+    ],
+  );
+  assert.ok(drafts.every(d => d.volunteerId === null && d.prayer === "dhuhr" && d.startTime === null && d.endTime === null));
+  assert.equal(new Set(drafts.map(d => d.key)).size, drafts.length);
+});
+
+test("without weekdays every day gets the template's time window", () => {
+  const nights: PlanningTemplate = {
+    name: "Ramadan",
+    startTime: "21:00",
+    endTime: "23:30",
+    rooms: [{ roomId: "hall", headcount: 1, responsible: false }],
+  };
+  const drafts = templateDrafts(nights, "2024-03-11", "2024-03-13");
+  assert.deepEqual(drafts.map(d => d.date), ["2024-03-11", "2024-03-12", "2024-03-13"]);
+  assert.ok(drafts.every(d => d.startTime === "21:00" && d.endTime === "23:30" && d.prayer === null));
+  assert.deepEqual(templateDrafts(jumuah, "2024-01-01", "2024-01-04"), []);
+});
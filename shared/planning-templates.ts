@@ -0,0 +1,61 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Prayer } from "./prayer-times";
+import { WEEKDAY_KEYS, type WeekdayKey } from "./recurrence";
+import type { ShiftTiming } from "./shifts";
+
+// A named layout for an event that comes back, such as the Ramadan nights or
+// Jumu'ah, stored under `planning_templates`: which rooms, how many volunteers
+// each and whether one of them is responsible, at one time of day. Applying
+// it to a range of days gives draft plannings without volunteers.
+
+export interface TemplateRoom {
+  roomId: string;
+  // The responsible is one of them
+  headcount: number;
+  responsible: boolean;
+}
+
+export interface PlanningTemplate {
+  name: string;
+  // As on a planning: a time window, a prayer, or neither for the whole day
+  startTime?: string | null;
+  endTime?: string | null;
+  prayer?: Prayer | null;
+  // The days of the week the event falls on; every day when absent
+  weekdays?: WeekdayKey[];
+  rooms: TemplateRoom[];
+}
+
+export interface DraftPlanning extends ShiftTiming {
+  // Tells the places apart while they are reviewed
+  key: string;
+  date: string;
+  roomId: string;
+  // null until the coordinator picks someone
+  volunteerId: string | null;
+  isResponsible: boolean;
+}
+
+/** One draft per place of each room on every day from `from` to `to` the template falls on. */
+export function templateDrafts(template: PlanningTemplate, from: string, to: string): DraftPlanning[] {
+  const drafts: DraftPlanning[] = [];
+  for (let day = parseISO(from); format(day, "yyyy-MM-dd") <= to; day = addDays(day, 1)) {
+    if (template.weekdays && !template.weekdays.includes(WEEKDAY_KEYS[day.getDay()])) continue;
+    const date = format(day, "yyyy-MM-dd");
+    template.rooms.forEach((room, roomIndex) => {
+      for (let place = 0; place < room.headcount; place++) {
+        drafts.push({
+          key: `${date}/${roomIndex}/${place}`,
+          date,
+          roomId: room.roomId,
+          volunteerId: null,
+          isResponsible: room.responsible && place === 0,
+          startTime: template.startTime ?? null,
+          endTime: template.endTime ?? null,
+          prayer: template.prayer ?? null,
+        });
+      }
+    });
+  }
+  return drafts;
+}
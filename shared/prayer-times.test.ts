@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getPrayerTimes, type PrayerTimeSettings } from "./prayer-times";
+
+// Sunrise, solar noon and sunset in London from the published almanac
+// (timeanddate.com), in UTC. Fajr and Isha follow from the same sun position,
+// so these pin down the astronomy the angles are applied to.
+const london: PrayerTimeSettings = {
+  latitude: 51.5074,
+  longitude: -0.1278,
+  method: "mwl",
+  asr: "standard",
+  highLatitude: "none",
+};
+
+const TOLERANCE_MINUTES = 2;
+
+function assertAround(actual: Date | null, hours: number, minutes: number, date: [number, number, number]) {
+  assert.ok(actual, "expected a time");
+  const expected = Date.UTC(date[0], date[1] - 1, date[2], hours, minutes);
+  const difference = Math.abs(actual.getTime() - expected) / 60000;
+  assert.ok(
+    difference <= TOLERANCE_MINUTES,
+    `${actual.toISOString()} is ${difference} minutes from ${new Date(expected).toISOString()}`,
+  );
+}
+
+test("summer solstice in London", () => {
+  const date: [number, number, number] = [2024, 6, 21];
+  const times = getPrayerTimes(new Date(2024, 5, 21), london);
+  assertAround(times.sunrise, 3, 43, date);
+  assertAround(times.dhuhr, 12, 2, date);
+  assertAround(times.maghrib, 20, 21, date);
+});
+
+test("winter solstice in London", () => {
+  const date: [number, number, number] = [2024, 12, 21];
+  const times = getPrayerTimes(new Date(2024, 11, 21), london);
+  assertAround(times.sunrise, 8, 4, date);
+  assertAround(times.dhuhr, 11, 58, date);
+  assertAround(times.maghrib, 15, 53, date);
+});
+
+test("prayers follow each other in order", () => {
+  const times = getPrayerTimes(new Date(2024, 2, 20), london);
+  const order = [times.fajr, times.sunrise, times.dhuhr, times.asr, times.maghrib, times.isha];
+  for (let i = 1; i < order.length; i++) {
+    assert.ok(order[i - 1]!.getTime() < order[i]!.getTime());
+  }
+});
+
+test("Hanafi Asr comes later than the standard Asr", () => {
+  const day = new Date(2024, 2, 20);
+  const standard = getPrayerTimes(day, london).asr!;
+  const hanafi = getPrayerTimes(day, { ...london, asr: "hanafi" }).asr!;
+  assert.ok(hanafi.getTime() - standard.getTime() > 30 * 60000);
+});
+
+test("without a high latitude rule, Isha is missing when the sun never sets deep enough", () => {
+  // At 18 degrees below the horizon London has no astronomical night in June
+  const times = getPrayerTimes(new Date(2024, 5, 21), london);
+  assert.equal(times.isha, null);
+  const corrected = getPrayerTimes(new Date(2024, 5, 21), { ...london, highLatitude: "angleBased" });
+  assert.ok(corrected.isha);
+});
@@ -0,0 +1,297 @@
+import { z } from "zod";
+
+// Offline prayer-time calculation from the position of the sun, so the app
+// needs no external service. Times are computed in UTC from the location of
+// the mosque and returned as Date objects; formatting them in the browser
+// gives local time. Based on the formulas used by the PrayTimes project.
+
+export const PRAYER_TIME_NAMES = ["fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"] as const;
+export type PrayerTimeName = (typeof PRAYER_TIME_NAMES)[number];
+
+// The five daily prayers, without sunrise
+export const DAILY_PRAYERS = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
+export type DailyPrayer = (typeof DAILY_PRAYERS)[number];
+
+export const PRAYER_TIME_LABELS: Record<PrayerTimeName, string> = {
+  fajr: "Fajr",
+  sunrise: "Shuruq",
+  dhuhr: "Dhuhr",
+  asr: "Asr",
+  maghrib: "Maghrib",
+  isha: "Isha",
+};
+
+// Every prayer a planning or a Sufuf session can be for
+export const PRAYERS = [...DAILY_PRAYERS, "jumuah", "taraweeh", "eid"] as const;
+export type Prayer = (typeof PRAYERS)[number];
+
+export function isPrayer(value: unknown): value is Prayer {
+  return typeof value === "string" && (PRAYERS as readonly string[]).includes(value);
+}
+
+export const PRAYER_LABELS: Record<Prayer, string> = {
+  fajr: PRAYER_TIME_LABELS.fajr,
+  dhuhr: PRAYER_TIME_LABELS.dhuhr,
+  asr: PRAYER_TIME_LABELS.asr,
+  maghrib: PRAYER_TIME_LABELS.maghrib,
+  isha: PRAYER_TIME_LABELS.isha,
+  jumuah: "Jumu'ah",
+  taraweeh: "Taraweeh",
+  eid: "Eid",
+};
+
+// The calculated time the other prayers follow; Eid is set by the mosque
+const PRAYER_TIME_OF: Record<Prayer, DailyPrayer | null> = {
+  fajr: "fajr",
+  dhuhr: "dhuhr",
+  asr: "asr",
+  maghrib: "maghrib",
+  isha: "isha",
+  jumuah: "dhuhr",
+  taraweeh: "isha",
+  eid: null,
+};
+
+type MethodParams = {
+  label: string;
+  fajrAngle: number;
+  // Either an angle below the horizon or a number of minutes after maghrib
+  isha: { angle: number } | { minutes: number };
+  // Maghrib at sunset unless an angle is given
+  maghribAngle?: number;
+  // Fixed corrections in minutes, e.g. the temkin of Diyanet
+  adjustments?: Partial<Record<PrayerTimeName, number>>;
+};
+
+export const CALCULATION_METHODS = ["mwl", "diyanet", "isna", "egypt", "makkah", "karachi", "uoif", "tehran"] as const;
+export type CalculationMethod = (typeof CALCULATION_METHODS)[number];
+
+export const CALCULATION_METHOD_PARAMS: Record<CalculationMethod, MethodParams> = {
+  mwl: { label: "Muslim World League", fajrAngle: 18, isha: { angle: 17 } },
+  diyanet: {
+    label: "Diyanet (Turkije)",
+    fajrAngle: 18,
+    isha: { angle: 17 },
+    adjustments: { sunrise: -7, dhuhr: 5, asr: 4, maghrib: 7 },
+  },
+  isna: { label: "ISNA (Noord-Amerika)", fajrAngle: 15, isha: { angle: 15 } },
+  egypt: { label: "Egyptian General Authority", fajrAngle: 19.5, isha: { angle: 17.5 } },
+  makkah: { label: "Umm al-Qura (Makkah)", fajrAngle: 18.5, isha: { minutes: 90 } },
+  karachi: { label: "University of Islamic Sciences, Karachi", fajrAngle: 18, isha: { angle: 18 } },
+  uoif: { label: "UOIF (Frankrijk)", fajrAngle: 12, isha: { angle: 12 } },
+  tehran: { label: "Institute of Geophysics, Tehran", fajrAngle: 17.7, isha: { angle: 14 }, maghribAngle: 4.5 },
+};
+
+// Length of the shadow relative to the object at Asr
+export const ASR_METHODS = ["standard", "hanafi"] as const;
+export type AsrMethod = (typeof ASR_METHODS)[number];
+
+export const ASR_METHOD_LABELS: Record<AsrMethod, string> = {
+  standard: "Standaard (Shafi'i, Maliki, Hanbali)",
+  hanafi: "Hanafi",
+};
+
+const ASR_SHADOW_FACTOR: Record<AsrMethod, number> = {
+  standard: 1,
+  hanafi: 2,
+};
+
+// In summer the sun may not sink far enough below the horizon for fajr and
+// isha north of about 48°; these rules cap them to a part of the night
+export const HIGH_LATITUDE_RULES = ["angleBased", "oneSeventh", "nightMiddle", "none"] as const;
+export type HighLatitudeRule = (typeof HIGH_LATITUDE_RULES)[number];
+
+export const HIGH_LATITUDE_RULE_LABELS: Record<HighLatitudeRule, string> = {
+  angleBased: "Hoekgebaseerd",
+  oneSeventh: "Een zevende van de nacht",
+  nightMiddle: "Midden van de nacht",
+  none: "Geen correctie",
+};
+
+export const prayerTimeSettingsSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  method: z.enum(CALCULATION_METHODS),
+  asr: z.enum(ASR_METHODS),
+  highLatitude: z.enum(HIGH_LATITUDE_RULES),
+});
+
+export type PrayerTimeSettings = z.infer<typeof prayerTimeSettingsSchema>;
+
+// The mosque in Hoboken
+export const DEFAULT_PRAYER_TIME_SETTINGS: PrayerTimeSettings = {
+  latitude: 51.1764,
+  longitude: 4.3477,
+  method: "mwl",
+  asr: "standard",
+  highLatitude: "angleBased",
+};
+
+// null when the sun never reaches the required angle and no rule applies
+export type PrayerTimes = Record<PrayerTimeName, Date | null>;
+
+const SUN_RISE_SET_ANGLE = 0.833;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const fixAngle = (angle: number) => angle - 360 * Math.floor(angle / 360);
+const fixHour = (hour: number) => hour - 24 * Math.floor(hour / 24);
+// Hours from `from` to `to`, going forward past midnight if needed
+const hoursBetween = (from: number, to: number) => fixHour(to - from);
+
+function julianDate(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// Declination and equation of time, see https://aa.usno.navy.mil/faq/sun_approx
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * Math.sin(toRadians(g)) + 0.02 * Math.sin(toRadians(2 * g)));
+  const e = 23.439 - 0.00000036 * d;
+
+  const rightAscension = fixHour(
+    toDegrees(Math.atan2(Math.cos(toRadians(e)) * Math.sin(toRadians(l)), Math.cos(toRadians(l)))) / 15,
+  );
+  return {
+    declination: toDegrees(Math.asin(Math.sin(toRadians(e)) * Math.sin(toRadians(l)))),
+    equation: q / 15 - rightAscension,
+  };
+}
+
+/**
+ * Prayer times for the calendar day of `date` (in the local time zone) at the
+ * location in `settings`.
+ */
+export function getPrayerTimes(date: Date, settings: PrayerTimeSettings): PrayerTimes {
+  const { latitude, longitude } = settings;
+  const method = CALCULATION_METHOD_PARAMS[settings.method];
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  // Noon at the mosque rather than in Greenwich
+  const jd = julianDate(year, month, day) - longitude / (15 * 24);
+
+  // `estimate` is a rough time of day in hours, used to pick the sun position
+  const midDay = (estimate: number) => fixHour(12 - sunPosition(jd + estimate / 24).equation);
+
+  const sunAngleTime = (angle: number, estimate: number, beforeNoon: boolean) => {
+    const { declination } = sunPosition(jd + estimate / 24);
+    const noon = midDay(estimate);
+    const cosHourAngle =
+      (-Math.sin(toRadians(angle)) - Math.sin(toRadians(declination)) * Math.sin(toRadians(latitude))) /
+      (Math.cos(toRadians(declination)) * Math.cos(toRadians(latitude)));
+    // NaN when the sun does not reach the angle on this day
+    const hourAngle = toDegrees(Math.acos(cosHourAngle)) / 15;
+    return noon + (beforeNoon ? -hourAngle : hourAngle);
+  };
+
+  const asrTime = (factor: number, estimate: number) => {
+    const { declination } = sunPosition(jd + estimate / 24);
+    const angle = -toDegrees(Math.atan(1 / (factor + Math.tan(toRadians(Math.abs(latitude - declination))))));
+    return sunAngleTime(angle, estimate, false);
+  };
+
+  const times: Record<PrayerTimeName, number> = {
+    fajr: sunAngleTime(method.fajrAngle, 5, true),
+    sunrise: sunAngleTime(SUN_RISE_SET_ANGLE, 6, true),
+    dhuhr: midDay(12),
+    asr: asrTime(ASR_SHADOW_FACTOR[settings.asr], 13),
+    maghrib: sunAngleTime(method.maghribAngle ?? SUN_RISE_SET_ANGLE, 18, false),
+    isha: "angle" in method.isha ? sunAngleTime(method.isha.angle, 18, false) : NaN,
+  };
+  const sunset = sunAngleTime(SUN_RISE_SET_ANGLE, 18, false);
+  if ("minutes" in method.isha) {
+    times.isha = times.maghrib + method.isha.minutes / 60;
+  }
+
+  if (settings.highLatitude !== "none") {
+    const night = hoursBetween(sunset, times.sunrise);
+    const portion = (angle: number) => {
+      switch (settings.highLatitude) {
+        case "angleBased": return (angle / 60) * night;
+        case "oneSeventh": return night / 7;
+        default: return night / 2;
+      }
+    };
+
+    const fajrLimit = portion(method.fajrAngle);
+    if (isNaN(times.fajr) || hoursBetween(times.fajr, times.sunrise) > fajrLimit) {
+      times.fajr = times.sunrise - fajrLimit;
+    }
+    if ("angle" in method.isha) {
+      const ishaLimit = portion(method.isha.angle);
+      if (isNaN(times.isha) || hoursBetween(sunset, times.isha) > ishaLimit) {
+        times.isha = sunset + ishaLimit;
+      }
+    }
+    if (method.maghribAngle !== undefined) {
+      const maghribLimit = portion(method.maghribAngle);
+      if (isNaN(times.maghrib) || hoursBetween(sunset, times.maghrib) > maghribLimit) {
+        times.maghrib = sunset + maghribLimit;
+      }
+    }
+  }
+
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  const result = {} as PrayerTimes;
+  for (const name of PRAYER_TIME_NAMES) {
+    const hours = times[name] - longitude / 15 + (method.adjustments?.[name] ?? 0) / 60;
+    // Rounded to the nearest minute, as a mosque would announce it
+    result[name] = isNaN(hours) ? null : new Date(Math.round((midnightUtc + hours * 3600000) / 60000) * 60000);
+  }
+  return result;
+}
+
+/**
+ * The time of `prayer` on the day of `date`, or null when it has no
+ * calculated time.
+ */
+export function getPrayerTime(date: Date, prayer: Prayer, settings: PrayerTimeSettings): Date | null {
+  const daily = PRAYER_TIME_OF[prayer];
+  return daily ? getPrayerTimes(date, settings)[daily] : null;
+}
+
+/**
+ * The daily prayer whose time is closest to `now`, looking at today and the
+ * fajr of tomorrow; the prayer a volunteer is most likely preparing for or in.
+ */
+export function getNearestPrayer(now: Date, settings: PrayerTimeSettings): { prayer: DailyPrayer; time: Date } | null {
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const today = getPrayerTimes(now, settings);
+  const candidates = DAILY_PRAYERS.map((prayer) => ({ prayer, time: today[prayer] }));
+  candidates.push({ prayer: "fajr", time: getPrayerTimes(tomorrow, settings).fajr });
+
+  let nearest: { prayer: DailyPrayer; time: Date } | null = null;
+  for (const { prayer, time } of candidates) {
+    if (!time) continue;
+    if (!nearest || Math.abs(time.getTime() - now.getTime()) < Math.abs(nearest.time.getTime() - now.getTime())) {
+      nearest = { prayer, time };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * The first daily prayer after `now`, which is the fajr of tomorrow once isha
+ * has passed.
+ */
+export function getNextPrayer(now: Date, settings: PrayerTimeSettings): { prayer: DailyPrayer; time: Date } | null {
+  const today = getPrayerTimes(now, settings);
+  for (const prayer of DAILY_PRAYERS) {
+    const time = today[prayer];
+    if (time && time > now) return { prayer, time };
+  }
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const fajr = getPrayerTimes(tomorrow, settings).fajr;
+  return fajr ? { prayer: "fajr", time: fajr } : null;
+}
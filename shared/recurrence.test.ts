@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseISO } from "date-fns";
+import { lastOccurrence, occurrencesBefore, occursOn, type Recurrence } from "./recurrence";
+
+// 2024-01-01 is a Monday
+const mondays: Recurrence = { weekdays: [1], interval: 1, count: 10 };
+
+test("lastOccurrence counts occurrences from the start", () => {
+  assert.equal(lastOccurrence("2024-01-01", mondays), "2024-03-04");
+  assert.equal(lastOccurrence("2024-01-01", { ...mondays, count: 1 }), "2024-01-01");
+});
+
+test("lastOccurrence is not moved by exceptions", () => {
+  const recurrence = { ...mondays, exceptions: { "2024-01-15": true as const } };
+  assert.equal(lastOccurrence("2024-01-01", recurrence), "2024-03-04");
+});
+
+test("lastOccurrence stops at until", () => {
+  const recurrence: Recurrence = { weekdays: [1, 3], interval: 2, until: "2024-01-31" };
+  // Weeks of 1 and 15 January; 29 January starts the next week in the pattern
+  assert.equal(lastOccurrence("2024-01-01", recurrence), "2024-01-31");
+  assert.equal(lastOccurrence("2024-01-01", { ...recurrence, until: "2024-01-28" }), "2024-01-17");
+});
+
+test("a series starting mid-week skips the days before its start", () => {
+  const recurrence: Recurrence = { weekdays: [1, 5], interval: 1, count: 3 };
+  // Wednesday 3 January: Friday 5, Monday 8, Friday 12
+  assert.equal(lastOccurrence("2024-01-03", recurrence), "2024-01-12");
+});
+
+test("occurrencesBefore counts exceptions as well", () => {
+  const recurrence = { ...mondays, exceptions: { "2024-01-15": true as const } };
+  assert.equal(occurrencesBefore("2024-01-01", recurrence, "2024-01-01"), 0);
+  assert.equal(occurrencesBefore("2024-01-01", recurrence, "2024-01-29"), 4);
+  assert.equal(occurrencesBefore("2024-01-01", recurrence, "2024-01-30"), 5);
+});
+
+test("occursOn follows the weekdays, interval and exceptions", () => {
+  const planning = {
+    startDate: "2024-01-01",
+    endDate: "2024-01-31",
+    recurrence: { weekdays: [1], interval: 2, until: "2024-01-31", exceptions: { "2024-01-29": true as const } },
+  };
+  assert.equal(occursOn(planning, parseISO("2024-01-01")), true);
+  assert.equal(occursOn(planning, parseISO("2024-01-08")), false);
+  assert.equal(occursOn(planning, parseISO("2024-01-15")), true);
+  assert.equal(occursOn(planning, parseISO("2024-01-16")), false);
+  assert.equal(occursOn(planning, parseISO("2024-01-29")), false);
+  assert.equal(occursOn(planning, parseISO("2024-02-12")), false);
+});
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { addDays, differenceInCalendarWeeks, format, parseISO, startOfWeek } from "date-fns";
+
+// A recurring planning is stored once and expanded into occurrences when it
+// is shown. `startDate` is the first day of the series and `endDate` its last
+// occurrence (see lastOccurrence), so date-range filters keep working on the
+// stored record.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const WEEKDAY_LABELS = ["Zondag", "Maandag", "Dinsdag", "Woensdag", "Donderdag", "Vrijdag", "Zaterdag"];
+
+// Monday first, as in the week view
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Weekdays as keys of stored objects: Firebase turns objects with numeric
+// keys into arrays
+export const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type WeekdayKey = (typeof WEEKDAY_KEYS)[number];
+
+export const MAX_OCCURRENCES = 520;
+
+export const recurrenceSchema = z
+  .object({
+    // 0 is Sunday, as in Date.getDay()
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Kies ten minste één dag"),
+    // Every how many weeks
+    interval: z.number().int().min(1).max(52),
+    until: z.string().regex(DATE_PATTERN).optional(),
+    count: z.number().int().min(1).max(MAX_OCCURRENCES).optional(),
+    // Days (yyyy-MM-dd) on which the series is skipped or was replaced by a
+    // separate planning
+    exceptions: z.record(z.string().regex(DATE_PATTERN), z.literal(true)).optional(),
+  })
+  .refine((recurrence) => !recurrence.until !== !recurrence.count, {
+    message: "Kies een einddatum of een aantal keer",
+  });
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+export interface RecurringPlanning {
+  startDate: string;
+  endDate: string;
+  recurrence?: Recurrence | null;
+}
+
+const toDateString = (day: Date) => format(day, "yyyy-MM-dd");
+
+function matchesPattern(startDate: string, recurrence: Recurrence, day: Date): boolean {
+  if (!recurrence.weekdays.includes(day.getDay())) return false;
+  const weeks = differenceInCalendarWeeks(day, parseISO(startDate), { weekStartsOn: 1 });
+  return weeks >= 0 && weeks % recurrence.interval === 0;
+}
+
+// Calls `visit` for every day of the pattern from `startDate` on, exceptions
+// included, until it returns false
+function walkPattern(startDate: string, recurrence: Recurrence, visit: (day: Date) => boolean) {
+  if (recurrence.weekdays.length === 0) return;
+  let weekStart = startOfWeek(parseISO(startDate), { weekStartsOn: 1 });
+  for (;;) {
+    for (const weekday of WEEKDAY_ORDER) {
+      const day = addDays(weekStart, (weekday + 6) % 7);
+      if (toDateString(day) < startDate || !recurrence.weekdays.includes(weekday)) continue;
+      if (!visit(day)) return;
+    }
+    weekStart = addDays(weekStart, 7 * recurrence.interval);
+  }
+}
+
+/**
+ * The last day of the series (yyyy-MM-dd). Exceptions do not move it: a
+ * series of ten occurrences with one skipped ends on the same day.
+ */
+export function lastOccurrence(startDate: string, recurrence: Recurrence): string {
+  let last = startDate;
+  let count = 0;
+  walkPattern(startDate, recurrence, (day) => {
+    const date = toDateString(day);
+    if (recurrence.until && date > recurrence.until) return false;
+    last = date;
+    count++;
+    return recurrence.until ? true : count < recurrence.count!;
+  });
+  return last;
+}
+
+/**
+ * How many days of the pattern come before `date`, exceptions included; what
+ * is left of a count after splitting the series at `date`.
+ */
+export function occurrencesBefore(startDate: string, recurrence: Recurrence, date: string): number {
+  let count = 0;
+  walkPattern(startDate, recurrence, (day) => {
+    if (toDateString(day) >= date) return false;
+    count++;
+    return true;
+  });
+  return count;
+}
+
+/** Whether the planning has the volunteer on duty on `day`. */
+export function occursOn(planning: RecurringPlanning, day: Date): boolean {
+  const date = toDateString(day);
+  if (date < planning.startDate || date > planning.endDate) return false;
+  const { recurrence } = planning;
+  if (!recurrence) return true;
+  return !recurrence.exceptions?.[date] && matchesPattern(planning.startDate, recurrence, day);
+}
+
+/** Up to `limit` days on which the planning occurs, from `from` on. */
+export function nextOccurrences(planning: RecurringPlanning, from: Date, limit: number): Date[] {
+  const days: Date[] = [];
+  for (let day = from; days.length < limit && toDateString(day) <= planning.endDate; day = addDays(day, 1)) {
+    if (occursOn(planning, day)) days.push(day);
+  }
+  return days;
+}
+
+/** e.g. "maandag, woensdag en vrijdag" */
+export function listWeekdays(weekdays: number[]): string {
+  const days = WEEKDAY_ORDER
+    .filter((weekday) => weekdays.includes(weekday))
+    .map((weekday) => WEEKDAY_LABELS[weekday].toLowerCase());
+  return days.length > 1 ? `${days.slice(0, -1).join(", ")} en ${days[days.length - 1]}` : days[0];
+}
+
+/** e.g. "Elke vrijdag, om de 2 weken, tot 31 december 2026" */
+export function describeRecurrence(recurrence: Recurrence, formatDate: (date: string) => string): string {
+  const parts = [`Elke ${listWeekdays(recurrence.weekdays)}`];
+  if (recurrence.interval > 1) parts.push(`om de ${recurrence.interval} weken`);
+  parts.push(recurrence.until ? `tot ${formatDate(recurrence.until)}` : `${recurrence.count} keer`);
+  return parts.join(", ");
+}
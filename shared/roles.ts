@@ -0,0 +1,97 @@
+// Roles and the permissions they carry, shared by the client router, the API
+// and the Firebase rules (database.rules.json is generated from them by
+// firebase-rules.ts).
+
+export const ROLES = [
+  "admin",
+  "coordinator",
+  "imam",
+  "material_manager",
+  "board",
+  "medewerker",
+] as const;
+
+export type UserRole = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "dashboard:read",
+  "planning:read",
+  "planning:write",
+  "volunteers:read",
+  "volunteers:write",
+  "materials:read",
+  "materials:checkout",
+  "materials:manage",
+  "rooms:manage",
+  "sufuf:read",
+  "sufuf:update",
+  "sufuf:acknowledge",
+  "sufuf:history",
+  "data:export",
+  "data:import",
+  "logs:read",
+  "users:manage",
+  "mosque:edit",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Beheerder",
+  coordinator: "Coördinator",
+  imam: "Imam",
+  material_manager: "Materiaalbeheerder",
+  board: "Bestuurslid",
+  medewerker: "Medewerker",
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  coordinator: [
+    "dashboard:read",
+    "planning:read", "planning:write",
+    "volunteers:read", "volunteers:write",
+    "materials:read", "materials:checkout",
+    "sufuf:read", "sufuf:update", "sufuf:acknowledge", "sufuf:history",
+    "data:export", "data:import",
+  ],
+  // The imam only works with the Sufuf status board
+  imam: ["sufuf:read", "sufuf:update", "sufuf:acknowledge"],
+  material_manager: [
+    "dashboard:read",
+    "planning:read",
+    "volunteers:read",
+    "materials:read", "materials:checkout", "materials:manage",
+  ],
+  board: [
+    "dashboard:read",
+    "planning:read",
+    "volunteers:read",
+    "materials:read",
+    "sufuf:read", "sufuf:history",
+    "data:export",
+    "logs:read",
+  ],
+  medewerker: [
+    "dashboard:read",
+    "planning:read", "planning:write",
+    "volunteers:read", "volunteers:write",
+    "materials:read", "materials:checkout",
+    "sufuf:read", "sufuf:update",
+    "data:export", "data:import",
+  ],
+};
+
+export function isRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Users created before roles existed only carry the boolean `admin` flag
+export function resolveRole(user: { role?: unknown; admin?: unknown }): UserRole {
+  if (isRole(user.role)) return user.role;
+  return user.admin === true ? "admin" : "medewerker";
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { doubleBookedProposals, generateRoster, pastLoad, type RosterInput } from "./roster";
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from "./prayer-times";
+
+// 2024-01-05 and 2024-01-12 are Fridays
+const input = (overrides: Partial<RosterInput>): RosterInput => ({
+  from: "2024-01-05",
+  to: "2024-01-05",
+  rooms: [{ id: "hall", staffing: { weekdays: { fri: { headcount: 2, responsible: true } } } }],
+  volunteers: [{ id: "a" }, { id: "b" }, { id: "c" }],
+  plannings: [],
+  settings,
+  ...overrides,
+});
+
+test("pastLoad counts the days served in the weeks before", () => {
+  const load = pastLoad([
+    { volunteerId: "a", roomId: "hall", startDate: "2023-12-01", endDate: "2023-12-03" },
+    { volunteerId: "b", roomId: "hall", startDate: "2023-01-01", endDate: "2023-01-01" },
+  ], "2024-01-05");
+  assert.equal(load.get("a"), 3);
+  assert.equal(load.has("b"), false);
+});
+
+test("the roster fills the missing places, the first as responsible", () => {
+  const roster = generateRoster(input({}));
+  assert.equal(roster.length, 2);
+  assert.deepEqual(roster.map(p => p.isResponsible), [true, false]);
+  assert.equal(new Set(roster.map(p => p.volunteerId)).size, 2);
+});
+
+test("the roster prefers volunteers who served least", () => {
+  const roster = generateRoster(input({
+    plannings: [{ volunteerId: "a", roomId: "other", startDate: "2023-12-01", endDate: "2023-12-03" }],
+  }));
+  assert.deepEqual(roster.map(p => p.volunteerId).sort(), ["b", "c"]);
+});
+
+test("the roster skips unavailable and already planned volunteers", () => {
+  const roster = generateRoster(input({
+    volunteers: [{ id: "a", isAvailable: () => false }, { id: "b" }, { id: "c" }],
+    plannings: [{ volunteerId: "c", roomId: "other", startDate: "2024-01-05", endDate: "2024-01-05" }],
+  }));
+  // c counts towards the other room only; one place stays open
+  assert.deepEqual(roster.map(p => p.volunteerId), ["b", null]);
+});
+
+test("existing plannings in the room count towards the need", () => {
+  const roster = generateRoster(input({
+    plannings: [{ volunteerId: "a", roomId: "hall", startDate: "2024-01-05", endDate: "2024-01-05", isResponsible: true }],
+  }));
+  assert.equal(roster.length, 1);
+  assert.equal(roster[0].isResponsible, false);
+  assert.notEqual(roster[0].volunteerId, "a");
+});
+
+test("load spreads over the days of the roster", () => {
+  const roster = generateRoster(input({
+    to: "2024-01-12",
+    rooms: [{ id: "hall", staffing: { weekdays: { fri: { headcount: 1, responsible: false } } } }],
+    volunteers: [{ id: "a" }, { id: "b" }],
+  }));
+  assert.deepEqual(roster.map(p => p.volunteerId), ["a", "b"]);
+});
+
+test("a volunteer put in two overlapping places is double-booked in both", () => {
+  const roster = generateRoster(input({}));
+  const edited = roster.map((proposal) => ({ ...proposal, volunteerId: "a" }));
+  assert.deepEqual(Array.from(doubleBookedProposals(edited, [], settings)), [0, 1]);
+  assert.equal(doubleBookedProposals(roster, [], settings).size, 0);
+  const planned = [{ volunteerId: roster[0].volunteerId!, roomId: "other", startDate: "2024-01-05", endDate: "2024-01-05" }];
+  assert.deepEqual(Array.from(doubleBookedProposals(roster, planned, settings)), [0]);
+});
@@ -0,0 +1,164 @@
+import { addDays, format, parseISO, subWeeks } from "date-fns";
+import { shiftsOverlap, type ConflictPlanning } from "./conflicts";
+import { occursOn } from "./recurrence";
+import { roomCoverage, type RoomStaffing, type StaffingNeed } from "./staffing";
+import type { Prayer, PrayerTimeSettings } from "./prayer-times";
+import type { ShiftTiming } from "./shifts";
+
+// Proposes plannings that fill the staffing needs of rooms over a range of
+// days. Each open place goes to the available volunteer with the lowest load:
+// the days served in the weeks before the range plus what this proposal
+// already gave them, so the work is spread evenly. A volunteer is never
+// proposed for a shift that overlaps one they already have.
+
+// How far back served days count towards a volunteer's load
+export const FAIRNESS_WINDOW_WEEKS = 12;
+
+// A preferred room weighs as much as one served day less
+const PREFERENCE_BONUS = 1;
+
+export interface RosterRoom {
+  id: string;
+  staffing?: RoomStaffing | null;
+}
+
+export interface RosterVolunteer {
+  id: string;
+  preferredRoomIds?: string[];
+  // Whether the volunteer can serve on a day (yyyy-MM-dd); always when absent
+  isAvailable?: (date: string) => boolean;
+}
+
+export type RosterPlanning = ConflictPlanning & { isResponsible?: boolean };
+
+export interface ProposedPlanning {
+  // Tells the places apart while they are reviewed
+  key: string;
+  date: string;
+  roomId: string;
+  // null when nobody is available for the place
+  volunteerId: string | null;
+  isResponsible: boolean;
+  prayer: Prayer | null;
+  need: StaffingNeed;
+}
+
+export interface RosterInput {
+  from: string;
+  to: string;
+  rooms: RosterRoom[];
+  volunteers: RosterVolunteer[];
+  plannings: RosterPlanning[];
+  settings: PrayerTimeSettings;
+}
+
+function eachDay(from: string, to: string): Date[] {
+  const days: Date[] = [];
+  for (let day = parseISO(from); format(day, "yyyy-MM-dd") <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/** Days each volunteer served in the FAIRNESS_WINDOW_WEEKS before `before`. */
+export function pastLoad(plannings: RosterPlanning[], before: string): Map<string, number> {
+  const windowStart = format(subWeeks(parseISO(before), FAIRNESS_WINDOW_WEEKS), "yyyy-MM-dd");
+  const previousDay = format(addDays(parseISO(before), -1), "yyyy-MM-dd");
+  const load = new Map<string, number>();
+  if (previousDay < windowStart) return load;
+
+  const windowDays = eachDay(windowStart, previousDay);
+  for (const planning of plannings) {
+    if (planning.endDate < windowStart || planning.startDate > previousDay) continue;
+    const served = windowDays.filter((day) => occursOn(planning, day)).length;
+    if (served > 0) load.set(planning.volunteerId, (load.get(planning.volunteerId) ?? 0) + served);
+  }
+  return load;
+}
+
+export function generateRoster({ from, to, rooms, volunteers, plannings, settings }: RosterInput): ProposedPlanning[] {
+  const load = pastLoad(plannings, from);
+  const proposals: ProposedPlanning[] = [];
+
+  for (const day of eachDay(from, to)) {
+    const date = format(day, "yyyy-MM-dd");
+    const planned = plannings.filter((planning) => occursOn(planning, day));
+
+    const isBusy = (volunteerId: string, prayer: Prayer | null) =>
+      planned.some((planning) =>
+        planning.volunteerId === volunteerId && shiftsOverlap(planning, { prayer }, day, settings)
+      ) ||
+      proposals.some((proposal) =>
+        proposal.date === date &&
+        proposal.volunteerId === volunteerId &&
+        shiftsOverlap({ prayer: proposal.prayer }, { prayer }, day, settings)
+      );
+
+    const pick = (roomId: string, prayer: Prayer | null): string | null => {
+      const score = (volunteer: RosterVolunteer) =>
+        (load.get(volunteer.id) ?? 0) - (volunteer.preferredRoomIds?.includes(roomId) ? PREFERENCE_BONUS : 0);
+      const candidates = volunteers
+        .filter((volunteer) => (volunteer.isAvailable?.(date) ?? true) && !isBusy(volunteer.id, prayer))
+        .sort((a, b) => score(a) - score(b) || a.id.localeCompare(b.id));
+      return candidates[0]?.id ?? null;
+    };
+
+    for (const room of rooms) {
+      const roomPlannings = planned.filter((planning) => planning.roomId === room.id);
+      roomCoverage(room.staffing, roomPlannings, day, settings).forEach((coverage, coverageIndex) => {
+        const prayer = coverage.need.prayer ?? null;
+        const needsResponsible = coverage.need.responsible && !coverage.hasResponsible;
+        // The responsible fills one of the missing places, or comes on top
+        // when the headcount is already reached
+        const places = Math.max(coverage.missing, needsResponsible ? 1 : 0);
+
+        for (let place = 0; place < places; place++) {
+          const volunteerId = pick(room.id, prayer);
+          if (volunteerId) load.set(volunteerId, (load.get(volunteerId) ?? 0) + 1);
+          proposals.push({
+            key: `${date}/${room.id}/${coverageIndex}/${place}`,
+            date,
+            roomId: room.id,
+            volunteerId,
+            isResponsible: needsResponsible && place === 0,
+            prayer,
+            need: coverage.need,
+          });
+        }
+      });
+    }
+  }
+
+  return proposals;
+}
+
+/**
+ * The proposals (by index) whose volunteer is already on duty at that time,
+ * in an existing planning or in another proposal. generateRoster never makes
+ * these, but the coordinator can while reviewing a roster or template.
+ */
+export function doubleBookedProposals<T extends ShiftTiming & { date: string; volunteerId: string | null }>(
+  proposals: T[],
+  plannings: ConflictPlanning[],
+  settings: PrayerTimeSettings,
+): Set<number> {
+  const doubleBooked = new Set<number>();
+  proposals.forEach((proposal, index) => {
+    if (!proposal.volunteerId) return;
+    const day = parseISO(proposal.date);
+    const clashes =
+      plannings.some((planning) =>
+        planning.volunteerId === proposal.volunteerId &&
+        occursOn(planning, day) &&
+        shiftsOverlap(planning, proposal, day, settings)
+      ) ||
+      proposals.some((other, i) =>
+        i !== index &&
+        other.date === proposal.date &&
+        other.volunteerId === proposal.volunteerId &&
+        shiftsOverlap(other, proposal, day, settings)
+      );
+    if (clashes) doubleBooked.add(index);
+  });
+  return doubleBooked;
+}
@@ -1,11 +1,20 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, primaryKey, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ROLES } from "./roles";
+import { PRAYERS } from "./prayer-times";
+import { recurrenceSchema, type Recurrence } from "./recurrence";
+import { availabilitySchema, type Availability } from "./availability";
+import { roomStaffingSchema, type RoomStaffing } from "./staffing";
+import { TIME_PATTERN } from "./shifts";
+import { SUFUF_PRAYERS, SUFUF_STATES, SUFUF_STATUSES } from "./sufuf";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  // Accounts carried over from Firebase Auth have no local password yet
+  password: text("password"),
+  role: text("role").notNull().default("medewerker"),
 });
 
 export const volunteers = pgTable("volunteers", {
@@ -13,6 +22,8 @@ export const volunteers = pgTable("volunteers", {
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
   phoneNumber: text("phone_number").notNull(),
+  // Weekdays and absences, see shared/availability.ts
+  availability: jsonb("availability").$type<Availability>(),
 });
 
 export const pendingVolunteers = pgTable("pending_volunteers", {
@@ -27,6 +38,17 @@ export const pendingVolunteers = pgTable("pending_volunteers", {
 export const rooms = pgTable("rooms", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  channel: text("channel"),
+  sufuf: boolean("sufuf").notNull().default(false),
+  sufufOrder: integer("sufuf_order").notNull().default(0),
+  imamLabel: text("imam_label"),
+  // Required volunteers per weekday and event, see shared/staffing.ts
+  staffing: jsonb("staffing").$type<RoomStaffing>(),
+});
+
+export const spaces = pgTable("spaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
 });
 
 export const materialTypes = pgTable("material_types", {
@@ -37,30 +59,130 @@ export const materialTypes = pgTable("material_types", {
 
 export const materials = pgTable("materials", {
   id: serial("id").primaryKey(),
-  typeId: integer("type_id").references(() => materialTypes.id),
+  typeId: integer("type_id").references(() => materialTypes.id, { onDelete: "cascade" }),
   number: integer("number").notNull(),
-  assignedToId: integer("assigned_to_id").references(() => volunteers.id),
+  volunteerId: integer("volunteer_id").references(() => volunteers.id, { onDelete: "restrict" }),
   isCheckedOut: boolean("is_checked_out").default(false),
 });
 
+// Stored as `plannings` in Firebase
 export const schedules = pgTable("schedules", {
   id: serial("id").primaryKey(),
-  volunteerId: integer("volunteer_id").references(() => volunteers.id),
-  roomId: integer("room_id").references(() => rooms.id),
+  volunteerId: integer("volunteer_id").references(() => volunteers.id, { onDelete: "cascade" }),
+  roomId: integer("room_id").references(() => rooms.id, { onDelete: "cascade" }),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  isResponsible: boolean("is_responsible").notNull().default(false),
+  // Shift on each planned day as HH:mm, see shared/shifts.ts; null for the
+  // whole day
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  // The prayer the volunteer serves at, see shared/prayer-times.ts
+  prayer: text("prayer"),
+  // Weekly repetition between start and end date, see shared/recurrence.ts;
+  // null for a planning that covers every day of its range
+  recurrence: jsonb("recurrence").$type<Recurrence>(),
+});
+
+// Material checkout history, `activityLogs` in Firebase
+export const activityLogs = pgTable("activity_logs", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(), // 'checkout' | 'return'
+  materialTypeId: integer("material_type_id").references(() => materialTypes.id, { onDelete: "set null" }),
+  materialNumber: integer("material_number").notNull(),
+  volunteerId: integer("volunteer_id").references(() => volunteers.id, { onDelete: "set null" }),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  originalCheckoutDate: timestamp("original_checkout_date"),
+});
+
+export const userLogs = pgTable("user_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  userEmail: text("user_email").notNull(),
+  action: text("action").notNull(),
+  details: text("details"),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  targetType: text("target_type"),
+  targetId: text("target_id"),
+  targetName: text("target_name"),
+  category: text("category"),
+});
+
+// A prayer during which the Sufuf board was used. `prayer` is null when a
+// status was reported before anyone started a prayer.
+export const sufufSessions = pgTable("sufuf_sessions", {
+  id: serial("id").primaryKey(),
+  prayer: text("prayer"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+  startedBy: integer("started_by").references(() => users.id, { onDelete: "set null" }),
 });
 
+// Every accepted Sufuf status change. `room` is the key of the room in
+// Firebase; the reporter's email is kept when the user is removed.
+// `acknowledgedAt` is set when the imam marks the report as read.
+export const sufufStatusEvents = pgTable("sufuf_status_events", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sufufSessions.id, { onDelete: "cascade" }),
+  room: text("room").notNull(),
+  status: text("status").notNull(),
+  state: text("state"),
+  message: text("message"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  reporterId: integer("reporter_id").references(() => users.id, { onDelete: "set null" }),
+  reporterEmail: text("reporter_email").notNull(),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+});
+
+// Maps Firebase push-IDs to the serial IDs they were imported as, so the
+// RTDB import can be re-run without duplicating rows.
+export const firebaseIdMap = pgTable("firebase_id_map", {
+  collection: text("collection").notNull(),
+  firebaseKey: text("firebase_key").notNull(),
+  targetId: integer("target_id").notNull(),
+  importedAt: timestamp("imported_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.collection, table.firebaseKey] }),
+]);
+
 // Create insert schemas
-export const insertUserSchema = createInsertSchema(users);
-export const insertVolunteerSchema = createInsertSchema(volunteers);
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(ROLES),
+});
+export const insertVolunteerSchema = createInsertSchema(volunteers, {
+  availability: availabilitySchema.nullish(),
+});
 export const insertPendingVolunteerSchema = createInsertSchema(pendingVolunteers, {
   submittedAt: z.coerce.date(),
 });
-export const insertRoomSchema = createInsertSchema(rooms);
+export const insertRoomSchema = createInsertSchema(rooms, {
+  staffing: roomStaffingSchema.nullish(),
+});
 export const insertMaterialTypeSchema = createInsertSchema(materialTypes);
 export const insertMaterialSchema = createInsertSchema(materials);
-export const insertScheduleSchema = createInsertSchema(schedules);
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  startTime: z.string().regex(TIME_PATTERN).nullish(),
+  endTime: z.string().regex(TIME_PATTERN).nullish(),
+  prayer: z.enum(PRAYERS).nullish(),
+  recurrence: recurrenceSchema.nullish(),
+});
+export const insertSpaceSchema = createInsertSchema(spaces);
+export const insertActivityLogSchema = createInsertSchema(activityLogs, {
+  timestamp: z.coerce.date(),
+  originalCheckoutDate: z.coerce.date().nullish(),
+});
+export const insertUserLogSchema = createInsertSchema(userLogs, {
+  timestamp: z.coerce.date(),
+});
+export const insertSufufSessionSchema = createInsertSchema(sufufSessions, {
+  prayer: z.enum(SUFUF_PRAYERS).nullish(),
+});
+export const insertSufufStatusEventSchema = createInsertSchema(sufufStatusEvents, {
+  status: z.enum(SUFUF_STATUSES),
+  state: z.enum(SUFUF_STATES).nullish(),
+});
 
 // Export types
 export type User = typeof users.$inferSelect;
@@ -70,6 +192,11 @@ export type Room = typeof rooms.$inferSelect;
 export type MaterialType = typeof materialTypes.$inferSelect;
 export type Material = typeof materials.$inferSelect;
 export type Schedule = typeof schedules.$inferSelect;
+export type Space = typeof spaces.$inferSelect;
+export type ActivityLog = typeof activityLogs.$inferSelect;
+export type UserLog = typeof userLogs.$inferSelect;
+export type SufufSession = typeof sufufSessions.$inferSelect;
+export type SufufStatusEvent = typeof sufufStatusEvents.$inferSelect;
 
 // Export insert types
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -78,4 +205,9 @@ export type InsertPendingVolunteer = z.infer<typeof insertPendingVolunteerSchema
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
 export type InsertMaterial = z.infer<typeof insertMaterialSchema>;
 export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
-export type InsertMaterialType = z.infer<typeof insertMaterialTypeSchema>;
\ No newline at end of file
+export type InsertMaterialType = z.infer<typeof insertMaterialTypeSchema>;
+export type InsertSpace = z.infer<typeof insertSpaceSchema>;
+export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
+export type InsertUserLog = z.infer<typeof insertUserLogSchema>;
+export type InsertSufufSession = z.infer<typeof insertSufufSessionSchema>;
+export type InsertSufufStatusEvent = z.infer<typeof insertSufufStatusEventSchema>;
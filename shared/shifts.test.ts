@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseISO } from "date-fns";
+import { compareShifts, shiftStartMinutes, shiftTimesIssue } from "./shifts";
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from "./prayer-times";
+
+test("a time window needs both times, the end after the start", () => {
+  assert.equal(shiftTimesIssue({ startTime: "09:00", endTime: "12:00" }), null);
+  assert.equal(shiftTimesIssue({ prayer: "isha" }), null);
+  assert.equal(shiftTimesIssue({ startTime: "09:00" })?.field, "endTime");
+  assert.equal(shiftTimesIssue({ endTime: "12:00", startTime: null })?.field, "startTime");
+  assert.equal(shiftTimesIssue({ startTime: "12:00", endTime: "12:00" })?.field, "endTime");
+});
+
+test("shifts are ordered whole day first, then by start, the responsible first", () => {
+  const day = parseISO("2024-01-05");
+  const shifts = [
+    { id: "late", startTime: "18:00", endTime: "20:00" },
+    { id: "dhuhr", prayer: "dhuhr" as const },
+    { id: "morning", startTime: "09:00", endTime: "12:00" },
+    { id: "responsible", startTime: "09:00", endTime: "11:00", isResponsible: true },
+    { id: "day" },
+  ];
+  assert.deepEqual(
+    shifts.sort(compareShifts(day, settings)).map((shift) => shift.id),
+    ["day", "responsible", "morning", "dhuhr", "late"],
+  );
+});
+
+test("isha after midnight on a summer night starts after the rest of the day", () => {
+  // Isha falls at 00:08 the next night with the default MWL settings
+  const day = parseISO("2024-06-21");
+  assert.equal(shiftStartMinutes({ prayer: "isha" }, day, settings), 24 * 60 + 8);
+
+  const shifts = [{ id: "isha", prayer: "isha" as const }, { id: "evening", startTime: "22:00", endTime: "23:00" }];
+  assert.deepEqual(shifts.sort(compareShifts(day, settings)).map((shift) => shift.id), ["evening", "isha"]);
+});
@@ -0,0 +1,90 @@
+import { differenceInCalendarDays, format } from "date-fns";
+import { PRAYER_LABELS, getPrayerTime, type Prayer, type PrayerTimeSettings } from "./prayer-times";
+
+// A planning covers one or more whole days (yyyy-MM-dd). On each of those days
+// the shift runs from `startTime` to `endTime` (HH:mm), or around the time of
+// its prayer, or the whole day when it has neither.
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ShiftTiming {
+  startTime?: string | null;
+  endTime?: string | null;
+  prayer?: Prayer | null;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * What is wrong with the time window of a shift, or null: it needs both
+ * times or neither, and ends after it starts.
+ */
+export function shiftTimesIssue(shift: ShiftTiming): { field: "startTime" | "endTime"; message: string } | null {
+  if (shift.startTime && !shift.endTime) {
+    return { field: "endTime", message: "Eindtijd is verplicht bij een starttijd" };
+  }
+  if (shift.endTime && !shift.startTime) {
+    return { field: "startTime", message: "Starttijd is verplicht bij een eindtijd" };
+  }
+  if (shift.startTime && shift.endTime && timeToMinutes(shift.endTime) <= timeToMinutes(shift.startTime)) {
+    return { field: "endTime", message: "Eindtijd moet na de starttijd liggen" };
+  }
+  return null;
+}
+
+/**
+ * Minutes after midnight of `day` at which `prayer` falls, or null when it has
+ * no calculated time. Counts on past 24:00 for a prayer after midnight, such
+ * as isha on a summer night.
+ */
+export function prayerStartMinutes(prayer: Prayer, day: Date, settings: PrayerTimeSettings): number | null {
+  const time = getPrayerTime(day, prayer, settings);
+  if (!time) return null;
+  return differenceInCalendarDays(time, day) * 24 * 60 + time.getHours() * 60 + time.getMinutes();
+}
+
+/**
+ * Minutes after midnight at which the shift starts on `day`, or null for a
+ * whole-day shift.
+ */
+export function shiftStartMinutes(shift: ShiftTiming, day: Date, settings: PrayerTimeSettings): number | null {
+  if (shift.startTime) return timeToMinutes(shift.startTime);
+  if (!shift.prayer) return null;
+  return prayerStartMinutes(shift.prayer, day, settings);
+}
+
+/**
+ * How the shift is shown on `day`, e.g. "12:30–14:30", "Jumu'ah 12:30–14:30"
+ * or "Isha 20:26"; null for a whole-day shift.
+ */
+export function shiftLabel(shift: ShiftTiming, day: Date, settings: PrayerTimeSettings): string | null {
+  let times: string | null = null;
+  if (shift.startTime && shift.endTime) {
+    times = `${shift.startTime}–${shift.endTime}`;
+  } else if (shift.prayer) {
+    const time = getPrayerTime(day, shift.prayer, settings);
+    times = time ? format(time, "HH:mm") : null;
+  }
+
+  if (!shift.prayer) return times;
+  return times ? `${PRAYER_LABELS[shift.prayer]} ${times}` : PRAYER_LABELS[shift.prayer];
+}
+
+/**
+ * Orders the shifts of one day: whole-day shifts first, then by start time,
+ * with the responsible volunteer first among shifts that start together.
+ */
+export function compareShifts<T extends ShiftTiming & { isResponsible?: boolean }>(
+  day: Date,
+  settings: PrayerTimeSettings,
+): (a: T, b: T) => number {
+  return (a, b) => {
+    const startA = shiftStartMinutes(a, day, settings) ?? -1;
+    const startB = shiftStartMinutes(b, day, settings) ?? -1;
+    if (startA !== startB) return startA - startB;
+    return Number(b.isResponsible ?? false) - Number(a.isResponsible ?? false);
+  };
+}
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseISO } from "date-fns";
+import { roomCoverage, staffingNeeds, worstStatus, type RoomStaffing } from "./staffing";
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from "./prayer-times";
+
+// 2024-01-05 is a Friday
+const friday = parseISO("2024-01-05");
+
+const staffing: RoomStaffing = {
+  weekdays: { fri: { headcount: 3, responsible: true } },
+  events: [{ date: "2024-01-12", headcount: 5, responsible: false, prayer: "jumuah" }],
+};
+
+test("a room needs its weekday requirement, or the events on that date instead", () => {
+  assert.deepEqual(staffingNeeds(staffing, friday), [{ headcount: 3, responsible: true }]);
+  assert.deepEqual(staffingNeeds(staffing, parseISO("2024-01-06")), []);
+  assert.equal(staffingNeeds(staffing, parseISO("2024-01-12"))[0].headcount, 5);
+  assert.deepEqual(staffingNeeds(null, friday), []);
+});
+
+test("a volunteer with several shifts on the day counts once", () => {
+  const [coverage] = roomCoverage(staffing, [
+    { volunteerId: "a", isResponsible: true, startTime: "09:00", endTime: "11:00" },
+    { volunteerId: "a", startTime: "14:00", endTime: "16:00" },
+    { volunteerId: "b" },
+  ], friday, settings);
+  assert.equal(coverage.planned, 2);
+  assert.equal(coverage.missing, 1);
+  assert.equal(coverage.hasResponsible, true);
+  assert.equal(coverage.status, "under");
+});
+
+test("a room without its responsible is under-staffed, and over-staffed past the headcount", () => {
+  const planned = [{ volunteerId: "a" }, { volunteerId: "b" }, { volunteerId: "c" }];
+  assert.equal(roomCoverage(staffing, planned, friday, settings)[0].status, "under");
+  const withResponsible = [...planned, { volunteerId: "d", isResponsible: true }];
+  assert.equal(roomCoverage(staffing, withResponsible, friday, settings)[0].status, "over");
+  assert.equal(roomCoverage(staffing, withResponsible.slice(1), friday, settings)[0].status, "ok");
+});
+
+test("a prayer event only counts the shifts covering that prayer", () => {
+  const [coverage] = roomCoverage(staffing, [
+    { volunteerId: "a", prayer: "jumuah" },
+    { volunteerId: "b", startTime: "18:00", endTime: "20:00" },
+    { volunteerId: "c" },
+  ], parseISO("2024-01-12"), settings);
+  assert.equal(coverage.planned, 2);
+});
+
+test("worstStatus picks under over over over ok", () => {
+  const item = (status: "under" | "ok" | "over") =>
+    ({ status }) as ReturnType<typeof roomCoverage>[number];
+  assert.equal(worstStatus([]), null);
+  assert.equal(worstStatus([item("ok"), item("over")]), "over");
+  assert.equal(worstStatus([item("over"), item("under")]), "under");
+});
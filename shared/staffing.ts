@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { format } from "date-fns";
+import { PRAYERS, PRAYER_LABELS, type Prayer, type PrayerTimeSettings } from "./prayer-times";
+import { shiftsOverlap } from "./conflicts";
+import { WEEKDAY_KEYS } from "./recurrence";
+import type { ShiftTiming } from "./shifts";
+
+// How many volunteers a room needs, stored on the room as `staffing`. A room
+// has a requirement per weekday, and events that replace it on one date, for
+// instance Eid or a lecture. An event for a prayer only counts the volunteers
+// whose shift covers that prayer.
+
+export const staffingRequirementSchema = z.object({
+  headcount: z.number().int().min(0).max(99),
+  responsible: z.boolean(),
+});
+
+export type StaffingRequirement = z.infer<typeof staffingRequirementSchema>;
+
+export const staffingEventSchema = staffingRequirementSchema.extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  label: z.string().max(64).optional(),
+  prayer: z.enum(PRAYERS).optional(),
+});
+
+export type StaffingEvent = z.infer<typeof staffingEventSchema>;
+
+export const roomStaffingSchema = z.object({
+  weekdays: z.record(z.enum(WEEKDAY_KEYS), staffingRequirementSchema).optional(),
+  events: z.array(staffingEventSchema).optional(),
+});
+
+export type RoomStaffing = z.infer<typeof roomStaffingSchema>;
+
+export type StaffingNeed = StaffingRequirement & { label?: string; prayer?: Prayer };
+
+export type CoverageStatus = "under" | "ok" | "over";
+
+export interface Coverage {
+  need: StaffingNeed;
+  planned: number;
+  // The headcount, or one when only a responsible is required
+  required: number;
+  hasResponsible: boolean;
+  // Volunteers still to find, not counting a missing responsible
+  missing: number;
+  status: CoverageStatus;
+}
+
+/** What a room needs on `day`: its events on that date, or else its weekday requirement. */
+export function staffingNeeds(staffing: RoomStaffing | null | undefined, day: Date): StaffingNeed[] {
+  if (!staffing) return [];
+  const date = format(day, "yyyy-MM-dd");
+  const events = (staffing.events ?? []).filter((event) => event.date === date);
+  if (events.length > 0) {
+    return events.map(({ headcount, responsible, label, prayer }) => ({ headcount, responsible, label, prayer }));
+  }
+  const weekday = staffing.weekdays?.[WEEKDAY_KEYS[day.getDay()]];
+  return weekday ? [weekday] : [];
+}
+
+/**
+ * How the plannings of one room on `day` cover each of its needs. A volunteer
+ * with several shifts that day counts once.
+ */
+export function roomCoverage<T extends ShiftTiming & { volunteerId: string; isResponsible?: boolean }>(
+  staffing: RoomStaffing | null | undefined,
+  plannings: T[],
+  day: Date,
+  settings: PrayerTimeSettings,
+): Coverage[] {
+  return staffingNeeds(staffing, day).map((need) => {
+    const serving = need.prayer
+      ? plannings.filter((planning) => shiftsOverlap(planning, { prayer: need.prayer }, day, settings))
+      : plannings;
+    const planned = new Set(serving.map((planning) => planning.volunteerId)).size;
+    const hasResponsible = serving.some((planning) => planning.isResponsible);
+    // A required responsible is one of the volunteers
+    const required = Math.max(need.headcount, need.responsible ? 1 : 0);
+    const missing = Math.max(0, required - planned);
+
+    const status: CoverageStatus =
+      missing > 0 || (need.responsible && !hasResponsible) ? "under" : planned > required ? "over" : "ok";
+    return { need, planned, required, hasResponsible, missing, status };
+  });
+}
+
+/** The status of a room on a day with several needs: the worst of them. */
+export function worstStatus(coverage: Coverage[]): CoverageStatus | null {
+  if (coverage.length === 0) return null;
+  if (coverage.some((item) => item.status === "under")) return "under";
+  return coverage.some((item) => item.status === "over") ? "over" : "ok";
+}
+
+/** e.g. "Eid al-Fitr (Eid)", "Jumu'ah" or "Hele dag" */
+export function needLabel(need: StaffingNeed): string {
+  const prayer = need.prayer ? PRAYER_LABELS[need.prayer] : null;
+  if (need.label && prayer) return `${need.label} (${prayer})`;
+  return need.label || prayer || "Hele dag";
+}
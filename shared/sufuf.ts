@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { PRAYERS, PRAYER_LABELS, type Prayer } from "./prayer-times";
+
+// Socket.IO contract between the Sufuf page and server/sufuf.ts. Volunteers
+// send a command, optionally with a predefined state and a short message;
+// everyone receives the resulting room status and the imam acknowledges it.
+
+export const SUFUF_COMMANDS = ["OK", "NOK", "OFF"] as const;
+export type SufufCommand = (typeof SUFUF_COMMANDS)[number];
+
+export const SUFUF_STATUSES = ["green", "red", "grey"] as const;
+export type SufufStatus = (typeof SUFUF_STATUSES)[number];
+
+export const SUFUF_STATUS_BY_COMMAND: Record<SufufCommand, SufufStatus> = {
+  OK: "green",
+  NOK: "red",
+  OFF: "grey",
+};
+
+// Predefined reports a volunteer can pick; each one belongs to a command
+export const SUFUF_STATES = [
+  "rows_complete",
+  "space_back",
+  "door_closed",
+  "rows_needed",
+  "late_arrivals",
+] as const;
+export type SufufState = (typeof SUFUF_STATES)[number];
+
+export const SUFUF_STATE_COMMANDS: Record<SufufState, SufufCommand> = {
+  rows_complete: "OK",
+  space_back: "OK",
+  door_closed: "OK",
+  rows_needed: "NOK",
+  late_arrivals: "NOK",
+};
+
+export const SUFUF_STATE_LABELS: Record<SufufState, string> = {
+  rows_complete: "Rijen gevuld",
+  space_back: "Plaats achteraan",
+  door_closed: "Deur gesloten",
+  rows_needed: "Meer rijen nodig",
+  late_arrivals: "Wacht op laatkomers",
+};
+
+export const SUFUF_MESSAGE_MAX_LENGTH = 120;
+
+export const updateStatusSchema = z
+  .object({
+    room: z.string().min(1).max(64),
+    status: z.enum(SUFUF_COMMANDS),
+    state: z.enum(SUFUF_STATES).optional(),
+    message: z.string().trim().max(SUFUF_MESSAGE_MAX_LENGTH).optional(),
+  })
+  .refine((update) => !update.state || SUFUF_STATE_COMMANDS[update.state] === update.status, {
+    message: "State does not match the status",
+  });
+
+export type UpdateStatusPayload = z.infer<typeof updateStatusSchema>;
+
+// A session groups the status changes of one prayer for the timeline
+export const SUFUF_PRAYERS = PRAYERS;
+export type SufufPrayer = Prayer;
+export const SUFUF_PRAYER_LABELS = PRAYER_LABELS;
+
+export const startSessionSchema = z.object({
+  prayer: z.enum(SUFUF_PRAYERS),
+});
+
+export type StartSessionPayload = z.infer<typeof startSessionSchema>;
+
+export interface SessionPayload {
+  id: number;
+  prayer: SufufPrayer | null;
+  startedAt: string;
+}
+
+// The last report for a room. `reportId` identifies it for the imam's
+// acknowledgement; a newer report starts unacknowledged again.
+export interface AreaStatus {
+  status: SufufStatus;
+  state?: SufufState;
+  message?: string;
+  reportId: number;
+  reportedAt: string;
+  acknowledged: boolean;
+}
+
+// `report` is null once the room is back to grey without a state or message
+export interface StatusUpdatedPayload {
+  room: string;
+  report: AreaStatus | null;
+}
+
+export const acknowledgeSchema = z.object({
+  room: z.string().min(1).max(64),
+  reportId: z.number().int().positive(),
+});
+
+export type AcknowledgePayload = z.infer<typeof acknowledgeSchema>;
+
+export interface UpdateRejectedPayload {
+  room?: string;
+  reason: "unauthenticated" | "forbidden" | "invalid" | "unavailable";
+}
+
+export interface ServerToClientEvents {
+  // The full board, sent on every (re)connect and after a reset; rooms that
+  // are missing are grey
+  initialStatus: (board: Record<string, AreaStatus>) => void;
+  statusUpdated: (update: StatusUpdatedPayload) => void;
+  updateRejected: (rejection: UpdateRejectedPayload) => void;
+  sessionChanged: (session: SessionPayload | null) => void;
+}
+
+export interface ClientToServerEvents {
+  updateStatus: (update: UpdateStatusPayload) => void;
+  acknowledge: (ack: AcknowledgePayload) => void;
+  startSession: (session: StartSessionPayload) => void;
+  endSession: () => void;
+}
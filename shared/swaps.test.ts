@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { autoApproves, canTakeOver } from "./swaps";
+import type { ConflictPlanning } from "./conflicts";
+import { DEFAULT_PRAYER_TIME_SETTINGS as settings } from "./prayer-times";
+
+// Friday 5 January 2024, 09:00–12:00
+const shift: ConflictPlanning = {
+  volunteerId: "v1",
+  roomId: "r1",
+  startDate: "2024-01-05",
+  endDate: "2024-01-05",
+  startTime: "09:00",
+  endTime: "12:00",
+};
+
+const planning = (id: string, overrides: Partial<ConflictPlanning>) => ({ id, ...shift, ...overrides });
+
+test("a volunteer can take over a shift they are free and available for", () => {
+  const plannings = [planning("offered", {}), planning("afternoon", { volunteerId: "v2", startTime: "13:00", endTime: "15:00" })];
+  assert.equal(canTakeOver({ id: "v2" }, shift, "2024-01-05", plannings, settings), true);
+  assert.equal(canTakeOver({ id: "v2", availability: { weekdays: ["fri"] } }, shift, "2024-01-05", plannings, settings), true);
+});
+
+test("the offering volunteer, an unavailable one or one planned at the same time cannot", () => {
+  const plannings = [planning("offered", {}), planning("morning", { volunteerId: "v2", startTime: "10:00", endTime: "11:00" })];
+  assert.equal(canTakeOver({ id: "v1" }, shift, "2024-01-05", [], settings), false);
+  assert.equal(canTakeOver({ id: "v3", availability: { weekdays: ["mon"] } }, shift, "2024-01-05", [], settings), false);
+  assert.equal(canTakeOver({ id: "v2" }, shift, "2024-01-05", plannings, settings), false);
+  // Unless that shift is the one they give in return
+  assert.equal(canTakeOver({ id: "v2" }, shift, "2024-01-05", plannings, settings, ["morning"]), true);
+});
+
+test("only a drop of an ordinary shift is approved without an admin", () => {
+  assert.equal(autoApproves({ kind: "drop" }, { isResponsible: false }), true);
+  assert.equal(autoApproves({ kind: "drop" }, {}), true);
+  assert.equal(autoApproves({ kind: "drop" }, { isResponsible: true }), false);
+  assert.equal(autoApproves({ kind: "swap" }, { isResponsible: false }), false);
+});
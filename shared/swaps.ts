@@ -0,0 +1,73 @@
+import { parseISO } from "date-fns";
+import { isAvailableOn, type Availability } from "./availability";
+import { findConflicts, type ConflictPlanning } from "./conflicts";
+import type { PrayerTimeSettings } from "./prayer-times";
+
+// A volunteer who cannot come offers one day of their planning, stored under
+// `shift_swaps`. With a drop anyone may take the day over; with a swap the
+// volunteer who claims it gives one of their own days in return. A claim is
+// approved by an admin, or right away when `autoApproves` allows it. The
+// responsible role belongs to the shift: whoever takes it over becomes the
+// responsible for that day.
+
+export const SWAP_KINDS = ["drop", "swap"] as const;
+
+export type SwapKind = (typeof SWAP_KINDS)[number];
+
+export const SWAP_KIND_LABELS: Record<SwapKind, string> = {
+  drop: "Afstaan",
+  swap: "Ruilen",
+};
+
+export const SWAP_STATUSES = ["open", "claimed", "approved", "cancelled"] as const;
+
+export type SwapStatus = (typeof SWAP_STATUSES)[number];
+
+export interface SwapClaim {
+  volunteerId: string;
+  // For a swap: the day of their own planning the claimant gives in return
+  planningId?: string;
+  date?: string;
+  claimedAt: string;
+}
+
+export interface ShiftSwap {
+  planningId: string;
+  // The day of the planning on offer (yyyy-MM-dd)
+  date: string;
+  // The volunteer who offers it
+  volunteerId: string;
+  kind: SwapKind;
+  note?: string;
+  status: SwapStatus;
+  offeredAt: string;
+  claim?: SwapClaim;
+  decidedAt?: string;
+}
+
+/**
+ * Whether the volunteer can take over the shift on `date`: they are available
+ * and have no overlapping shift that day. The plannings in `ignore` are left
+ * out, i.e. the shifts that change hands.
+ */
+export function canTakeOver<T extends ConflictPlanning & { id: string }>(
+  volunteer: { id: string; availability?: Availability | null },
+  shift: ConflictPlanning,
+  date: string,
+  plannings: T[],
+  settings: PrayerTimeSettings,
+  ignore: string[] = [],
+): boolean {
+  if (volunteer.id === shift.volunteerId || !isAvailableOn(volunteer.availability, parseISO(date))) return false;
+  const candidate = { ...shift, volunteerId: volunteer.id, startDate: date, endDate: date, recurrence: null };
+  const others = plannings.filter((planning) => !ignore.includes(planning.id));
+  return findConflicts(candidate, others, settings).length === 0;
+}
+
+/**
+ * Handing over an ordinary shift needs no review. A responsible shift, or an
+ * exchange of two shifts, waits for an admin.
+ */
+export function autoApproves(swap: Pick<ShiftSwap, "kind">, shift: { isResponsible?: boolean }): boolean {
+  return swap.kind === "drop" && !shift.isResponsible;
+}